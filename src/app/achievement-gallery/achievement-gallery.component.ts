@@ -0,0 +1,31 @@
+import { Component, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { ACHIEVEMENTS, AchievementDefinition } from '../achievements/achievement-definitions';
+import { AchievementService } from '../achievements/achievement.service';
+import { GAMES } from '../games/game-registry';
+
+interface AchievementGroup {
+    title: string;
+    achievements: AchievementDefinition[];
+}
+
+@Component({
+    selector: 'app-achievement-gallery',
+    standalone: true,
+    imports: [CommonModule, RouterLink],
+    templateUrl: './achievement-gallery.component.html',
+    styleUrls: ['./achievement-gallery.component.css']
+})
+export class AchievementGalleryComponent {
+    protected achievements = inject(AchievementService);
+
+    // One group per game in launcher order, then the ones any game can earn
+    protected readonly groups: AchievementGroup[] = [
+        ...GAMES.map(game => ({ title: game.title, achievements: ACHIEVEMENTS.filter(a => a.game === game.id) })),
+        { title: 'ALL GAMES', achievements: ACHIEVEMENTS.filter(a => !a.game) }
+    ].filter(group => group.achievements.length > 0);
+
+    protected unlockedCount = computed(() => ACHIEVEMENTS.filter(a => this.achievements.unlocked()[a.id]).length);
+    protected readonly total = ACHIEVEMENTS.length;
+}
@@ -0,0 +1,14 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { AchievementService } from '../achievements/achievement.service';
+
+@Component({
+    selector: 'app-achievement-toasts',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './achievement-toasts.component.html',
+    styleUrls: ['./achievement-toasts.component.css']
+})
+export class AchievementToastsComponent {
+    protected achievements = inject(AchievementService);
+}
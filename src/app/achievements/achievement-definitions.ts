@@ -0,0 +1,109 @@
+import { GameEventOf, GameEventType } from '../events/game-events';
+
+// Counts matching events, adding amount (default 1) each time, and unlocks at target (default 1).
+// The count is lifetime unless one of the resetOn events sets it back to zero.
+export interface RuleFor<T extends GameEventType> {
+    event: T;
+    test?: (event: GameEventOf<T>) => boolean;
+    amount?: (event: GameEventOf<T>) => number;
+    target?: number;
+    resetOn?: GameEventType[];
+}
+
+export type AchievementRule = { [T in GameEventType]: RuleFor<T> }[GameEventType];
+
+export interface AchievementDefinition {
+    id: string;
+    title: string;
+    description: string;
+    icon: string;
+    // Game whose events count; omitted for achievements any game can earn
+    game?: string;
+    rule: AchievementRule;
+}
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+    // Snake
+    {
+        id: 'snake-fifty-unpaused', game: 'snake', icon: '🍎',
+        title: 'Iron Stomach', description: 'Eat 50 apples in one game without pausing',
+        rule: { event: 'apple-eaten', target: 50, resetOn: ['run-start', 'paused'] }
+    },
+    {
+        id: 'snake-long', game: 'snake', icon: '🐍',
+        title: 'Long Tail', description: 'Grow the snake to 30 segments',
+        rule: { event: 'apple-eaten', test: e => e.length >= 30 }
+    },
+
+    // Shape Drop
+    {
+        id: 'shape-drop-four-lines', game: 'shape-drop', icon: '🟦',
+        title: 'Four at Once', description: 'Clear 4 lines at once in Shape Drop',
+        rule: { event: 'lines-cleared', test: e => e.count >= 4 }
+    },
+    {
+        id: 'shape-drop-hundred-lines', game: 'shape-drop', icon: '🧱',
+        title: 'Line Worker', description: 'Clear 100 lines in total',
+        rule: { event: 'lines-cleared', amount: e => e.count, target: 100 }
+    },
+
+    // Alien Invaders
+    {
+        id: 'alien-invaders-mother-ship-jackpot', game: 'alien-invaders', icon: '🛸',
+        title: 'Jackpot', description: 'Hit the mother ship for 300 points',
+        rule: { event: 'enemy-destroyed', test: e => e.kind === 'mother-ship' && e.points >= 300 }
+    },
+    {
+        id: 'alien-invaders-wave', game: 'alien-invaders', icon: '👾',
+        title: 'Wave Breaker', description: 'Clear a whole wave of invaders',
+        rule: { event: 'level-up' }
+    },
+
+    // Hopper
+    {
+        id: 'hopper-lady-frog', game: 'hopper', icon: '💕',
+        title: 'Gallant', description: 'Rescue the lady frog in Hopper',
+        rule: { event: 'goal-reached', test: e => e.rescued }
+    },
+    {
+        id: 'hopper-full-house', game: 'hopper', icon: '🐸',
+        title: 'Full House', description: 'Fill all five homes',
+        rule: { event: 'level-up' }
+    },
+
+    // Space Rocks
+    {
+        id: 'space-rocks-hundred', game: 'space-rocks', icon: '☄️',
+        title: 'Rock Crusher', description: 'Destroy 100 space rocks in total',
+        rule: { event: 'enemy-destroyed', test: e => e.kind === 'rock', target: 100 }
+    },
+    {
+        id: 'space-rocks-level-five', game: 'space-rocks', icon: '🚀',
+        title: 'Deep Space', description: 'Reach level 5 in Space Rocks',
+        rule: { event: 'level-up', test: e => e.level >= 5 }
+    },
+
+    // Bustout
+    {
+        id: 'bustout-wall', game: 'bustout', icon: '🧱',
+        title: 'Wrecking Ball', description: 'Knock down a whole wall of bricks',
+        rule: { event: 'level-up' }
+    },
+    {
+        id: 'bustout-thousand-bricks', game: 'bustout', icon: '🔨',
+        title: 'Demolition Crew', description: 'Break 1000 bricks in total',
+        rule: { event: 'brick-broken', target: 1000 }
+    },
+
+    // Any game
+    {
+        id: 'arcade-regular', icon: '🕹️',
+        title: 'Regular', description: 'Finish 25 games of anything',
+        rule: { event: 'run-end', target: 25 }
+    },
+    {
+        id: 'arcade-marathon', icon: '⏱️',
+        title: 'Marathon', description: 'Play a single game for 10 minutes',
+        rule: { event: 'run-end', test: e => e.durationMs >= 10 * 60 * 1000 }
+    }
+];
@@ -0,0 +1,71 @@
+import { Injectable, computed, effect, inject, linkedSignal, signal } from '@angular/core';
+import { ACHIEVEMENTS, AchievementDefinition, RuleFor } from './achievement-definitions';
+import { GameEvent, GameEventType } from '../events/game-events';
+import { GameEventsService } from '../events/game-events.service';
+import { ProfileService } from '../profiles/profile.service';
+import { AudioService } from '../audio/audio.service';
+
+export interface AchievementProgress {
+    // Unlock time (ISO) by achievement id
+    unlocked: Record<string, string>;
+    // Running rule counts by achievement id
+    counts: Record<string, number>;
+}
+
+const TOAST_MS = 4000;
+
+// Evaluates the achievement rules against the game event stream, per profile
+@Injectable({ providedIn: 'root' })
+export class AchievementService {
+    private profiles = inject(ProfileService);
+    private audio = inject(AudioService);
+
+    private saved = computed(() => this.profiles.read<AchievementProgress>('achievements'));
+    readonly unlocked = linkedSignal(() => this.saved()?.unlocked ?? {});
+    private counts = linkedSignal(() => this.saved()?.counts ?? {});
+
+    // Recently unlocked, shown as toasts
+    readonly toasts = signal<AchievementDefinition[]>([]);
+
+    constructor() {
+        effect(() => this.profiles.write('achievements', { unlocked: this.unlocked(), counts: this.counts() }));
+        inject(GameEventsService).subscribe((game, event) => this.handle(game, event));
+    }
+
+    // How far along a counted achievement is, 0..target
+    progress(achievement: AchievementDefinition): number {
+        const target = achievement.rule.target ?? 1;
+        if (this.unlocked()[achievement.id]) return target;
+        return Math.min(target, this.counts()[achievement.id] ?? 0);
+    }
+
+    private handle(game: string, event: GameEvent): void {
+        const counts = { ...this.counts() };
+        let changed = false;
+
+        for (const achievement of ACHIEVEMENTS) {
+            if (this.unlocked()[achievement.id] || (achievement.game && achievement.game !== game)) continue;
+
+            const rule = achievement.rule as RuleFor<GameEventType>;
+            const id = achievement.id;
+            if (rule.resetOn?.includes(event.type) && counts[id]) {
+                counts[id] = 0;
+                changed = true;
+            }
+            if (event.type !== rule.event || (rule.test && !rule.test(event))) continue;
+
+            counts[id] = (counts[id] ?? 0) + (rule.amount?.(event) ?? 1);
+            changed = true;
+            if (counts[id] >= (rule.target ?? 1)) this.unlock(achievement);
+        }
+
+        if (changed) this.counts.set(counts);
+    }
+
+    private unlock(achievement: AchievementDefinition): void {
+        this.unlocked.update(unlocked => ({ ...unlocked, [achievement.id]: new Date().toISOString() }));
+        this.toasts.update(toasts => [...toasts, achievement]);
+        this.audio.play('arcade.achievement');
+        setTimeout(() => this.toasts.update(toasts => toasts.filter(t => t !== achievement)), TOAST_MS);
+    }
+}
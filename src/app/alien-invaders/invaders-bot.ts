@@ -0,0 +1,48 @@
+import { Bot, BotMove } from '../bots/bot';
+import { InvadersAction, InvadersObservation } from './invaders-engine';
+
+// How far above the player an invader's bomb is worth stepping aside for, in player heights
+const DANGER = 6;
+
+// Steps out from under falling bombs, and otherwise lines up under the nearest invader it can
+// hit without shooting its own barriers away (or the mother ship when it flies over) and fires
+export class InvadersSharpshooter implements Bot<InvadersObservation, InvadersAction> {
+    readonly name = 'sharpshooter';
+
+    move({ width, player, invaders, motherShip, playerBullets, invaderBullets, barriers }: InvadersObservation): BotMove<InvadersAction> {
+        const left = player.x;
+        const right = player.x + player.width;
+        const centre = player.x + player.width / 2;
+
+        const bomb = invaderBullets.find(bullet =>
+            bullet.y + bullet.height > player.y - player.height * DANGER &&
+            bullet.y < player.y + player.height &&
+            bullet.x + bullet.width > left - player.width / 2 &&
+            bullet.x < right + player.width / 2
+        );
+        if (bomb) {
+            // Away from the bomb, unless a wall is in the way
+            const away = bomb.x < centre ? 'move-right' : 'move-left';
+            const blocked = away === 'move-right' ? right >= width - 1 : left <= 1;
+            return { hold: [blocked ? (away === 'move-right' ? 'move-left' : 'move-right') : away] };
+        }
+
+        const covered = (x: number) => barriers.some(barrier => x >= barrier.x && x <= barrier.x + barrier.width);
+        const inReach = invaders.filter(invader => !covered(invader.x + invader.width / 2));
+        const nearest = (inReach.length > 0 ? inReach : invaders).reduce<(typeof invaders)[number] | null>((near, invader) =>
+            !near || Math.abs(invader.x + invader.width / 2 - centre) < Math.abs(near.x + near.width / 2 - centre) ? invader : near, null);
+        const target = motherShip ?? nearest;
+        if (!target) return {};
+
+        const aim = target.x + target.width / 2;
+        const move: BotMove<InvadersAction> = {};
+        if (aim < centre - player.width / 4) move.hold = ['move-left'];
+        else if (aim > centre + player.width / 4) move.hold = ['move-right'];
+        // One shot in the air at a time, as in the original, and only at something it can hit
+        const inLine = [...invaders, ...(motherShip ? [motherShip] : [])].some(
+            invader => centre >= invader.x && centre <= invader.x + invader.width
+        );
+        if (playerBullets.length === 0 && inLine && !covered(centre)) move.press = ['fire'];
+        return move;
+    }
+}
@@ -0,0 +1,81 @@
+import { RandomStream } from '../random/random-stream';
+import { FRAME_MS } from '../game-loop/frame-time';
+import { EventLog, HeldInput, tap } from '../games/engine-test-doubles';
+import { Bullet, Invader, InvadersEngine } from './invaders-engine';
+
+describe('InvadersEngine', () => {
+    const WIDTH = 800;
+    const HEIGHT = 600;
+    let input: HeldInput;
+    let events: EventLog;
+    let engine: InvadersEngine;
+
+    function bulletInside(invader: Invader): Bullet {
+        return { x: invader.x + invader.width / 2, y: invader.y + invader.height / 2, width: 2, height: 8, active: true, speed: 0 };
+    }
+
+    // Continued runs come back paused, so unpause and take a step
+    function playFrom(playerBullets: Bullet[], invaders = engine.invaders): void {
+        engine.restore({ ...engine.snapshot(), playerBullets, invaders, invaderBullets: [], invaderShootTimer: 0 });
+        engine.press(tap('pause'));
+        engine.step(input, FRAME_MS);
+    }
+
+    beforeEach(() => {
+        input = new HeldInput();
+        events = new EventLog();
+        engine = new InvadersEngine(WIDTH, HEIGHT, 1, 1, new RandomStream(1), events.emit);
+    });
+
+    it('starts a run with five rows of eleven invaders', () => {
+        expect(events.of('run-start').length).toBe(1);
+        expect(engine.invaders.length).toBe(55);
+    });
+
+    it.each([
+        ['octopus', 0, 10],
+        ['crab', 1, 20],
+        ['squid', 2, 40]
+    ])('scores a %s for its points', (_name, type, points) => {
+        const invader = engine.invaders.find(inv => inv.type === type)!;
+        playFrom([bulletInside(invader)]);
+
+        expect(invader.active).toBe(false);
+        expect(engine.score).toBe(points);
+        expect(events.of('game').map(e => e.event)).toContainEqual({ type: 'enemy-destroyed', kind: 'invader', points });
+    });
+
+    it('keeps one shot in the air at a time', () => {
+        engine.press(tap('fire'));
+        engine.press(tap('fire'));
+
+        expect(engine.playerBullets.length).toBe(1);
+        expect(events.sounds()).toEqual(['invaders.shoot']);
+    });
+
+    it('moves the player while a direction is held', () => {
+        const start = engine.player.x;
+        input.held.add('move-left');
+        engine.step(input, FRAME_MS);
+
+        expect(engine.player.x).toBeLessThan(start);
+    });
+
+    it('moves up a level once every invader is down', () => {
+        const last = engine.invaders[0];
+        playFrom([bulletInside(last)], [last]);
+
+        expect(engine.level).toBe(2);
+        expect(engine.invaders.length).toBe(55);
+    });
+
+    it('ends the run when the invaders reach the player', () => {
+        const invader = { ...engine.invaders[0], x: 150, y: engine.player.y - 30 };
+        engine.restore({ ...engine.snapshot(), invaders: [invader], invaderDirection: -1, animationCounter: 2000 });
+        engine.press(tap('pause'));
+        engine.step(input, FRAME_MS);
+
+        expect(engine.gameOver).toBe(true);
+        expect(events.of('run-end').length).toBe(1);
+    });
+});
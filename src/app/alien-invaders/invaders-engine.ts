@@ -0,0 +1,704 @@
+import { ActionPress } from '../input/input-actions';
+import { RandomStream } from '../random/random-stream';
+import { FRAME_MS } from '../game-loop/frame-time';
+import { Describable, EngineEmitter, GameEngine, StepInput } from '../games/game-engine';
+import { across, plural } from '../games/game-description';
+import { Observation } from '../bots/bot';
+import { presetValues } from '../settings/game-settings';
+import { INVADERS_SETTINGS, InvadersSettings } from './invaders-settings';
+
+export interface GameObject {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    active: boolean;
+    // Position at the previous simulation step, for interpolated rendering
+    prevX?: number;
+    prevY?: number;
+}
+
+export interface Invader extends GameObject {
+    type: number;
+    animFrame: number;
+}
+
+export interface Bullet extends GameObject {
+    speed: number;
+}
+
+export interface Barrier extends GameObject {
+    health: number;
+}
+
+// Everything a run in progress needs to carry on later
+export interface InvadersSnapshot {
+    score: number;
+    lives: number;
+    level: number;
+    player: GameObject & { speed: number };
+    invaders: Invader[];
+    invaderDirection: number;
+    invaderSpeed: number;
+    animationCounter: number;
+    animationSpeed: number;
+    invaderMoveSound: number;
+    motherShip: GameObject & { direction: number; points: number };
+    playerBullets: Bullet[];
+    invaderBullets: Bullet[];
+    barriers: Barrier[];
+    invaderShootTimer: number;
+    motherShipTimer: number;
+}
+
+// Moving is held, fire is pressed
+export const INVADERS_ACTIONS = ['move-left', 'move-right', 'fire'] as const;
+export type InvadersAction = typeof INVADERS_ACTIONS[number];
+
+export interface Box {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// The field as a bot sees it, in canvas pixels. Only what's still in play is listed. Bullet
+// speeds are pixels per 60 Hz frame: the player's shots fly up, the invaders' fall.
+export interface InvadersObservation extends Observation {
+    width: number;
+    height: number;
+    player: Box;
+    invaders: (Box & { type: number })[];
+    motherShip: (Box & { points: number }) | null;
+    playerBullets: (Box & { speed: number })[];
+    invaderBullets: (Box & { speed: number })[];
+    barriers: (Box & { health: number })[];
+    lives: number;
+    level: number;
+}
+
+// Alien Invaders laid out for an 800 × 600 field, scaled up to fill the canvas it's given
+export class InvadersEngine implements GameEngine<InvadersSnapshot>, Describable {
+    private rng: RandomStream;
+    private emit: EngineEmitter;
+    private startLevel: number;
+    private settings: InvadersSettings;
+
+    // Canvas size
+    width: number;
+    height: number;
+
+    // Game state
+    score = 0;
+    lives = 3;
+    level = 1;
+    gameOver = false;
+    paused = false;
+
+    // Player
+    player: GameObject & { speed: number } = {
+        x: 0,
+        y: 0,
+        width: 26,
+        height: 16,
+        active: true,
+        speed: 3
+    };
+
+    // Invaders
+    invaders: Invader[] = [];
+    private invaderDirection = 1;
+    private invaderSpeed = 0;
+    private baseInvaderSpeed = 0; // Base speed to reset to at start of level
+    private invaderDropAmount = 16;
+    private animationCounter = 0;
+    private animationSpeed = 1000; // 1 second per transition
+    private baseAnimationSpeed = 1000; // Base animation speed to reset to at start of level
+    private invaderMoveSound = 0; // Track which sound to play (0-3 for 4 different tones)
+
+    // Mother ship
+    motherShip: GameObject & { direction: number; points: number } = {
+        x: -50,
+        y: 30,
+        width: 32,
+        height: 14,
+        active: false,
+        direction: 1,
+        points: 0
+    };
+
+    // Bullets
+    playerBullets: Bullet[] = [];
+    invaderBullets: Bullet[] = [];
+
+    // Barriers
+    barriers: Barrier[] = [];
+
+    // Timing
+    private invaderShootTimer = 0;
+    private motherShipTimer = 0;
+
+    // Scale factor for making everything bigger
+    scale = 1;
+
+    // Barrier boundaries for invader movement limits
+    private barrierLeftBoundary = 0;
+    private barrierRightBoundary = 800;
+
+    constructor(
+        width: number,
+        height: number,
+        scale: number,
+        startLevel: number,
+        rng: RandomStream,
+        emit: EngineEmitter,
+        settings: InvadersSettings = presetValues(INVADERS_SETTINGS, 'normal')
+    ) {
+        this.width = width;
+        this.height = height;
+        this.scale = scale;
+        this.startLevel = startLevel;
+        this.rng = rng;
+        this.emit = emit;
+        this.settings = settings;
+        this.baseInvaderSpeed = settings.invaderSpeed;
+        this.initGame();
+    }
+
+    resize(width: number, height: number, scale: number): void {
+        this.width = width;
+        this.height = height;
+        this.scale = scale;
+    }
+
+    // The march keeps time with the formation as it speeds up
+    get tempo(): number {
+        return this.baseAnimationSpeed / this.animationSpeed;
+    }
+
+    press({ action, repeat }: ActionPress): void {
+        if (action === 'fire' && !this.gameOver && !this.paused) {
+            this.shootPlayerBullet();
+        }
+
+        if (action === 'pause' && !repeat) {
+            this.togglePause();
+        }
+
+        if (action === 'restart') {
+            if (this.gameOver) {
+                this.initGame();
+                this.gameOver = false;
+            }
+        }
+    }
+
+    step(input: StepInput, dt: number): void {
+        if (!this.paused && !this.gameOver) this.update(input, dt);
+    }
+
+    snapshot(): InvadersSnapshot {
+        return {
+            score: this.score,
+            lives: this.lives,
+            level: this.level,
+            player: this.player,
+            invaders: this.invaders,
+            invaderDirection: this.invaderDirection,
+            invaderSpeed: this.invaderSpeed,
+            animationCounter: this.animationCounter,
+            animationSpeed: this.animationSpeed,
+            invaderMoveSound: this.invaderMoveSound,
+            motherShip: this.motherShip,
+            playerBullets: this.playerBullets,
+            invaderBullets: this.invaderBullets,
+            barriers: this.barriers,
+            invaderShootTimer: this.invaderShootTimer,
+            motherShipTimer: this.motherShipTimer
+        };
+    }
+
+    // A continued run starts paused, so the player can find their bearings
+    restore(state: InvadersSnapshot): void {
+        this.score = state.score;
+        this.lives = state.lives;
+        this.level = state.level;
+        this.player = state.player;
+        this.invaders = state.invaders;
+        this.invaderDirection = state.invaderDirection;
+        this.invaderSpeed = state.invaderSpeed;
+        this.animationCounter = state.animationCounter;
+        this.animationSpeed = state.animationSpeed;
+        this.invaderMoveSound = state.invaderMoveSound;
+        this.motherShip = state.motherShip;
+        this.playerBullets = state.playerBullets;
+        this.invaderBullets = state.invaderBullets;
+        this.barriers = state.barriers;
+        this.invaderShootTimer = state.invaderShootTimer;
+        this.motherShipTimer = state.motherShipTimer;
+        this.paused = true;
+    }
+
+    observe(): InvadersObservation {
+        const box = ({ x, y, width, height }: GameObject): Box => ({ x, y, width, height });
+        const bullet = (b: Bullet) => ({ ...box(b), speed: b.speed });
+        return {
+            score: this.score,
+            over: this.gameOver,
+            width: this.width,
+            height: this.height,
+            player: box(this.player),
+            invaders: this.invaders.filter(i => i.active).map(i => ({ ...box(i), type: i.type })),
+            motherShip: this.motherShip.active ? { ...box(this.motherShip), points: this.motherShip.points } : null,
+            playerBullets: this.playerBullets.filter(b => b.active).map(bullet),
+            invaderBullets: this.invaderBullets.filter(b => b.active).map(bullet),
+            barriers: this.barriers.filter(b => b.active).map(b => ({ ...box(b), health: b.health })),
+            lives: this.lives,
+            level: this.level
+        };
+    }
+
+    describe(): string {
+        if (this.gameOver) return `Game over. Final score ${this.score}, level ${this.level}.`;
+        const invaders = this.invaders.filter(invader => invader.active);
+        const bombs = this.invaderBullets.filter(bullet => bullet.active).length;
+        const parts = [
+            this.paused ? 'Paused.' : '',
+            `Score ${this.score}, ${plural(this.lives, 'life', 'lives')}, level ${this.level}. ${plural(invaders.length, 'invader')} left.`
+        ];
+        if (invaders.length > 0) {
+            const lowest = invaders.reduce((low, invader) => (invader.y > low.y ? invader : low));
+            const depth = (lowest.y + lowest.height) / this.player.y;
+            const height = depth < 0.4 ? 'high up' : depth < 0.7 ? 'halfway down' : 'close to the ground';
+            parts.push(`The lowest is ${height}, ${across(lowest.x + lowest.width / 2, this.width)}.`);
+        }
+        parts.push(`Your cannon is ${across(this.player.x + this.player.width / 2, this.width)}.`);
+        if (bombs > 0) parts.push(`${plural(bombs, 'bomb')} falling.`);
+        if (this.motherShip.active) parts.push('The mother ship is passing overhead.');
+        return parts.filter(Boolean).join(' ');
+    }
+
+    togglePause(): void {
+        this.paused = !this.paused;
+        if (this.paused) this.emit({ type: 'game', event: { type: 'paused' } });
+    }
+
+    restart(): void {
+        this.initGame();
+        this.gameOver = false;
+    }
+
+    private endGame(): void {
+        if (this.gameOver) return;
+        this.gameOver = true;
+        this.emit({ type: 'run-end', score: this.score, level: this.level });
+    }
+
+    private playInvaderMoveSound(): void {
+        // Alternate between two deep, powerful bass tones for a thump-thump effect
+        this.emit({ type: 'sound', sound: this.invaderMoveSound % 2 === 0 ? 'invaders.marchHigh' : 'invaders.marchLow' });
+        this.invaderMoveSound = (this.invaderMoveSound + 1) % 2;
+    }
+
+    private initGame(): void {
+        this.emit({ type: 'run-start' });
+
+        // Update player size with scale - make it much bigger to match invaders
+        this.player.width = 52 * this.scale;
+        this.player.height = 32 * this.scale;
+        this.player.speed = 3 * this.scale;
+
+        // Reset player position
+        this.player.x = this.player.prevX = this.width / 2 - this.player.width / 2;
+        this.player.y = this.height - 60 * this.scale;
+
+        // Update mother ship size
+        this.motherShip.width = 48 * this.scale;
+        this.motherShip.height = 24 * this.scale;
+
+        // Reset game state
+        this.score = 0;
+        this.lives = this.settings.lives;
+        this.level = this.startLevel;
+
+        // Reset invader speed to the base values for the starting level
+        this.invaderSpeed = this.baseInvaderSpeed + (this.level - 1) * 0.5;
+        this.animationSpeed = Math.max(10, this.baseAnimationSpeed - (this.level - 1) * 2);
+
+        // Create invaders
+        this.createInvaders();
+
+        // Create barriers
+        this.createBarriers();
+
+        // Clear bullets
+        this.playerBullets = [];
+        this.invaderBullets = [];
+
+        // Reset mother ship and timers, so a restarted run plays like a fresh one
+        this.motherShip.active = false;
+        this.motherShipTimer = 0;
+        this.invaderShootTimer = 0;
+        this.animationCounter = 0;
+
+        this.emit({ type: 'music', track: 'invaders' });
+    }
+
+    private createInvaders(): void {
+        this.invaders = [];
+        const startX = 180 * this.scale;
+        const startY = 80 * this.scale;
+        const spacingX = 50 * this.scale;
+        const spacingY = 40 * this.scale;
+
+        // 5 rows, 11 columns
+        for (let row = 0; row < 5; row++) {
+            for (let col = 0; col < 11; col++) {
+                let type = 0;
+                if (row === 0) type = 2; // Top row - squid
+                else if (row <= 2) type = 1; // Middle rows - crab
+                else type = 0; // Bottom rows - octopus
+
+                this.invaders.push({
+                    x: startX + col * spacingX,
+                    y: startY + row * spacingY,
+                    width: 36 * this.scale,
+                    height: 24 * this.scale,
+                    active: true,
+                    type: type,
+                    animFrame: 0
+                });
+            }
+        }
+    }
+
+    private createBarriers(): void {
+
+        this.barriers = [];
+        const barrierY = this.height - 120 * this.scale;
+        const barrierWidth = 60 * this.scale;
+        const barrierHeight = 40 * this.scale;
+        const spacing = (this.width - (barrierWidth * 4)) / 5;
+
+        // Set movement boundaries with margin from edges
+        // Left margin to clear the sidebar/button (sidebar is ~150px wide + padding)
+        // Right margin to match the left margin distance
+        this.barrierLeftBoundary = 160 * this.scale;
+        this.barrierRightBoundary = this.width - (160 * this.scale);
+
+        for (let i = 0; i < 4; i++) {
+            const x = spacing + i * (barrierWidth + spacing);
+
+            // Create multiple segments for each barrier for partial destruction
+            for (let row = 0; row < 4; row++) {
+                for (let col = 0; col < 6; col++) {
+                    this.barriers.push({
+                        x: x + col * 10 * this.scale,
+                        y: barrierY + row * 10 * this.scale,
+                        width: 10 * this.scale,
+                        height: 10 * this.scale,
+                        active: true,
+                        health: 3
+                    });
+                }
+            }
+        }
+    }
+
+    private update(input: StepInput, deltaTime: number): void {
+        // Movement speeds are tuned per 60 Hz frame
+        const frames = deltaTime / FRAME_MS;
+
+        // Move player
+        this.player.prevX = this.player.x;
+        if (input.isHeld('move-left')) {
+            this.player.x = Math.max(0, this.player.x - this.player.speed * frames);
+        }
+        if (input.isHeld('move-right')) {
+            this.player.x = Math.min(this.width - this.player.width, this.player.x + this.player.speed * frames);
+        }
+
+        // Update invaders
+        this.updateInvaders(deltaTime);
+
+        // Update mother ship
+        this.updateMotherShip(deltaTime);
+
+        // Update bullets
+        this.updateBullets(frames);
+
+        // Check collisions
+        this.checkCollisions();
+
+        // Invader shooting
+        this.invaderShootTimer += deltaTime;
+        if (this.invaderShootTimer > this.settings.shotInterval) {
+            this.invaderShoot();
+            this.invaderShootTimer = 0;
+        }
+
+        // Check win condition
+        if (this.invaders.every(inv => !inv.active)) {
+            this.nextLevel();
+        }
+    }
+
+    private updateInvaders(deltaTime: number): void {
+        this.animationCounter += deltaTime;
+
+        if (this.animationCounter > this.animationSpeed) {
+            this.animationCounter = 0;
+
+            // Check if invaders need to change direction
+            let shouldDrop = false;
+
+            for (const invader of this.invaders) {
+                if (!invader.active) continue;
+
+                const nextX = invader.x + this.invaderDirection * this.invaderSpeed * this.scale;
+
+                // Use barrier boundaries instead of canvas boundaries
+                if (nextX <= this.barrierLeftBoundary || nextX + invader.width >= this.barrierRightBoundary) {
+                    shouldDrop = true;
+                    break;
+                }
+            }
+
+            if (shouldDrop) {
+                this.invaderDirection *= -1;
+                for (const invader of this.invaders) {
+                    if (invader.active) {
+                        invader.y += this.invaderDropAmount * this.scale;
+
+                        // Check if invaders reached the bottom
+                        if (invader.y + invader.height >= this.player.y) {
+                            this.endGame();
+                        }
+                    }
+                }
+            }
+
+            // Move invaders and animate
+            for (const invader of this.invaders) {
+                if (invader.active) {
+                    invader.x += this.invaderDirection * this.invaderSpeed * this.scale;
+                    invader.animFrame = (invader.animFrame + 1) % 2;
+                }
+            }
+        }
+    }
+
+    private updateMotherShip(deltaTime: number): void {
+        this.motherShipTimer += deltaTime;
+
+        // Spawn mother ship randomly
+        if (!this.motherShip.active && this.motherShipTimer > 15000 && this.rng.chance(0.01)) {
+            this.motherShip.active = true;
+            this.motherShip.direction = this.rng.chance(0.5) ? 1 : -1;
+            this.motherShip.x = this.motherShip.direction > 0 ? -50 * this.scale : this.width + 50 * this.scale;
+            this.motherShip.prevX = this.motherShip.x;
+            this.motherShip.y = 30 * this.scale;
+            this.motherShip.points = this.rng.pick([50, 100, 150, 300]);
+            this.motherShipTimer = 0;
+            this.emit({ type: 'sound', sound: 'invaders.motherShip' });
+        }
+
+        // Move mother ship
+        if (this.motherShip.active) {
+            this.motherShip.prevX = this.motherShip.x;
+            this.motherShip.x += this.motherShip.direction * 2 * this.scale * deltaTime / FRAME_MS;
+
+            // Remove if off screen
+            if (this.motherShip.x < -100 * this.scale || this.motherShip.x > this.width + 100 * this.scale) {
+                this.motherShip.active = false;
+            }
+        }
+    }
+
+    private updateBullets(frames: number): void {
+        // Update player bullets
+        for (let i = this.playerBullets.length - 1; i >= 0; i--) {
+            const bullet = this.playerBullets[i];
+            bullet.prevY = bullet.y;
+            bullet.y -= bullet.speed * frames;
+
+            if (bullet.y < 0) {
+                this.playerBullets.splice(i, 1);
+            }
+        }
+
+        // Update invader bullets
+        for (let i = this.invaderBullets.length - 1; i >= 0; i--) {
+            const bullet = this.invaderBullets[i];
+            bullet.prevY = bullet.y;
+            bullet.y += bullet.speed * frames;
+
+            if (bullet.y > this.height) {
+                this.invaderBullets.splice(i, 1);
+            }
+        }
+    }
+
+    private shootPlayerBullet(): void {
+        if (this.playerBullets.length < 1) { // Only one bullet at a time, like original
+            this.playerBullets.push({
+                x: this.player.x + this.player.width / 2 - 1 * this.scale,
+                y: this.player.y,
+                width: 2 * this.scale,
+                height: 8 * this.scale,
+                active: true,
+                speed: 6 * this.scale
+            });
+            this.emit({ type: 'sound', sound: 'invaders.shoot' });
+        }
+    }
+
+    private invaderShoot(): void {
+        const activeInvaders = this.invaders.filter(inv => inv.active);
+        if (activeInvaders.length === 0) return;
+
+        // Pick random invader from bottom rows
+        const bottomInvaders = this.getBottomInvaders();
+        if (bottomInvaders.length > 0) {
+            const shooter = this.rng.pick(bottomInvaders);
+            this.invaderBullets.push({
+                x: shooter.x + shooter.width / 2,
+                y: shooter.y + shooter.height,
+                width: 2 * this.scale,
+                height: 8 * this.scale,
+                active: true,
+                speed: 3 * this.scale
+            });
+        }
+    }
+
+    private getBottomInvaders(): Invader[] {
+        const columns: { [key: number]: Invader } = {};
+
+        for (const invader of this.invaders) {
+            if (!invader.active) continue;
+
+            const col = Math.floor(invader.x / 40);
+            if (!columns[col] || invader.y > columns[col].y) {
+                columns[col] = invader;
+            }
+        }
+
+        return Object.values(columns);
+    }
+
+    private checkCollisions(): void {
+        // Player bullets vs invaders
+        for (let i = this.playerBullets.length - 1; i >= 0; i--) {
+            const bullet = this.playerBullets[i];
+
+            for (const invader of this.invaders) {
+                if (invader.active && this.checkCollision(bullet, invader)) {
+                    invader.active = false;
+                    this.playerBullets.splice(i, 1);
+                    this.addScore(invader.type);
+                    this.emit({ type: 'sound', sound: 'invaders.invaderKilled' });
+                    this.increaseInvaderSpeed();
+                    break;
+                }
+            }
+        }
+
+        // Player bullets vs mother ship
+        for (let i = this.playerBullets.length - 1; i >= 0; i--) {
+            const bullet = this.playerBullets[i];
+
+            if (this.motherShip.active && this.checkCollision(bullet, this.motherShip)) {
+                this.motherShip.active = false;
+                this.playerBullets.splice(i, 1);
+                this.score += this.motherShip.points;
+                this.emit({ type: 'sound', sound: 'invaders.explosion' });
+                this.emit({ type: 'game', event: { type: 'enemy-destroyed', kind: 'mother-ship', points: this.motherShip.points } });
+                break;
+            }
+        }
+
+        // Player bullets vs barriers
+        for (let i = this.playerBullets.length - 1; i >= 0; i--) {
+            const bullet = this.playerBullets[i];
+
+            for (const barrier of this.barriers) {
+                if (barrier.active && this.checkCollision(bullet, barrier)) {
+                    barrier.health--;
+                    if (barrier.health <= 0) {
+                        barrier.active = false;
+                    }
+                    this.playerBullets.splice(i, 1);
+                    break;
+                }
+            }
+        }
+
+        // Invader bullets vs player
+        for (let i = this.invaderBullets.length - 1; i >= 0; i--) {
+            const bullet = this.invaderBullets[i];
+
+            if (this.checkCollision(bullet, this.player)) {
+                this.invaderBullets.splice(i, 1);
+                this.lives--;
+                this.emit({ type: 'sound', sound: 'invaders.explosion' });
+                this.emit({ type: 'game', event: { type: 'life-lost', livesLeft: this.lives } });
+
+                if (this.lives <= 0) {
+                    this.endGame();
+                }
+                break;
+            }
+        }
+
+        // Invader bullets vs barriers
+        for (let i = this.invaderBullets.length - 1; i >= 0; i--) {
+            const bullet = this.invaderBullets[i];
+
+            for (const barrier of this.barriers) {
+                if (barrier.active && this.checkCollision(bullet, barrier)) {
+                    barrier.health--;
+                    if (barrier.health <= 0) {
+                        barrier.active = false;
+                    }
+                    this.invaderBullets.splice(i, 1);
+                    break;
+                }
+            }
+        }
+    }
+
+    private checkCollision(obj1: GameObject, obj2: GameObject): boolean {
+        return obj1.x < obj2.x + obj2.width &&
+            obj1.x + obj1.width > obj2.x &&
+            obj1.y < obj2.y + obj2.height &&
+            obj1.y + obj1.height > obj2.y;
+    }
+
+    private addScore(invaderType: number): void {
+        const points = [10, 20, 40][invaderType] || 10;
+        this.score += points;
+        this.emit({ type: 'game', event: { type: 'enemy-destroyed', kind: 'invader', points } });
+    }
+
+    private nextLevel(): void {
+        this.level++;
+        this.emit({ type: 'game', event: { type: 'level-up', level: this.level } });
+        this.createInvaders();
+        this.invaderSpeed += 0.5;
+        this.animationSpeed = Math.max(10, this.animationSpeed - 2);
+        // Reset to base speed for new level, will increase as invaders are destroyed
+        this.invaderSpeed = this.baseInvaderSpeed + (this.level - 1) * 0.5;
+        this.animationSpeed = Math.max(10, this.baseAnimationSpeed - (this.level - 1) * 2);
+    }
+
+    private increaseInvaderSpeed(): void {
+        // Increase speed slightly with each destroyed invader
+        // Speed increase: 0.5 units per destroyed invader
+        this.invaderSpeed += 0.5;
+
+        // Decrease animation time (faster movement), minimum 300ms
+        // This makes them step faster as well
+        this.animationSpeed = Math.max(300, this.animationSpeed - 10);
+    }
+}
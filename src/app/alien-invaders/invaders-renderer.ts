@@ -0,0 +1,154 @@
+import { lerp } from '../game-loop/frame-time';
+import { KeyNames } from '../input/input-actions';
+import { Invader, InvadersEngine } from './invaders-engine';
+
+// Draws an InvadersEngine in the Atari 2600 style, at the engine's scale
+export class InvadersRenderer {
+    constructor(private ctx: CanvasRenderingContext2D, private keys: KeyNames) {}
+
+    render(engine: InvadersEngine, alpha: number): void {
+        // Clear canvas with black background
+        this.ctx.fillStyle = '#000000';
+        this.ctx.fillRect(0, 0, engine.width, engine.height);
+
+        // Draw invaders
+        for (const invader of engine.invaders) {
+            if (invader.active) {
+                this.drawInvader(engine, invader);
+            }
+        }
+
+        // Draw mother ship
+        if (engine.motherShip.active) {
+            this.drawMotherShip(engine, alpha);
+        }
+
+        // Draw player
+        this.drawPlayer(engine, alpha);
+
+        // Draw bullets, interpolated between the last two simulation steps
+        this.ctx.fillStyle = '#FFFFFF';
+        for (const bullet of [...engine.playerBullets, ...engine.invaderBullets]) {
+            this.ctx.fillRect(bullet.x, lerp(bullet.prevY ?? bullet.y, bullet.y, alpha), bullet.width, bullet.height);
+        }
+
+        // Draw barriers
+        this.drawBarriers(engine);
+
+        // Draw game over or paused text
+        if (engine.gameOver) {
+            this.ctx.fillStyle = '#FF0000';
+            this.ctx.font = `bold ${48 * engine.scale}px monospace`;
+            this.ctx.textAlign = 'center';
+            this.ctx.fillText('GAME OVER', engine.width / 2, engine.height / 2);
+            this.ctx.font = `${24 * engine.scale}px monospace`;
+            this.ctx.fillText(`Press ${this.keys('restart')} to Restart`, engine.width / 2, engine.height / 2 + 40 * engine.scale);
+        } else if (engine.paused) {
+            this.ctx.fillStyle = '#FFFF00';
+            this.ctx.font = `bold ${48 * engine.scale}px monospace`;
+            this.ctx.textAlign = 'center';
+            this.ctx.fillText('PAUSED', engine.width / 2, engine.height / 2);
+        }
+    }
+
+    private drawPlayer(engine: InvadersEngine, alpha: number): void {
+        this.ctx.fillStyle = '#00FF00';
+
+        // Simple tank shape (Atari 2600 style) - scaled up 2x to match invaders
+        const x = lerp(engine.player.prevX ?? engine.player.x, engine.player.x, alpha);
+        const y = engine.player.y;
+        const s = engine.scale * 2; // Double the size
+
+        // Tank body
+        this.ctx.fillRect(x + 8 * s, y + 10 * s, 10 * s, 6 * s);
+        // Tank turret
+        this.ctx.fillRect(x + 11 * s, y + 6 * s, 4 * s, 8 * s);
+        // Tank barrel
+        this.ctx.fillRect(x + 12 * s, y + 2 * s, 2 * s, 6 * s);
+        // Tank base
+        this.ctx.fillRect(x + 2 * s, y + 14 * s, 22 * s, 2 * s);
+    }
+
+    private drawInvader(engine: InvadersEngine, invader: Invader): void {
+        const colors = ['#FFFFFF', '#00FF00', '#FF00FF'];
+        this.ctx.fillStyle = colors[invader.type] || '#FFFFFF';
+
+        const x = invader.x;
+        const y = invader.y;
+        const frame = invader.animFrame;
+        const s = engine.scale * 1.5; // Scale up by 1.5x for bigger invaders
+
+        // Simplified pixel art for Atari 2600 style
+        if (invader.type === 2) {
+            // Squid (top row)
+            if (frame === 0) {
+                this.ctx.fillRect(x + 8 * s, y, 8 * s, 2 * s);
+                this.ctx.fillRect(x + 4 * s, y + 2 * s, 16 * s, 4 * s);
+                this.ctx.fillRect(x, y + 6 * s, 24 * s, 4 * s);
+                this.ctx.fillRect(x + 4 * s, y + 10 * s, 4 * s, 4 * s);
+                this.ctx.fillRect(x + 16 * s, y + 10 * s, 4 * s, 4 * s);
+            } else {
+                this.ctx.fillRect(x + 8 * s, y, 8 * s, 2 * s);
+                this.ctx.fillRect(x + 4 * s, y + 2 * s, 16 * s, 4 * s);
+                this.ctx.fillRect(x, y + 6 * s, 24 * s, 4 * s);
+                this.ctx.fillRect(x, y + 10 * s, 4 * s, 4 * s);
+                this.ctx.fillRect(x + 20 * s, y + 10 * s, 4 * s, 4 * s);
+            }
+        } else if (invader.type === 1) {
+            // Crab (middle rows)
+            if (frame === 0) {
+                this.ctx.fillRect(x + 4 * s, y + 2 * s, 4 * s, 2 * s);
+                this.ctx.fillRect(x + 16 * s, y + 2 * s, 4 * s, 2 * s);
+                this.ctx.fillRect(x + 4 * s, y + 4 * s, 16 * s, 6 * s);
+                this.ctx.fillRect(x, y + 10 * s, 8 * s, 2 * s);
+                this.ctx.fillRect(x + 16 * s, y + 10 * s, 8 * s, 2 * s);
+                this.ctx.fillRect(x + 4 * s, y + 12 * s, 4 * s, 2 * s);
+                this.ctx.fillRect(x + 16 * s, y + 12 * s, 4 * s, 2 * s);
+            } else {
+                this.ctx.fillRect(x + 4 * s, y + 2 * s, 4 * s, 2 * s);
+                this.ctx.fillRect(x + 16 * s, y + 2 * s, 4 * s, 2 * s);
+                this.ctx.fillRect(x + 4 * s, y + 4 * s, 16 * s, 6 * s);
+                this.ctx.fillRect(x + 2 * s, y + 10 * s, 4 * s, 2 * s);
+                this.ctx.fillRect(x + 18 * s, y + 10 * s, 4 * s, 2 * s);
+                this.ctx.fillRect(x + 2 * s, y + 12 * s, 4 * s, 2 * s);
+                this.ctx.fillRect(x + 18 * s, y + 12 * s, 4 * s, 2 * s);
+            }
+        } else {
+            // Octopus (bottom rows)
+            if (frame === 0) {
+                this.ctx.fillRect(x + 8 * s, y + 2 * s, 8 * s, 6 * s);
+                this.ctx.fillRect(x + 4 * s, y + 8 * s, 16 * s, 4 * s);
+                this.ctx.fillRect(x, y + 12 * s, 8 * s, 2 * s);
+                this.ctx.fillRect(x + 16 * s, y + 12 * s, 8 * s, 2 * s);
+            } else {
+                this.ctx.fillRect(x + 8 * s, y + 2 * s, 8 * s, 6 * s);
+                this.ctx.fillRect(x + 4 * s, y + 8 * s, 16 * s, 4 * s);
+                this.ctx.fillRect(x + 4 * s, y + 12 * s, 4 * s, 2 * s);
+                this.ctx.fillRect(x + 16 * s, y + 12 * s, 4 * s, 2 * s);
+            }
+        }
+    }
+
+    private drawMotherShip(engine: InvadersEngine, alpha: number): void {
+        this.ctx.fillStyle = '#FF0000';
+
+        const x = lerp(engine.motherShip.prevX ?? engine.motherShip.x, engine.motherShip.x, alpha);
+        const y = engine.motherShip.y;
+        const s = engine.scale;
+
+        // Mother ship (UFO)
+        this.ctx.fillRect(x + 8 * s, y, 16 * s, 4 * s);
+        this.ctx.fillRect(x + 4 * s, y + 4 * s, 24 * s, 6 * s);
+        this.ctx.fillRect(x + 12 * s, y + 10 * s, 8 * s, 4 * s);
+    }
+
+    private drawBarriers(engine: InvadersEngine): void {
+        for (const barrier of engine.barriers) {
+            if (barrier.active) {
+                const alpha = barrier.health / 3;
+                this.ctx.fillStyle = `rgba(0, 255, 0, ${alpha})`;
+                this.ctx.fillRect(barrier.x, barrier.y, barrier.width, barrier.height);
+            }
+        }
+    }
+}
@@ -0,0 +1,15 @@
+import { SettingField } from '../settings/game-settings';
+
+export interface InvadersSettings {
+    lives: number;
+    // How far the formation steps at level 1
+    invaderSpeed: number;
+    // Time between the invaders' shots, in ms
+    shotInterval: number;
+}
+
+export const INVADERS_SETTINGS: SettingField<keyof InvadersSettings>[] = [
+    { id: 'lives', label: 'Lives', min: 1, max: 9, step: 1, presets: { easy: 5, normal: 3, hard: 2 } },
+    { id: 'invaderSpeed', label: 'Invader speed', min: 4, max: 30, step: 1, presets: { easy: 9, normal: 12, hard: 16 } },
+    { id: 'shotInterval', label: 'Time between invader shots (ms)', min: 200, max: 3000, step: 50, presets: { easy: 1400, normal: 1000, hard: 650 } }
+];
@@ -0,0 +1,33 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { GameEventsService } from '../events/game-events.service';
+import { announcementFor } from './game-announcements';
+
+export interface LiveMessage {
+    id: number;
+    text: string;
+    urgent: boolean;
+}
+
+// Messages stay in the live regions a little while, so a screen reader that is busy when one
+// arrives still finds it there
+const KEEP = 3;
+
+// Speaks to screen readers through the live regions in LiveRegionComponent. Key moments of play
+// are announced from the game event stream; anything else can be announced directly.
+@Injectable({ providedIn: 'root' })
+export class AnnouncerService {
+    private nextId = 0;
+
+    readonly messages = signal<LiveMessage[]>([]);
+
+    constructor() {
+        inject(GameEventsService).subscribe((_, event) => {
+            const announcement = announcementFor(event);
+            if (announcement) this.announce(announcement.text, announcement.urgent);
+        });
+    }
+
+    announce(text: string, urgent = false): void {
+        this.messages.update(messages => [...messages.slice(1 - KEEP), { id: this.nextId++, text, urgent }]);
+    }
+}
@@ -0,0 +1,25 @@
+import { announcementFor } from './game-announcements';
+
+describe('announcementFor', () => {
+    it('interrupts for a lost life and for game over', () => {
+        expect(announcementFor({ type: 'life-lost', livesLeft: 2 })).toEqual({ text: 'Life lost. 2 lives left.', urgent: true });
+        expect(announcementFor({ type: 'run-end', score: 1200, level: 3, durationMs: 60000 })).toEqual({
+            text: 'Game over. Final score 1200, level 3.',
+            urgent: true
+        });
+    });
+
+    it('leaves the last life to the game over that follows it', () => {
+        expect(announcementFor({ type: 'life-lost', livesLeft: 0 })).toBeNull();
+    });
+
+    it('waits its turn for level ups and cleared lines', () => {
+        expect(announcementFor({ type: 'level-up', level: 4 })).toEqual({ text: 'Level 4.', urgent: false });
+        expect(announcementFor({ type: 'lines-cleared', count: 1 })?.text).toBe('Line cleared.');
+        expect(announcementFor({ type: 'lines-cleared', count: 4 })?.text).toBe('4 lines cleared.');
+    });
+
+    it('stays quiet for everything else', () => {
+        expect(announcementFor({ type: 'apple-eaten', length: 4 })).toBeNull();
+    });
+});
@@ -0,0 +1,26 @@
+import { GameEvent } from '../events/game-events';
+import { plural } from '../games/game-description';
+
+export interface Announcement {
+    text: string;
+    // Urgent announcements interrupt whatever the screen reader is saying
+    urgent: boolean;
+}
+
+// What a screen reader says when something happens in a game, or null to stay quiet
+export function announcementFor(event: GameEvent): Announcement | null {
+    switch (event.type) {
+        case 'life-lost':
+            // The last life is followed straight away by game over
+            if (event.livesLeft === 0) return null;
+            return { text: `Life lost. ${plural(event.livesLeft, 'life', 'lives')} left.`, urgent: true };
+        case 'level-up':
+            return { text: `Level ${event.level}.`, urgent: false };
+        case 'lines-cleared':
+            return { text: `${event.count === 1 ? 'Line' : plural(event.count, 'line')} cleared.`, urgent: false };
+        case 'run-end':
+            return { text: `Game over. Final score ${event.score}${event.level ? `, level ${event.level}` : ''}.`, urgent: true };
+        default:
+            return null;
+    }
+}
@@ -1,12 +1,20 @@
-import { ApplicationConfig, provideBrowserGlobalErrorListeners, provideZoneChangeDetection } from '@angular/core';
-import { provideRouter } from '@angular/router';
+import { ApplicationConfig, inject, provideAppInitializer, provideBrowserGlobalErrorListeners, provideZoneChangeDetection } from '@angular/core';
+import { provideRouter, withComponentInputBinding, withHashLocation } from '@angular/router';
 
 import { routes } from './app.routes';
+import { AchievementService } from './achievements/achievement.service';
+import { StatsService } from './stats/stats.service';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideBrowserGlobalErrorListeners(),
     provideZoneChangeDetection({ eventCoalescing: true }),
-    provideRouter(routes)
+    // Hash URLs keep deep links working on the static GitHub Pages host, which has no SPA fallback
+    provideRouter(routes, withComponentInputBinding(), withHashLocation()),
+    // Start the services that follow the game event stream before anything is played
+    provideAppInitializer(() => {
+      inject(AchievementService);
+      inject(StatsService);
+    })
   ]
 };
@@ -1,3 +1,25 @@
 import { Routes } from '@angular/router';
+import { HomeComponent } from './home/home.component';
+import { GameIntroComponent } from './game-intro/game-intro.component';
+import { GameShellComponent } from './game-shell/game-shell.component';
+import { AchievementGalleryComponent } from './achievement-gallery/achievement-gallery.component';
+import { StatsDashboardComponent } from './stats-dashboard/stats-dashboard.component';
+import { DailyChallengeComponent } from './daily-challenge/daily-challenge.component';
+import { DataTransferComponent } from './data-transfer/data-transfer.component';
+import { GAMES } from './games/game-registry';
 
-export const routes: Routes = [];
+// Each game has an intro screen at /<game> and the running game at /<game>/play.
+// The descriptor is bound to the `game` input through route data, and query
+// parameters such as ?level=3 are bound to inputs of the same name.
+export const routes: Routes = [
+  { path: '', component: HomeComponent, title: 'Arcade Games' },
+  { path: 'achievements', component: AchievementGalleryComponent, title: 'Achievements' },
+  { path: 'stats', component: StatsDashboardComponent, title: 'Statistics' },
+  { path: 'daily', component: DailyChallengeComponent, title: 'Daily Challenge' },
+  { path: 'data', component: DataTransferComponent, title: 'Your Data' },
+  ...GAMES.flatMap(game => [
+    { path: game.id, component: GameIntroComponent, data: { game }, title: game.title },
+    { path: `${game.id}/play`, component: GameShellComponent, data: { game }, title: game.title }
+  ]),
+  { path: '**', redirectTo: '' }
+];
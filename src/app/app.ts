@@ -1,11 +1,43 @@
-import { Component } from '@angular/core';
-import { HomeComponent } from './home/home.component';
+import { Component, Injector, afterNextRender, inject } from '@angular/core';
+import { NavigationEnd, Router, RouterOutlet } from '@angular/router';
+import { Title } from '@angular/platform-browser';
+import { AchievementToastsComponent } from './achievement-toasts/achievement-toasts.component';
+import { LiveRegionComponent } from './live-region/live-region.component';
+import { AnnouncerService } from './announcer/announcer.service';
 
 @Component({
   selector: 'app-root',
-  imports: [HomeComponent],
+  imports: [RouterOutlet, AchievementToastsComponent, LiveRegionComponent],
   templateUrl: './app.html',
   styleUrl: './app.css'
 })
 export class App {
+  private injector = inject(Injector);
+  private announcer = inject(AnnouncerService);
+  private title = inject(Title);
+
+  constructor() {
+    // A new page gets focus and its title read out, as after a full page load. Changes to the
+    // query string alone, such as typing a seed, leave focus where it is.
+    let path: string | null = null;
+    inject(Router).events.subscribe(event => {
+      if (!(event instanceof NavigationEnd)) return;
+      const next = event.urlAfterRedirects.split('?')[0];
+      if (next === path) return;
+      // The page the app opens on is the browser's to announce
+      const landing = path === null;
+      path = next;
+      if (!landing) afterNextRender(() => this.focusPage(), { injector: this.injector });
+    });
+  }
+
+  // The element marked autofocus, or failing that the page's heading
+  private focusPage(): void {
+    const target = document.querySelector<HTMLElement>('[autofocus]') ?? document.querySelector<HTMLElement>('h1');
+    if (target) {
+      if (target.tagName === 'H1' && !target.hasAttribute('tabindex')) target.tabIndex = -1;
+      target.focus();
+    }
+    this.announcer.announce(this.title.getTitle());
+  }
 }
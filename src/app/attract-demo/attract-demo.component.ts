@@ -0,0 +1,53 @@
+import { Component, OnInit, Type, computed, effect, inject, input, output, signal } from '@angular/core';
+import { CommonModule, NgComponentOutlet } from '@angular/common';
+import { GameDescriptor } from '../games/game-descriptor';
+import { GameInputService } from '../input/game-input.service';
+import { GameSessionService } from '../scores/game-session.service';
+import { RandomService } from '../random/random.service';
+import { ReplayService } from '../replays/replay.service';
+import { GhostService } from '../ghosts/ghost.service';
+import { BotService } from '../bots/bot.service';
+import { demoBot } from '../bots/bot-registry';
+
+export const ATTRACT_MODE = 'attract';
+
+// How long game over stays on screen before the demo reports it
+const GAME_OVER_MS = 3000;
+
+// One game played by its own bot for the attract loop. It provides what the game shell
+// would, afresh for each demo, and keeps the run out of the tables, stats and saves.
+@Component({
+    selector: 'app-attract-demo',
+    standalone: true,
+    imports: [CommonModule, NgComponentOutlet],
+    providers: [GameInputService, GameSessionService, RandomService, ReplayService, GhostService, BotService],
+    templateUrl: './attract-demo.component.html',
+    styleUrls: ['./attract-demo.component.css']
+})
+export class AttractDemoComponent implements OnInit {
+    private gameInput = inject(GameInputService);
+    private session = inject(GameSessionService);
+    private bots = inject(BotService);
+
+    game = input.required<GameDescriptor>();
+    over = output<void>();
+
+    protected gameComponent = signal<Type<unknown> | null>(null);
+    protected componentInputs = computed<Record<string, unknown>>(() => (this.game().hasLevels ? { startLevel: 1 } : {}));
+
+    constructor() {
+        effect(onCleanup => {
+            if (!this.session.finished()) return;
+            const timer = setTimeout(() => this.over.emit(), GAME_OVER_MS);
+            onCleanup(() => clearTimeout(timer));
+        });
+    }
+
+    ngOnInit(): void {
+        const game = this.game();
+        this.gameInput.use(game);
+        this.session.use(game.id, { mode: ATTRACT_MODE, ranked: false, tracked: false });
+        demoBot(game.id)?.load().then(bot => this.bots.drive(bot));
+        game.loadComponent().then(component => this.gameComponent.set(component));
+    }
+}
@@ -0,0 +1,64 @@
+import { Component, DestroyRef, inject, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { GAMES } from '../games/game-registry';
+import { GameDescriptor } from '../games/game-descriptor';
+import { AudioService } from '../audio/audio.service';
+import { AttractDemoComponent } from '../attract-demo/attract-demo.component';
+import { HighScoreTableComponent } from '../high-score-table/high-score-table.component';
+
+type Stage = 'title' | 'demo' | 'scores';
+
+// How long each stage is shown; a demo also ends at game over
+const STAGE_MS: Record<Stage, number> = { title: 4000, demo: 30000, scores: 6000 };
+
+// The launcher's attract loop: each game in turn gets its title card, a demo played by its
+// own bot and its high score table, silently and round and round. Any key or click ends it.
+@Component({
+    selector: 'app-attract-mode',
+    standalone: true,
+    imports: [CommonModule, AttractDemoComponent, HighScoreTableComponent],
+    templateUrl: './attract-mode.component.html',
+    styleUrls: ['./attract-mode.component.css']
+})
+export class AttractModeComponent {
+    private audio = inject(AudioService);
+
+    exit = output<void>();
+
+    protected showing = signal<{ game: GameDescriptor; stage: Stage }>({ game: GAMES[0], stage: 'title' });
+    private timer: ReturnType<typeof setTimeout> | undefined;
+
+    constructor() {
+        this.audio.hush(true);
+        // Caught on the way down, before the demo's own controls can see them
+        window.addEventListener('keydown', this.leave, true);
+        window.addEventListener('pointerdown', this.leave, true);
+        this.schedule();
+
+        inject(DestroyRef).onDestroy(() => {
+            clearTimeout(this.timer);
+            window.removeEventListener('keydown', this.leave, true);
+            window.removeEventListener('pointerdown', this.leave, true);
+            this.audio.hush(false);
+        });
+    }
+
+    protected next(): void {
+        const { game, stage } = this.showing();
+        if (stage === 'title') this.showing.set({ game, stage: 'demo' });
+        else if (stage === 'demo') this.showing.set({ game, stage: 'scores' });
+        else this.showing.set({ game: GAMES[(GAMES.indexOf(game) + 1) % GAMES.length], stage: 'title' });
+        this.schedule();
+    }
+
+    private schedule(): void {
+        clearTimeout(this.timer);
+        this.timer = setTimeout(() => this.next(), STAGE_MS[this.showing().stage]);
+    }
+
+    private leave = (event: Event): void => {
+        event.preventDefault();
+        event.stopPropagation();
+        this.exit.emit();
+    };
+}
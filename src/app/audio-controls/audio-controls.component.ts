@@ -0,0 +1,66 @@
+import { Component, HostListener, computed, inject, input, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { AudioService } from '../audio/audio.service';
+import { KeyBindingsService } from '../input/key-bindings.service';
+import { ARCADE_SCOPE } from '../input/input-actions';
+
+type MixerChannel = 'master' | 'music' | 'sfx';
+
+@Component({
+    selector: 'app-audio-controls',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './audio-controls.component.html',
+    styleUrls: ['./audio-controls.component.css']
+})
+export class AudioControlsComponent {
+    protected audio = inject(AudioService);
+    private bindings = inject(KeyBindingsService);
+
+    // Which edge of the buttons the volume panel lines up with
+    align = input<'left' | 'right'>('right');
+
+    protected mixerOpen = signal(false);
+    protected muteKeys = computed(() =>
+        this.bindings.keysFor(ARCADE_SCOPE, 'mute').map(code => this.bindings.keyLabel(code)).join(' / ')
+    );
+
+    protected readonly channels: { id: MixerChannel; label: string }[] = [
+        { id: 'master', label: 'MASTER' },
+        { id: 'music', label: 'MUSIC' },
+        { id: 'sfx', label: 'EFFECTS' }
+    ];
+
+    // The mute key works from anywhere in the arcade
+    @HostListener('window:keydown', ['$event'])
+    onKeyDown(event: KeyboardEvent): void {
+        if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+        if (event.repeat || !this.bindings.actionsForKey(ARCADE_SCOPE, event.code).includes('mute')) return;
+        this.audio.toggleMute();
+    }
+
+    protected toggleMixer(): void {
+        this.mixerOpen.update(open => !open);
+    }
+
+    // Escape closes the mixer and hands focus back to the button that opened it. It stops here,
+    // so a game behind doesn't take it as a request to exit.
+    protected closeMixer(event: Event, button: HTMLElement): void {
+        event.stopPropagation();
+        this.mixerOpen.set(false);
+        button.focus();
+    }
+
+    protected volume(channel: MixerChannel): number {
+        const volumes = {
+            master: this.audio.masterVolume,
+            music: this.audio.musicVolume,
+            sfx: this.audio.sfxVolume
+        };
+        return Math.round(volumes[channel]() * 100);
+    }
+
+    protected setVolume(channel: MixerChannel, event: Event): void {
+        this.audio.setVolume(channel, Number((event.target as HTMLInputElement).value) / 100);
+    }
+}
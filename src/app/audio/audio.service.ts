@@ -0,0 +1,185 @@
+import { Injectable, computed, effect, inject, linkedSignal, signal } from '@angular/core';
+import { SOUND_PRESETS, SoundName, Tone } from './sound-presets';
+import { ProfileService } from '../profiles/profile.service';
+
+interface AudioSettings {
+    muted: boolean;
+    masterVolume: number;
+    musicVolume: number;
+    sfxVolume: number;
+}
+
+export type AudioChannel = 'music' | 'sfx';
+
+// One AudioContext for the whole arcade: master gain -> destination, with music and
+// sound effect channels mixed into it. Settings are kept per profile.
+@Injectable({ providedIn: 'root' })
+export class AudioService {
+    private profiles = inject(ProfileService);
+    private readonly DEFAULTS: AudioSettings = { muted: false, masterVolume: 0.8, musicVolume: 0.5, sfxVolume: 1 };
+
+    private saved = computed<AudioSettings>(() => ({ ...this.DEFAULTS, ...this.profiles.read<Partial<AudioSettings>>('audio') }));
+
+    readonly muted = linkedSignal(() => !!this.saved().muted);
+    readonly masterVolume = linkedSignal(() => this.clampVolume(this.saved().masterVolume));
+    readonly musicVolume = linkedSignal(() => this.clampVolume(this.saved().musicVolume));
+    readonly sfxVolume = linkedSignal(() => this.clampVolume(this.saved().sfxVolume));
+
+    private context: AudioContext | null = null;
+    private contextFailed = false;
+    private masterGain: GainNode | null = null;
+    private channels: Record<AudioChannel, GainNode> | null = null;
+    // Sound effects are held back while a replay seeks, so skipping isn't a burst of noise
+    private silenced = false;
+    // Everything is held back while the launcher plays demos, without touching the saved settings
+    private readonly hushed = signal(false);
+
+    constructor() {
+        effect(() => {
+            const settings = this.currentSettings();
+            this.applySettings(settings);
+            this.profiles.write('audio', settings);
+        });
+        // Hushing isn't a setting, so it's applied but never saved
+        effect(() => {
+            this.hushed();
+            this.applySettings(this.currentSettings());
+        });
+
+        // Browsers only let audio start from a user gesture, so resume on the first one
+        document.addEventListener('pointerdown', this.unlock, true);
+        document.addEventListener('keydown', this.unlock, true);
+        document.addEventListener('visibilitychange', () => this.syncSuspended());
+    }
+
+    toggleMute(): void {
+        this.muted.update(muted => !muted);
+    }
+
+    silence(silenced: boolean): void {
+        this.silenced = silenced;
+    }
+
+    hush(hushed: boolean): void {
+        this.hushed.set(hushed);
+    }
+
+    setVolume(channel: 'master' | AudioChannel, volume: number): void {
+        const clamped = this.clampVolume(volume);
+        if (channel === 'master') this.masterVolume.set(clamped);
+        else if (channel === 'music') this.musicVolume.set(clamped);
+        else this.sfxVolume.set(clamped);
+    }
+
+    // Plays a named sound effect; pitch scales every tone's frequency
+    play(name: SoundName, pitch = 1): void {
+        if (this.muted() || this.silenced || this.hushed()) return;
+        const context = this.ensureContext();
+        if (!context || !this.channels) return;
+
+        const now = context.currentTime;
+        for (const tone of SOUND_PRESETS[name] as Tone[]) {
+            this.playTone(context, this.channels.sfx, tone, now + (tone.delay ?? 0), pitch);
+        }
+    }
+
+    // Entry point for anything that schedules its own notes on a channel
+    output(channel: AudioChannel): { context: AudioContext; destination: GainNode } | null {
+        const context = this.ensureContext();
+        if (!context || !this.channels) return null;
+        return { context, destination: this.channels[channel] };
+    }
+
+    playTone(context: AudioContext, destination: AudioNode, tone: Tone, start: number, pitch = 1): void {
+        const oscillator = context.createOscillator();
+        const gainNode = context.createGain();
+        oscillator.connect(gainNode);
+        gainNode.connect(destination);
+
+        const hold = tone.hold ?? 0;
+        const end = start + hold + tone.duration;
+
+        oscillator.type = tone.type ?? 'square';
+        oscillator.frequency.setValueAtTime(tone.frequency * pitch, start);
+        if (tone.slideTo) {
+            oscillator.frequency.exponentialRampToValueAtTime(tone.slideTo * pitch, end);
+        }
+
+        gainNode.gain.setValueAtTime(tone.volume ?? 0.3, start);
+        if (tone.envelope !== 'flat') {
+            gainNode.gain.setValueAtTime(tone.volume ?? 0.3, start + hold);
+            gainNode.gain.exponentialRampToValueAtTime(0.01, end);
+        }
+
+        oscillator.start(start);
+        oscillator.stop(end);
+    }
+
+    private ensureContext(): AudioContext | null {
+        if (this.context || this.contextFailed) return this.context;
+
+        try {
+            const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+            this.context = new AudioContextClass();
+        } catch (e) {
+            console.warn('Web Audio API not supported');
+            this.contextFailed = true;
+            return null;
+        }
+
+        this.masterGain = this.context.createGain();
+        this.masterGain.connect(this.context.destination);
+        this.channels = {
+            music: this.context.createGain(),
+            sfx: this.context.createGain()
+        };
+        this.channels.music.connect(this.masterGain);
+        this.channels.sfx.connect(this.masterGain);
+
+        this.applySettings(this.currentSettings());
+        return this.context;
+    }
+
+    private unlock = (): void => {
+        if (!this.ensureContext()) return;
+        this.syncSuspended();
+        if (this.context!.state === 'running') {
+            document.removeEventListener('pointerdown', this.unlock, true);
+            document.removeEventListener('keydown', this.unlock, true);
+        }
+    };
+
+    // Suspend while muted or hidden so a silent arcade costs nothing
+    private syncSuspended(): void {
+        if (!this.context) return;
+        const shouldRun = !this.muted() && !this.hushed() && document.visibilityState === 'visible';
+        if (shouldRun && this.context.state === 'suspended') {
+            this.context.resume().catch(() => { });
+        } else if (!shouldRun && this.context.state === 'running') {
+            this.context.suspend().catch(() => { });
+        }
+    }
+
+    private currentSettings(): AudioSettings {
+        return {
+            muted: this.muted(),
+            masterVolume: this.masterVolume(),
+            musicVolume: this.musicVolume(),
+            sfxVolume: this.sfxVolume()
+        };
+    }
+
+    private applySettings(settings: AudioSettings): void {
+        if (!this.context || !this.masterGain || !this.channels) return;
+
+        const now = this.context.currentTime;
+        this.masterGain.gain.setValueAtTime(settings.muted || this.hushed() ? 0 : settings.masterVolume, now);
+        this.channels.music.gain.setValueAtTime(settings.musicVolume, now);
+        this.channels.sfx.gain.setValueAtTime(settings.sfxVolume, now);
+        this.syncSuspended();
+    }
+
+    private clampVolume(volume: number): number {
+        return Math.min(1, Math.max(0, Number(volume) || 0));
+    }
+}
@@ -0,0 +1,89 @@
+// Notes are written one token per step: a pitch like C4 or F#3, '.' for a rest and
+// '-' to hold the previous note for another step. '|' marks bars and is ignored.
+export interface MusicVoice {
+    type: OscillatorType;
+    volume: number;
+    notes: string;
+    // Glide each note down to this fraction of its pitch, for drum-like hits
+    slide?: number;
+}
+
+export interface MusicTrack {
+    bpm: number;
+    stepsPerBeat: number;
+    // Every track has a 'main' pattern; games switch to the others as play changes
+    patterns: { main: MusicVoice[] } & Record<string, MusicVoice[]>;
+}
+
+export const MUSIC_TRACKS = {
+    snake: {
+        bpm: 132,
+        stepsPerBeat: 4,
+        patterns: {
+            main: [
+                { type: 'square', volume: 0.06, notes: 'C5 . E5 . G5 . E5 . F5 . A5 . G5 - . . | E5 . G5 . C6 . G5 . F5 . D5 . C5 - . .' },
+                { type: 'triangle', volume: 0.15, notes: 'C3 . . . C3 . . . F2 . . . G2 . . . | C3 . . . C3 . . . G2 . . . G2 . . .' },
+                { type: 'sine', volume: 0.2, slide: 0.25, notes: 'C3 . . . C3 . . . C3 . . . C3 . . . | C3 . . . C3 . . . C3 . . . C3 . C3 .' }
+            ]
+        }
+    },
+    bustout: {
+        bpm: 140,
+        stepsPerBeat: 4,
+        patterns: {
+            main: [
+                { type: 'square', volume: 0.05, notes: 'A4 . C5 . E5 . C5 . A4 . E5 . D5 . C5 . | G4 . B4 . D5 . B4 . G4 . D5 . C5 . B4 .' },
+                { type: 'triangle', volume: 0.15, notes: 'A2 . A2 . A2 . A2 . F2 . F2 . F2 . F2 . | G2 . G2 . G2 . G2 . E2 . E2 . E2 . E2 .' }
+            ]
+        }
+    },
+    hopper: {
+        bpm: 120,
+        stepsPerBeat: 4,
+        patterns: {
+            main: [
+                { type: 'square', volume: 0.05, notes: 'F5 . A5 . C6 . A5 . G5 . Bb5 . A5 - . . | F5 . A5 . G5 . E5 . F5 - - - . . . .' },
+                { type: 'triangle', volume: 0.15, notes: 'F3 . C3 . F3 . C3 . C3 . G2 . C3 . G2 . | F3 . C3 . C3 . G2 . F3 . C3 . F3 . . .' }
+            ],
+            // Minor and chromatic while the frog is out on the river
+            river: [
+                { type: 'square', volume: 0.05, notes: 'F5 . Ab5 . F5 . E5 . F5 . Ab5 . B5 - . . | F5 . Ab5 . Db6 . C6 . B5 . Ab5 . F5 - . .' },
+                { type: 'sawtooth', volume: 0.06, notes: 'F2 F2 . F2 F2 . F2 F2 E2 E2 . E2 E2 . E2 E2 | Db2 Db2 . Db2 Db2 . Db2 Db2 C2 C2 . C2 C2 . C2 C2' }
+            ]
+        }
+    },
+    // One beat per formation step at the starting march speed
+    invaders: {
+        bpm: 60,
+        stepsPerBeat: 2,
+        patterns: {
+            main: [
+                { type: 'square', volume: 0.12, notes: 'C3 . Bb2 . Ab2 . G2 .' },
+                { type: 'triangle', volume: 0.08, notes: '. G4 . . . Eb4 . .' }
+            ]
+        }
+    },
+    rocks: {
+        bpm: 100,
+        stepsPerBeat: 4,
+        patterns: {
+            main: [
+                { type: 'triangle', volume: 0.1, notes: 'D4 - - - F4 - - - A4 - - - G4 - - - | F4 - - - E4 - - - D4 - - - E4 - - -' },
+                { type: 'sawtooth', volume: 0.05, notes: 'D2 . . D2 . . D2 . C2 . . C2 . . C2 . | Bb1 . . Bb1 . . Bb1 . A1 . . A1 . . A1 .' }
+            ]
+        }
+    },
+    // Korobeiniki, the traditional folk tune
+    shapes: {
+        bpm: 140,
+        stepsPerBeat: 4,
+        patterns: {
+            main: [
+                { type: 'square', volume: 0.05, notes: 'E5 - B4 C5 D5 - C5 B4 A4 - A4 C5 E5 - D5 C5 | B4 - - C5 D5 - E5 - C5 - A4 - A4 - - .' },
+                { type: 'triangle', volume: 0.15, notes: 'E2 . E3 . E2 . E3 . A2 . A3 . A2 . A3 . | G#2 . G#3 . E2 . E3 . A2 . A3 . A2 . . .' }
+            ]
+        }
+    }
+} satisfies Record<string, MusicTrack>;
+
+export type TrackName = keyof typeof MUSIC_TRACKS;
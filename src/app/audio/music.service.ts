@@ -0,0 +1,147 @@
+import { Injectable, OnDestroy, inject } from '@angular/core';
+import { AudioService } from './audio.service';
+import { MUSIC_TRACKS, MusicTrack, MusicVoice, TrackName } from './music-tracks';
+
+interface NoteEvent {
+    frequency: number;
+    steps: number;
+}
+
+interface ParsedVoice {
+    voice: MusicVoice;
+    // One slot per step: the note starting there, or null
+    events: (NoteEvent | null)[];
+}
+
+const NOTE_OFFSETS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+export function noteFrequency(note: string): number {
+    const match = /^([A-G])([#b]?)(-?\d)$/.exec(note);
+    if (!match) throw new Error(`Invalid note: ${note}`);
+
+    const accidental = match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0;
+    const midi = (Number(match[3]) + 1) * 12 + NOTE_OFFSETS[match[1]] + accidental;
+    return 440 * Math.pow(2, (midi - 69) / 12);
+}
+
+function parseVoice(voice: MusicVoice): ParsedVoice {
+    const tokens = voice.notes.split(/\s+/).filter(token => token && token !== '|');
+    const events: (NoteEvent | null)[] = tokens.map(() => null);
+    let current: NoteEvent | null = null;
+
+    tokens.forEach((token, step) => {
+        if (token === '-') {
+            if (current) current.steps++;
+        } else if (token === '.') {
+            current = null;
+        } else {
+            current = { frequency: noteFrequency(token), steps: 1 };
+            events[step] = current;
+        }
+    });
+    return { voice, events };
+}
+
+// Step sequencer for one game's soundtrack. Notes are scheduled a little ahead of the
+// audio clock from a timer, so tempo and pattern changes land within a step or two.
+@Injectable()
+export class MusicService implements OnDestroy {
+    private audio = inject(AudioService);
+
+    private readonly SCHEDULE_INTERVAL = 25; // ms
+    private readonly SCHEDULE_AHEAD = 0.1; // seconds
+    private readonly GATE = 0.9;
+
+    private track: MusicTrack | null = null;
+    private patterns: Record<string, ParsedVoice[]> = {};
+    private pattern = 'main';
+    private pendingPattern: string | null = null;
+    private step = 0;
+    private nextStepTime = 0;
+    private tempo = 1;
+    private paused = false;
+    private timerId: ReturnType<typeof setInterval> | null = null;
+
+    // Starts a track from the top, on its main pattern
+    play(name: TrackName): void {
+        this.stop();
+
+        this.track = MUSIC_TRACKS[name];
+        this.patterns = {};
+        for (const [key, voices] of Object.entries(this.track.patterns)) {
+            this.patterns[key] = voices.map(parseVoice);
+        }
+        this.pattern = 'main';
+        this.step = 0;
+        this.nextStepTime = 0;
+        this.timerId = setInterval(() => this.schedule(), this.SCHEDULE_INTERVAL);
+    }
+
+    stop(): void {
+        if (this.timerId !== null) {
+            clearInterval(this.timerId);
+            this.timerId = null;
+        }
+        this.track = null;
+        this.pendingPattern = null;
+    }
+
+    setPaused(paused: boolean): void {
+        this.paused = paused;
+    }
+
+    // Multiplier on the track's bpm
+    setTempo(tempo: number): void {
+        this.tempo = Math.max(0.1, tempo);
+    }
+
+    // Switches pattern on the next beat so the change stays in time
+    setVariation(pattern: string): void {
+        if (!this.track || !(pattern in this.patterns)) return;
+        this.pendingPattern = pattern === this.pattern ? null : pattern;
+    }
+
+    ngOnDestroy(): void {
+        this.stop();
+    }
+
+    private schedule(): void {
+        if (!this.track || this.paused) {
+            this.nextStepTime = 0;
+            return;
+        }
+
+        const output = this.audio.output('music');
+        if (!output) return;
+
+        const { context, destination } = output;
+        // Start (or restart after a pause) just ahead of the clock
+        if (this.nextStepTime < context.currentTime) {
+            this.nextStepTime = context.currentTime + 0.05;
+        }
+
+        while (this.nextStepTime < context.currentTime + this.SCHEDULE_AHEAD) {
+            if (this.pendingPattern && this.step % this.track.stepsPerBeat === 0) {
+                this.pattern = this.pendingPattern;
+                this.pendingPattern = null;
+            }
+
+            const stepDuration = 60 / (this.track.bpm * this.tempo) / this.track.stepsPerBeat;
+            for (const { voice, events } of this.patterns[this.pattern]) {
+                const event = events[this.step % events.length];
+                if (!event) continue;
+
+                this.audio.playTone(context, destination, {
+                    frequency: event.frequency,
+                    slideTo: voice.slide ? event.frequency * voice.slide : undefined,
+                    duration: event.steps * stepDuration * this.GATE,
+                    type: voice.type,
+                    volume: voice.volume
+                }, this.nextStepTime);
+            }
+
+            this.step++;
+            this.nextStepTime += stepDuration;
+        }
+    }
+}
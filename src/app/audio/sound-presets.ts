@@ -0,0 +1,109 @@
+// A sound is a list of tones started relative to the moment it is played.
+export interface Tone {
+    frequency: number;
+    // Exponential glide to this frequency over the tone's duration
+    slideTo?: number;
+    // Seconds
+    duration: number;
+    delay?: number;
+    type?: OscillatorType;
+    volume?: number;
+    // 'fade' ramps the volume down over the duration, 'flat' holds it and cuts off
+    envelope?: 'fade' | 'flat';
+    // Seconds to hold full volume before the fade starts
+    hold?: number;
+}
+
+export type SoundPreset = Tone[];
+
+// Every sound effect in the arcade, named <game>.<event>
+export const SOUND_PRESETS = {
+    // Arcade-wide
+    'arcade.achievement': [
+        { frequency: 523, duration: 0.1, type: 'square', volume: 0.15 },
+        { frequency: 659, duration: 0.1, type: 'square', volume: 0.15, delay: 0.1 },
+        { frequency: 784, duration: 0.1, type: 'square', volume: 0.15, delay: 0.2 },
+        { frequency: 1047, duration: 0.3, type: 'square', volume: 0.15, delay: 0.3 }
+    ],
+
+    // Snake
+    'snake.eat': [{ frequency: 800, slideTo: 400, duration: 0.1, type: 'sine' }],
+    'snake.gameOver': [{ frequency: 400, slideTo: 100, duration: 0.5, type: 'sine' }],
+
+    // Bustout
+    'bustout.paddle': [{ frequency: 220, duration: 0.1 }],
+    'bustout.brick': [{ frequency: 300, duration: 0.15, volume: 0.2 }],
+    'bustout.wall': [{ frequency: 150, duration: 0.08, volume: 0.15 }],
+    'bustout.loseLife': [{ frequency: 200, slideTo: 50, duration: 0.5, type: 'sawtooth' }],
+    'bustout.gameOver': [
+        { frequency: 300, duration: 0.15, volume: 0.2 },
+        { frequency: 250, duration: 0.15, volume: 0.2, delay: 0.15 },
+        { frequency: 200, duration: 0.15, volume: 0.2, delay: 0.3 },
+        { frequency: 150, duration: 0.15, volume: 0.2, delay: 0.45 }
+    ],
+    'bustout.levelUp': [
+        { frequency: 300, duration: 0.1, volume: 0.2 },
+        { frequency: 400, duration: 0.1, volume: 0.2, delay: 0.1 },
+        { frequency: 500, duration: 0.1, volume: 0.2, delay: 0.2 },
+        { frequency: 600, duration: 0.1, volume: 0.2, delay: 0.3 }
+    ],
+
+    // Hopper
+    'hopper.hop': [{ frequency: 200, duration: 0.1 }],
+    'hopper.goal': [
+        { frequency: 600, duration: 0.2 },
+        { frequency: 800, duration: 0.2, delay: 0.1 }
+    ],
+    'hopper.death': [
+        { frequency: 100, duration: 0.3, type: 'sawtooth' },
+        { frequency: 80, duration: 0.3, type: 'sawtooth', delay: 0.15 }
+    ],
+    'hopper.levelUp': [
+        { frequency: 400, duration: 0.15 },
+        { frequency: 500, duration: 0.15, delay: 0.1 },
+        { frequency: 600, duration: 0.15, delay: 0.2 },
+        { frequency: 800, duration: 0.3, delay: 0.3 }
+    ],
+    'hopper.bonus': [
+        { frequency: 800, duration: 0.1 },
+        { frequency: 1000, duration: 0.1, delay: 0.1 },
+        { frequency: 1200, duration: 0.1, delay: 0.2 },
+        { frequency: 1500, duration: 0.2, delay: 0.3 }
+    ],
+    'hopper.gameOver': [
+        { frequency: 300, duration: 0.2, type: 'sawtooth' },
+        { frequency: 250, duration: 0.2, type: 'sawtooth', delay: 0.2 },
+        { frequency: 200, duration: 0.2, type: 'sawtooth', delay: 0.4 },
+        { frequency: 150, duration: 0.5, type: 'sawtooth', delay: 0.6 }
+    ],
+
+    // Alien Invaders
+    'invaders.shoot': [{ frequency: 440, duration: 0.1, volume: 0.1 }],
+    'invaders.explosion': [{ frequency: 150, duration: 0.2, type: 'sawtooth', volume: 0.1 }],
+    'invaders.invaderKilled': [{ frequency: 100, duration: 0.15, volume: 0.1 }],
+    // Deep alternating bass thumps for the marching formation
+    'invaders.marchHigh': [{ frequency: 55, duration: 0.2, volume: 0.1 }],
+    'invaders.marchLow': [{ frequency: 45, duration: 0.2, volume: 0.1 }],
+    'invaders.motherShip': [{ frequency: 100, duration: 0.1, hold: 0.2, type: 'sine', volume: 0.05 }],
+
+    // Space Rocks
+    'rocks.shoot': [{ frequency: 800, slideTo: 100, duration: 0.1, type: 'sine' }],
+    'rocks.explosion': [{ frequency: 200, slideTo: 50, duration: 0.3, type: 'sawtooth', volume: 0.5 }],
+    'rocks.thrust': [{ frequency: 100, duration: 0.1, hold: 0.1, type: 'sawtooth', volume: 0.1 }],
+
+    // Shape Drop
+    'shapes.move': [{ frequency: 200, duration: 0.05, volume: 0.1, envelope: 'flat' }],
+    'shapes.rotate': [{ frequency: 300, duration: 0.05, volume: 0.1, envelope: 'flat' }],
+    'shapes.drop': [{ frequency: 150, duration: 0.1, volume: 0.1, envelope: 'flat' }],
+    'shapes.clear': [
+        { frequency: 400, duration: 0.2, type: 'sine', volume: 0.1, envelope: 'flat' },
+        { frequency: 500, duration: 0.2, type: 'sine', volume: 0.1, envelope: 'flat', delay: 0.1 }
+    ],
+    'shapes.gameOver': [
+        { frequency: 200, duration: 0.3, volume: 0.1, envelope: 'flat' },
+        { frequency: 150, duration: 0.3, volume: 0.1, envelope: 'flat', delay: 0.2 },
+        { frequency: 100, duration: 0.5, volume: 0.1, envelope: 'flat', delay: 0.4 }
+    ]
+} satisfies Record<string, SoundPreset>;
+
+export type SoundName = keyof typeof SOUND_PRESETS;
@@ -0,0 +1,79 @@
+import { ArcadeStore, Profile } from '../profiles/profile-schema';
+import { createBackup, parseBackup } from './arcade-backup';
+import { summarize } from './import-preview';
+
+describe('arcade backup', () => {
+    const DATA: Profile['data'] = {
+        audio: { muted: false, masterVolume: 0.8, musicVolume: 0.5, sfxVolume: 1 },
+        keyBindings: { snake: { 'move-up': ['KeyI'] } },
+        settings: { snake: { preset: 'custom', custom: { speed: 2 } } },
+        display: { vision: 'protanopia', highContrast: false, patterns: true },
+        highScores: { tables: { snake: [{ initials: 'ABC', score: 120 }] }, lastInitials: 'ABC' },
+        achievements: { unlocked: { 'snake-first-apple': '2026-01-01T10:00:00.000Z' }, counts: {} },
+        stats: {
+            snake: {
+                sessions: 2, playTimeMs: 60000, totalScore: 150, bestScore: 120, highestLevel: 1, counters: { apples: 12 },
+                runs: [{ date: '2026-01-01T10:00:00.000Z', score: 120, durationMs: 40000 }]
+            }
+        },
+        daily: { '2026-01-01': { snake: { score: 120, durationMs: 40000 } } },
+        saves: {
+            snake: {
+                version: 1, savedAt: '2026-01-01T11:00:00.000Z', score: 30, durationMs: 9000,
+                random: { seed: 7, streams: { gameplay: 123 } }, state: { snake: [] }
+            }
+        }
+    };
+
+    function backupWith(data: Profile['data']): string {
+        const store: ArcadeStore = {
+            version: 1,
+            activeProfile: 'p1',
+            profiles: [{ id: 'p1', name: 'PLAYER 1', created: '2026-01-01T09:00:00.000Z', data }]
+        };
+        return JSON.stringify(createBackup(store, {}));
+    }
+
+    it('reads back what it wrote', () => {
+        const { store } = parseBackup(backupWith(DATA));
+        expect(store.profiles[0].data).toEqual(DATA);
+        expect(summarize(store.profiles[0])).toEqual({ scores: 1, achievements: 1, gamesPlayed: 2, dailies: 1, savedRuns: 1 });
+    });
+
+    it('rejects files that are not backups', () => {
+        expect(() => parseBackup('not json')).toThrowError('The file is not valid JSON');
+        expect(() => parseBackup('{"format":"something else"}')).toThrowError('The file is not an arcade backup');
+    });
+
+    it('leaves out damaged sections and keeps the rest', () => {
+        const damaged: Profile['data'] = {
+            ...DATA,
+            daily: { '2026-01-01': null },
+            stats: { snake: { sessions: 'two' } },
+            achievements: { unlocked: [] },
+            saves: { snake: { version: 1, savedAt: '2026-01-01T11:00:00.000Z', score: 30, durationMs: 9000 } }
+        };
+        const [profile] = parseBackup(backupWith(damaged)).store.profiles;
+        const { daily, stats, achievements, saves, ...undamaged } = DATA;
+        expect(profile.data).toEqual(undamaged);
+        expect(summarize(profile)).toEqual({ scores: 1, achievements: 0, gamesPlayed: 0, dailies: 0, savedRuns: 0 });
+    });
+
+    it('leaves out damaged preferences', () => {
+        const damaged: Profile['data'] = {
+            ...DATA,
+            audio: { muted: false, masterVolume: 5, musicVolume: 0.5, sfxVolume: 1 },
+            keyBindings: { snake: { 'move-up': 'KeyI' } },
+            settings: { snake: { preset: 'impossible' } },
+            display: { vision: 'infrared', highContrast: false, patterns: true }
+        };
+        const [profile] = parseBackup(backupWith(damaged)).store.profiles;
+        expect(Object.keys(profile.data).sort()).toEqual(['achievements', 'daily', 'highScores', 'saves', 'stats']);
+    });
+
+    it('leaves out high score tables with damaged entries', () => {
+        const [profile] = parseBackup(backupWith({ ...DATA, highScores: { tables: { snake: [{ score: 'lots' }] } } })).store.profiles;
+        expect(profile.data.highScores).toBeUndefined();
+        expect(profile.data.daily).toEqual(DATA.daily);
+    });
+});
@@ -0,0 +1,140 @@
+import { ArcadeStore, ProfileSection, SCHEMA_VERSION, migrate } from '../profiles/profile-schema';
+import { PRESETS } from '../settings/game-settings';
+import { VISIONS } from '../display/display-style';
+
+export const BACKUP_FORMAT = 'arcade-backup';
+export const BACKUP_VERSION = 1;
+
+// Everything the arcade keeps in localStorage, in one file: the profile store, which holds each
+// player's scores, replays, settings, bindings, statistics, achievements, dailies and saved runs,
+// and the controller profiles chosen on this device
+export interface ArcadeBackup {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    // ISO timestamp
+    exported: string;
+    store: ArcadeStore;
+    gamepadProfiles: Record<string, string>;
+}
+
+export function createBackup(store: ArcadeStore, gamepadProfiles: Record<string, string>): ArcadeBackup {
+    return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exported: new Date().toISOString(), store, gamepadProfiles };
+}
+
+// Reads a backup file, brought up to the current schema. Throws with a message for the player
+// when the file isn't a backup, is damaged, or comes from a newer version of the arcade. A damaged
+// section of a player's data is left out instead, so the rest still comes across.
+export function parseBackup(text: string): ArcadeBackup {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        throw new Error('The file is not valid JSON');
+    }
+    if (!isRecord(data) || data['format'] !== BACKUP_FORMAT) throw new Error('The file is not an arcade backup');
+
+    const { version, exported, store, gamepadProfiles = {} } = data;
+    if (typeof version !== 'number' || typeof exported !== 'string') throw new Error('The backup header is damaged');
+    if (version > BACKUP_VERSION || (isRecord(store) && Number(store['version']) > SCHEMA_VERSION)) {
+        throw new Error('The backup comes from a newer version of the arcade');
+    }
+    if (!isStore(store)) throw new Error('The player data in the backup is damaged');
+    if (!isRecord(gamepadProfiles) || !Object.values(gamepadProfiles).every(id => typeof id === 'string')) {
+        throw new Error('The controller settings in the backup are damaged');
+    }
+
+    return {
+        format: BACKUP_FORMAT,
+        version,
+        exported,
+        store: withoutDamagedSections(migrate(store)),
+        gamepadProfiles: gamepadProfiles as Record<string, string>
+    };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isRecordOf(value: unknown, check: (item: unknown) => boolean): boolean {
+    return isRecord(value) && Object.values(value).every(check);
+}
+
+function hasNumbers(value: unknown, ...keys: string[]): value is Record<string, unknown> {
+    return isRecord(value) && keys.every(key => typeof value[key] === 'number');
+}
+
+function hasBooleans(value: unknown, ...keys: string[]): value is Record<string, unknown> {
+    return isRecord(value) && keys.every(key => typeof value[key] === 'boolean');
+}
+
+function isVolume(value: unknown): boolean {
+    return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+// What each section has to look like for the service that reads it. A saved run's state is
+// only checked as far as its envelope: the game checks the rest against its own as it resumes.
+const SECTION_CHECKS: Record<ProfileSection, (section: unknown) => boolean> = {
+    audio: section =>
+        hasBooleans(section, 'muted') && ['masterVolume', 'musicVolume', 'sfxVolume'].every(key => isVolume(section[key])),
+    keyBindings: section =>
+        isRecordOf(section, scope => isRecordOf(scope, keys => Array.isArray(keys) && keys.every(key => typeof key === 'string'))),
+    settings: section =>
+        isRecordOf(section, game =>
+            isRecord(game) &&
+            PRESETS.some(preset => preset === game['preset']) &&
+            (game['custom'] === undefined || isRecordOf(game['custom'], value => typeof value === 'number'))
+        ),
+    display: section => hasBooleans(section, 'highContrast', 'patterns') && VISIONS.some(({ id }) => id === section['vision']),
+    highScores: section =>
+        isRecord(section) &&
+        isRecordOf(section['tables'], table =>
+            Array.isArray(table) &&
+            table.every(entry => isRecord(entry) && typeof entry['initials'] === 'string' && typeof entry['score'] === 'number')
+        ),
+    achievements: section =>
+        isRecord(section) &&
+        isRecordOf(section['unlocked'], date => typeof date === 'string') &&
+        isRecordOf(section['counts'], count => typeof count === 'number'),
+    stats: section =>
+        isRecordOf(section, stats =>
+            hasNumbers(stats, 'sessions', 'playTimeMs', 'totalScore', 'bestScore', 'highestLevel') &&
+            isRecordOf(stats['counters'], count => typeof count === 'number') &&
+            Array.isArray(stats['runs']) &&
+            stats['runs'].every(run => hasNumbers(run, 'score', 'durationMs') && typeof run['date'] === 'string')
+        ),
+    daily: section => isRecordOf(section, day => isRecordOf(day, result => hasNumbers(result, 'score', 'durationMs'))),
+    saves: section =>
+        isRecordOf(section, run =>
+            hasNumbers(run, 'version', 'score', 'durationMs') &&
+            typeof run['savedAt'] === 'string' &&
+            hasNumbers(run['random'], 'seed') &&
+            isRecordOf(run['random']['streams'], state => typeof state === 'number') &&
+            isRecord(run['state'])
+        )
+};
+
+function withoutDamagedSections(store: ArcadeStore): ArcadeStore {
+    return {
+        ...store,
+        profiles: store.profiles.map(profile => {
+            const data = { ...profile.data };
+            for (const [section, check] of Object.entries(SECTION_CHECKS) as [ProfileSection, (section: unknown) => boolean][]) {
+                if (data[section] !== undefined && !check(data[section])) delete data[section];
+            }
+            return { ...profile, data };
+        })
+    };
+}
+
+function isStore(value: unknown): value is ArcadeStore {
+    if (!isRecord(value) || typeof value['version'] !== 'number' || typeof value['activeProfile'] !== 'string') return false;
+    const profiles = value['profiles'];
+    return Array.isArray(profiles) && profiles.length > 0 && profiles.every(profile =>
+        isRecord(profile) &&
+        typeof profile['id'] === 'string' &&
+        typeof profile['name'] === 'string' &&
+        typeof profile['created'] === 'string' &&
+        isRecord(profile['data'])
+    );
+}
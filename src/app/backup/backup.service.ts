@@ -0,0 +1,55 @@
+import { Injectable, inject } from '@angular/core';
+import { ProfileService } from '../profiles/profile.service';
+import { ArcadeStore } from '../profiles/profile-schema';
+import { GamepadService } from '../input/gamepad.service';
+import { HighScoreService } from '../scores/high-score.service';
+import { ArcadeBackup, createBackup } from './arcade-backup';
+import { mergeStores } from './merge-stores';
+import { PreviewRow, previewImport } from './import-preview';
+
+// Merge adds the backup to what's here; replace swaps everything for it
+export type ImportMode = 'merge' | 'replace';
+
+// Some browsers only start reading the file some time after the click returns, slower still
+// when they ask where to save it first
+const REVOKE_AFTER_MS = 10000;
+
+// Moves all arcade data between machines as one JSON file
+@Injectable({ providedIn: 'root' })
+export class BackupService {
+    private profiles = inject(ProfileService);
+    private gamepads = inject(GamepadService);
+
+    constructor() {
+        // Constructed for its migration, so a Snake best still under snakeHighScore makes it into the store
+        inject(HighScoreService);
+    }
+
+    download(): void {
+        const backup = createBackup(this.profiles.stored(), this.gamepads.chosenProfiles());
+        const url = URL.createObjectURL(new Blob([JSON.stringify(backup)], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `arcade-backup-${backup.exported.slice(0, 10)}.json`;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), REVOKE_AFTER_MS);
+    }
+
+    preview(backup: ArcadeBackup, mode: ImportMode): PreviewRow[] {
+        return previewImport(this.profiles.stored(), this.result(backup, mode).store);
+    }
+
+    apply(backup: ArcadeBackup, mode: ImportMode): void {
+        const { store, gamepadProfiles } = this.result(backup, mode);
+        this.profiles.replace(store);
+        this.gamepads.chosenProfiles.set(gamepadProfiles);
+    }
+
+    private result(backup: ArcadeBackup, mode: ImportMode): { store: ArcadeStore; gamepadProfiles: Record<string, string> } {
+        if (mode === 'replace') return { store: backup.store, gamepadProfiles: backup.gamepadProfiles };
+        return {
+            store: mergeStores(this.profiles.stored(), backup.store),
+            gamepadProfiles: { ...backup.gamepadProfiles, ...this.gamepads.chosenProfiles() }
+        };
+    }
+}
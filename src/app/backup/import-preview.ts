@@ -0,0 +1,47 @@
+import { ArcadeStore, Profile } from '../profiles/profile-schema';
+import { StoredHighScores } from '../scores/high-score.service';
+import { AchievementProgress } from '../achievements/achievement.service';
+import { GameStats } from '../stats/stats.service';
+import { DailyHistory } from '../daily/daily.service';
+
+// What a player has, in numbers
+export interface ProfileSummary {
+    scores: number;
+    achievements: number;
+    gamesPlayed: number;
+    dailies: number;
+    savedRuns: number;
+}
+
+// One player before and after an import; null where they don't exist
+export interface PreviewRow {
+    name: string;
+    before: ProfileSummary | null;
+    after: ProfileSummary | null;
+}
+
+export function previewImport(current: ArcadeStore, result: ArcadeStore): PreviewRow[] {
+    const rows: PreviewRow[] = result.profiles.map(profile => {
+        const existing = current.profiles.find(({ id }) => id === profile.id);
+        return { name: profile.name, before: existing ? summarize(existing) : null, after: summarize(profile) };
+    });
+    for (const profile of current.profiles) {
+        if (!result.profiles.some(({ id }) => id === profile.id)) {
+            rows.push({ name: profile.name, before: summarize(profile), after: null });
+        }
+    }
+    return rows;
+}
+
+export function summarize({ data }: Profile): ProfileSummary {
+    const tables = (data.highScores as StoredHighScores | undefined)?.tables ?? {};
+    const stats = Object.values((data.stats as Record<string, GameStats> | undefined) ?? {});
+    const daily = Object.values((data.daily as DailyHistory | undefined) ?? {});
+    return {
+        scores: Object.values(tables).reduce((total, table) => total + table.length, 0),
+        achievements: Object.keys((data.achievements as AchievementProgress | undefined)?.unlocked ?? {}).length,
+        gamesPlayed: stats.reduce((total, game) => total + game.sessions, 0),
+        dailies: daily.reduce((total, day) => total + Object.keys(day).length, 0),
+        savedRuns: Object.keys(data.saves ?? {}).length
+    };
+}
@@ -0,0 +1,78 @@
+import { ArcadeStore, Profile } from '../profiles/profile-schema';
+import { HighScoreEntry, StoredHighScores, trimTable } from '../scores/high-score.service';
+import { AchievementProgress } from '../achievements/achievement.service';
+import { GameStats } from '../stats/stats.service';
+import { DailyHistory } from '../daily/daily.service';
+import { SavedRun } from '../saves/saved-run';
+
+type ProfileData = Profile['data'];
+
+// Adds an imported store to the current one. Players with the same name are merged and the
+// rest added; for a merged player the best scores win, achievements and dailies are combined,
+// each game keeps the statistics with the most games played and the latest saved run, and the
+// current settings and bindings stay.
+export function mergeStores(current: ArcadeStore, incoming: ArcadeStore): ArcadeStore {
+    const profiles = [...current.profiles];
+    for (const profile of incoming.profiles) {
+        const index = profiles.findIndex(existing => existing.id === profile.id || existing.name === profile.name);
+        if (index === -1) {
+            profiles.push(profile);
+        } else {
+            profiles[index] = { ...profiles[index], data: mergeData(profiles[index].data, profile.data) };
+        }
+    }
+    return { ...current, profiles };
+}
+
+function mergeData(current: ProfileData, incoming: ProfileData): ProfileData {
+    return {
+        ...incoming,
+        ...current,
+        highScores: mergeHighScores(current.highScores as StoredHighScores, incoming.highScores as StoredHighScores),
+        achievements: mergeAchievements(current.achievements as AchievementProgress, incoming.achievements as AchievementProgress),
+        stats: mergeRecords(current.stats as Record<string, GameStats>, incoming.stats as Record<string, GameStats>,
+            (mine, theirs) => (theirs.sessions > mine.sessions ? theirs : mine)),
+        daily: mergeRecords(current.daily as DailyHistory, incoming.daily as DailyHistory,
+            (mine, theirs) => ({ ...theirs, ...mine })),
+        saves: mergeRecords(current.saves as Record<string, SavedRun>, incoming.saves as Record<string, SavedRun>,
+            (mine, theirs) => (theirs.savedAt > mine.savedAt ? theirs : mine))
+    };
+}
+
+function mergeHighScores(current?: StoredHighScores, incoming?: StoredHighScores): StoredHighScores | undefined {
+    if (!current || !incoming) return current ?? incoming;
+    const tables = mergeRecords(current.tables, incoming.tables, (mine, theirs) => {
+        // The same run may be in both, e.g. when a backup goes back to where it came from
+        const known = new Set(mine.map(entryKey));
+        const combined = [...mine, ...theirs.filter(entry => !known.has(entryKey(entry)))];
+        return trimTable(combined.sort((a, b) => b.score - a.score));
+    });
+    return { ...current, tables: tables ?? {} };
+}
+
+function entryKey(entry: HighScoreEntry): string {
+    return `${entry.initials}|${entry.score}|${entry.date ?? ''}`;
+}
+
+function mergeAchievements(current?: AchievementProgress, incoming?: AchievementProgress): AchievementProgress | undefined {
+    if (!current || !incoming) return current ?? incoming;
+    return {
+        // The earliest unlock, and the furthest progress
+        unlocked: mergeRecords(current.unlocked, incoming.unlocked, (mine, theirs) => (theirs < mine ? theirs : mine)) ?? {},
+        counts: mergeRecords(current.counts, incoming.counts, Math.max) ?? {}
+    };
+}
+
+// Keys from both sides, with pick deciding the ones they share
+function mergeRecords<T>(
+    current: Record<string, T> | undefined,
+    incoming: Record<string, T> | undefined,
+    pick: (mine: T, theirs: T) => T
+): Record<string, T> | undefined {
+    if (!current || !incoming) return current ?? incoming;
+    const merged = { ...incoming, ...current };
+    for (const key of Object.keys(current)) {
+        if (key in incoming) merged[key] = pick(current[key], incoming[key]);
+    }
+    return merged;
+}
@@ -0,0 +1,54 @@
+import { InputAction } from '../input/input-actions';
+import { BotGame, Observation } from './bot';
+import { SNAKE_ACTIONS, SnakeAction, SnakeEngine, SnakeObservation } from '../snake-game/snake-engine';
+import { SHAPE_DROP_ACTIONS, ShapeDropAction, ShapeDropEngine, ShapeDropObservation } from '../shape-drop/shape-drop-engine';
+import { BUSTOUT_ACTIONS, BustoutAction, BustoutEngine, BustoutObservation } from '../bustout-game/bustout-engine';
+import { HOPPER_ACTIONS, HopperAction, HopperEngine, HopperObservation } from '../hopper/hopper-engine';
+import { ROCKS_ACTIONS, RocksAction, RocksEngine, RocksObservation } from '../space-rocks-game/rocks-engine';
+import { INVADERS_ACTIONS, InvadersAction, InvadersEngine, InvadersObservation } from '../alien-invaders/invaders-engine';
+
+// Headless runs start from level 1, on an 800 × 600 field where the size is up to the window
+
+export const SNAKE_BOT_GAME: BotGame<SnakeObservation, SnakeAction> = {
+    id: 'snake',
+    actions: SNAKE_ACTIONS,
+    // 20-pixel cells, as on screen
+    create: ({ gameplay }, emit) => new SnakeEngine(40, 30, gameplay, emit)
+};
+
+export const SHAPE_DROP_BOT_GAME: BotGame<ShapeDropObservation, ShapeDropAction> = {
+    id: 'shape-drop',
+    actions: SHAPE_DROP_ACTIONS,
+    create: ({ gameplay }, emit) => new ShapeDropEngine(1, gameplay, emit)
+};
+
+export const BUSTOUT_BOT_GAME: BotGame<BustoutObservation, BustoutAction> = {
+    id: 'bustout',
+    actions: BUSTOUT_ACTIONS,
+    create: ({ gameplay }, emit) => new BustoutEngine(800, 600, 1, 1, gameplay, emit)
+};
+
+export const HOPPER_BOT_GAME: BotGame<HopperObservation, HopperAction> = {
+    id: 'hopper',
+    actions: HOPPER_ACTIONS,
+    create: ({ gameplay }, emit) => new HopperEngine(1, gameplay, emit)
+};
+
+export const ROCKS_BOT_GAME: BotGame<RocksObservation, RocksAction> = {
+    id: 'space-rocks',
+    actions: ROCKS_ACTIONS,
+    create: ({ gameplay, cosmetic }, emit) => new RocksEngine(800, 600, 1, gameplay, cosmetic, emit)
+};
+
+export const INVADERS_BOT_GAME: BotGame<InvadersObservation, InvadersAction> = {
+    id: 'alien-invaders',
+    actions: INVADERS_ACTIONS,
+    // A 16:9 window scaled as on screen: at 800 × 600 the formation has no room to march
+    create: ({ gameplay }, emit) => new InvadersEngine(1280, 720, 1.2, 1, gameplay, emit)
+};
+
+// Every game a bot can play, by game id
+export const BOT_GAMES: Record<string, BotGame<Observation, InputAction>> = Object.fromEntries(
+    [SNAKE_BOT_GAME, SHAPE_DROP_BOT_GAME, BUSTOUT_BOT_GAME, HOPPER_BOT_GAME, ROCKS_BOT_GAME, INVADERS_BOT_GAME]
+        .map(game => [game.id, game as BotGame<Observation, InputAction>])
+);
@@ -0,0 +1,81 @@
+import { RandomStream } from '../random/random-stream';
+import { SnakeAction, SnakeObservation } from '../snake-game/snake-engine';
+import { Bot } from './bot';
+import { BOT_GAMES, SHAPE_DROP_BOT_GAME, SNAKE_BOT_GAME } from './bot-games';
+import { runBot, summarize } from './bot-harness';
+import { RandomBot } from './random-bot';
+
+describe('runBot', () => {
+    // Holds start throughout and never turns, so it runs into the right-hand wall
+    const straightOn: Bot<SnakeObservation, SnakeAction> = {
+        name: 'straight-on',
+        move: () => ({ hold: ['start'] })
+    };
+
+    it('plays each episode to the end with consecutive seeds', () => {
+        const report = runBot(SNAKE_BOT_GAME, straightOn, { episodes: 3, seed: 10 });
+        expect(report.game).toBe('snake');
+        expect(report.bot).toBe('straight-on');
+        expect(report.episodes.map(episode => episode.seed)).toEqual([10, 11, 12]);
+        expect(report.episodes.every(episode => episode.over)).toBe(true);
+    });
+
+    it('counts a held control as one press, so holding start never pauses the run', () => {
+        const [episode] = runBot(SNAKE_BOT_GAME, straightOn, { episodes: 1 }).episodes;
+        // 20 moves from the middle of a 40-cell grid into the wall, at 150 ms a move: about
+        // 180 steps, where pausing every other step would take twice as many
+        expect(Math.abs(episode.steps - 180)).toBeLessThanOrEqual(1);
+    });
+
+    it('cuts episodes short after maxSteps', () => {
+        const report = runBot(SHAPE_DROP_BOT_GAME, { name: 'idle', move: () => ({}) }, { episodes: 2, maxSteps: 100 });
+        expect(report.episodes.map(({ steps, over }) => ({ steps, over }))).toEqual([
+            { steps: 100, over: false },
+            { steps: 100, over: false }
+        ]);
+    });
+
+    it('plays the same runs again from the same seed', () => {
+        const play = () => runBot(BOT_GAMES['space-rocks'], new RandomBot(BOT_GAMES['space-rocks'].actions, 7), { episodes: 2, maxSteps: 3000 });
+        expect(play()).toEqual(play());
+    });
+
+    it.each(Object.keys(BOT_GAMES))('lets a random bot play %s', id => {
+        const game = BOT_GAMES[id];
+        const report = runBot(game, new RandomBot(game.actions), { episodes: 1, maxSteps: 2000 });
+        expect(report.episodes[0].steps).toBeGreaterThan(0);
+        expect(report.scores.min).toBeGreaterThanOrEqual(0);
+    });
+});
+
+describe('summarize', () => {
+    it('reports the spread of scores', () => {
+        const scores = summarize([40, 10, 30, 20, 50, 60, 70, 80, 90, 100]);
+        expect(scores).toEqual({
+            min: 10,
+            max: 100,
+            mean: 55,
+            median: 50,
+            stdDev: Math.sqrt(825),
+            p10: 10,
+            p25: 30,
+            p75: 80,
+            p90: 90
+        });
+    });
+
+    it('reports zeros when nothing was played', () => {
+        expect(summarize([]).max).toBe(0);
+    });
+});
+
+describe('observe', () => {
+    it('hands out copies, so a bot cannot change the game', () => {
+        const engine = SHAPE_DROP_BOT_GAME.create({ gameplay: new RandomStream(1), cosmetic: new RandomStream(2) }, () => {});
+        const observation = engine.observe();
+        observation.board[19][0] = 1;
+        observation.position.y = 10;
+        expect(engine.observe().board[19][0]).toBe(0);
+        expect(engine.observe().position.y).toBe(0);
+    });
+});
@@ -0,0 +1,136 @@
+import { InputAction } from '../input/input-actions';
+import { RandomStream } from '../random/random-stream';
+import { streamSeed } from '../random/random.service';
+import { FRAME_MS } from '../game-loop/frame-time';
+import { StepInput } from '../games/game-engine';
+import { Bot, BotGame, BotMove, Observation } from './bot';
+
+export interface HarnessOptions {
+    episodes: number;
+    // Episode n plays with seed + n: the same run ?seed= gives on screen (default 1)
+    seed?: number;
+    // Episodes still going after this many steps are cut short (default ten minutes of play)
+    maxSteps?: number;
+}
+
+export interface EpisodeResult {
+    seed: number;
+    score: number;
+    steps: number;
+    // False when the episode was cut short
+    over: boolean;
+}
+
+export interface ScoreDistribution {
+    min: number;
+    max: number;
+    mean: number;
+    median: number;
+    stdDev: number;
+    // Scores at the 10th, 25th, 75th and 90th percentiles
+    p10: number;
+    p25: number;
+    p75: number;
+    p90: number;
+}
+
+export interface BotReport {
+    game: string;
+    bot: string;
+    episodes: EpisodeResult[];
+    scores: ScoreDistribution;
+}
+
+const TEN_MINUTES = (10 * 60 * 1000) / FRAME_MS;
+
+// Plays a bot through a game again and again, as fast as the engine runs: no loop, canvas or
+// sound, just presses and steps
+export function runBot<O extends Observation, A extends InputAction>(
+    game: BotGame<O, A>,
+    bot: Bot<O, A>,
+    { episodes, seed = 1, maxSteps = TEN_MINUTES }: HarnessOptions
+): BotReport {
+    const results: EpisodeResult[] = [];
+    for (let episode = 0; episode < episodes; episode++) {
+        results.push(playEpisode(game, bot, (seed + episode) >>> 0, maxSteps));
+    }
+    return { game: game.id, bot: bot.name, episodes: results, scores: summarize(results.map(result => result.score)) };
+}
+
+export function summarize(scores: number[]): ScoreDistribution {
+    if (scores.length === 0) return { min: 0, max: 0, mean: 0, median: 0, stdDev: 0, p10: 0, p25: 0, p75: 0, p90: 0 };
+
+    const sorted = [...scores].sort((a, b) => a - b);
+    const mean = sorted.reduce((sum, score) => sum + score, 0) / sorted.length;
+    const variance = sorted.reduce((sum, score) => sum + (score - mean) ** 2, 0) / sorted.length;
+    // Nearest rank
+    const percentile = (p: number) => sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+    return {
+        min: sorted[0],
+        max: sorted[sorted.length - 1],
+        mean,
+        median: percentile(50),
+        stdDev: Math.sqrt(variance),
+        p10: percentile(10),
+        p25: percentile(25),
+        p75: percentile(75),
+        p90: percentile(90)
+    };
+}
+
+function playEpisode<O extends Observation, A extends InputAction>(game: BotGame<O, A>, bot: Bot<O, A>, seed: number, maxSteps: number): EpisodeResult {
+    const streams = {
+        gameplay: new RandomStream(streamSeed(seed, 'gameplay')),
+        cosmetic: new RandomStream(streamSeed(seed, 'cosmetic'))
+    };
+    const engine = game.create(streams, () => {});
+    const input = new BotInput();
+    bot.reset?.();
+
+    let observation = engine.observe();
+    let steps = 0;
+    while (!observation.over && steps < maxSteps) {
+        for (const action of input.apply(bot.move(observation))) {
+            engine.press({ action, repeat: false, player: 0 });
+        }
+        engine.step(input, FRAME_MS);
+        steps++;
+        observation = engine.observe();
+    }
+    return { seed, score: observation.score, steps, over: observation.over };
+}
+
+// The controls a bot holds during a step, behaving as GameInputService does for the player
+class BotInput implements StepInput {
+    private held = new Set<InputAction>();
+    private pointerX: number | null = null;
+
+    // Takes on a move, returning the presses it makes
+    apply(move: BotMove): InputAction[] {
+        const hold = new Set(move.hold);
+        const presses = [...(move.press ?? []), ...[...hold].filter(action => !this.held.has(action))];
+        this.held = hold;
+        this.pointerX = move.pointer === undefined ? null : Math.round(move.pointer);
+        return presses;
+    }
+
+    value(action: InputAction): number {
+        return this.held.has(action) ? 1 : 0;
+    }
+
+    isHeld(action: InputAction): boolean {
+        return this.held.has(action);
+    }
+
+    axis(negative: InputAction, positive: InputAction): number {
+        return this.value(positive) - this.value(negative);
+    }
+
+    players(): number {
+        return 1;
+    }
+
+    pointer(): number | null {
+        return this.pointerX;
+    }
+}
@@ -0,0 +1,21 @@
+import { GAMES } from '../games/game-registry';
+import { BOT_GAMES } from './bot-games';
+import { runBot } from './bot-harness';
+import { demoBot } from './bot-registry';
+import { RandomBot } from './random-bot';
+
+describe('demoBot', () => {
+    // Two minutes of simulation a game, enough to tell the bots apart within the test timeout even
+    // for Alien Invaders, the slowest to simulate
+    it.each(GAMES.map(({ id }) => id))('plays %s better than mashing the controls', async id => {
+        const entry = demoBot(id);
+        expect(entry).toBeDefined();
+
+        // A minute of play each, on the same seed
+        const game = BOT_GAMES[id];
+        const options = { episodes: 1, maxSteps: 3600 };
+        const demo = runBot(game, await entry!.load(), options);
+        const random = runBot(game, new RandomBot(game.actions), options);
+        expect(demo.scores.mean).toBeGreaterThan(random.scores.mean);
+    });
+});
@@ -0,0 +1,67 @@
+import { GAMES } from '../games/game-registry';
+import { Bot } from './bot';
+import { RandomBot } from './random-bot';
+
+export interface BotEntry {
+    // Game id, e.g. 'snake'
+    game: string;
+    name: string;
+    // The game's own AI, which plays it in attract mode
+    demo?: boolean;
+    // Bots load on demand, along with the rules they need
+    load: () => Promise<Bot>;
+}
+
+// Bots that can take over a game on screen, chosen with ?bot=name
+export const BOTS: BotEntry[] = [
+    {
+        game: 'snake',
+        name: 'pathfinder',
+        demo: true,
+        load: () => import('../snake-game/snake-bot').then(m => new m.SnakePathfinder())
+    },
+    {
+        game: 'shape-drop',
+        name: 'placer',
+        demo: true,
+        // A move every few steps, slow enough to follow
+        load: () => import('../shape-drop/shape-drop-bot').then(m => new m.ShapeDropPlacer(6))
+    },
+    {
+        game: 'bustout',
+        name: 'tracker',
+        demo: true,
+        load: () => import('../bustout-game/bustout-bot').then(m => new m.PaddleTracker())
+    },
+    {
+        game: 'hopper',
+        name: 'crosser',
+        demo: true,
+        load: () => import('../hopper/hopper-bot').then(m => new m.HopperCrosser())
+    },
+    {
+        game: 'space-rocks',
+        name: 'gunner',
+        demo: true,
+        load: () => import('../space-rocks-game/rocks-bot').then(m => new m.RocksGunner())
+    },
+    {
+        game: 'alien-invaders',
+        name: 'sharpshooter',
+        demo: true,
+        load: () => import('../alien-invaders/invaders-bot').then(m => new m.InvadersSharpshooter())
+    },
+    ...GAMES.map(({ id }) => ({
+        game: id,
+        name: 'random',
+        load: () => import('./bot-games').then(({ BOT_GAMES }) => new RandomBot(BOT_GAMES[id].actions))
+    }))
+];
+
+export function findBot(game: string, name: string): BotEntry | undefined {
+    return BOTS.find(entry => entry.game === game && entry.name === name);
+}
+
+export function demoBot(game: string): BotEntry | undefined {
+    return BOTS.find(entry => entry.game === game && entry.demo);
+}
@@ -0,0 +1,55 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { InputAction } from '../input/input-actions';
+import { GameInputService } from '../input/game-input.service';
+import { Bot, ObservableEngine, Observation } from './bot';
+
+// Lets a bot play the game on screen. It works the same virtual controls as the touch
+// buttons, so its runs are recorded and replayed like anyone's. Provided by the game shell:
+// the game attaches its engine, and its loop asks the bot for a move before every step.
+@Injectable()
+export class BotService {
+    private input = inject(GameInputService);
+
+    private engine: ObservableEngine<Observation> | null = null;
+    private bot: Bot | null = null;
+    private held = new Set<InputAction>();
+
+    // Name of the bot at the controls, or null while the player has them
+    readonly driver = signal<string | null>(null);
+
+    // Returns a function that detaches it again
+    attach(engine: ObservableEngine<Observation>): () => void {
+        this.engine = engine;
+        return () => {
+            if (this.engine === engine) this.engine = null;
+        };
+    }
+
+    drive(bot: Bot): void {
+        this.stop();
+        bot.reset?.();
+        this.bot = bot;
+        this.driver.set(bot.name);
+    }
+
+    stop(): void {
+        this.held.forEach(action => this.input.setVirtual(action, 0));
+        this.held.clear();
+        this.bot = null;
+        this.driver.set(null);
+    }
+
+    // Before the step's input is sampled, so the move is part of the step it was made for
+    beforeStep(): void {
+        if (!this.bot || !this.engine) return;
+        const move = this.bot.move(this.engine.observe());
+        move.press?.forEach(action => this.input.tap(action));
+        const hold = new Set(move.hold);
+        this.held.forEach(action => {
+            if (!hold.has(action)) this.input.setVirtual(action, 0);
+        });
+        hold.forEach(action => this.input.setVirtual(action, 1));
+        this.held = hold;
+        if (move.pointer !== undefined) this.input.setPointer(move.pointer);
+    }
+}
@@ -0,0 +1,40 @@
+import { InputAction } from '../input/input-actions';
+import { RandomStream } from '../random/random-stream';
+import { EngineEmitter, GameEngine } from '../games/game-engine';
+
+// What a game shows a bot each step. Every game's observation has at least the run's score
+// and whether it's over.
+export interface Observation {
+    score: number;
+    over: boolean;
+}
+
+// What a bot does before a step: presses happen straight away, held controls last for the
+// step. A control that wasn't held on the step before also counts as a press, as it does on
+// the touch controls. pointer places the pointer, for games played with the mouse.
+export interface BotMove<A extends InputAction = InputAction> {
+    press?: A[];
+    hold?: A[];
+    pointer?: number;
+}
+
+export interface Bot<O extends Observation = Observation, A extends InputAction = InputAction> {
+    readonly name: string;
+    // A new run is about to start
+    reset?(): void;
+    move(observation: O): BotMove<A>;
+}
+
+// An engine that describes its state as plain data
+export interface ObservableEngine<O extends Observation> extends GameEngine<unknown> {
+    observe(): O;
+}
+
+// Everything the harness needs to play a game without its component
+export interface BotGame<O extends Observation, A extends InputAction> {
+    id: string;
+    // The controls a bot plays with; arcade actions, pausing and cheats aren't among them
+    actions: readonly A[];
+    // A fresh engine with a run under way, on a field of a fixed size
+    create(streams: { gameplay: RandomStream; cosmetic: RandomStream }, emit: EngineEmitter): ObservableEngine<O>;
+}
@@ -0,0 +1,33 @@
+import { InputAction } from '../input/input-actions';
+import { RandomStream } from '../random/random-stream';
+import { Bot, BotMove, Observation } from './bot';
+
+// Holds one of the game's controls at a time, picked at random and kept for a moment: the
+// baseline any real bot should beat. It draws from a stream of its own, so it never changes
+// what the game draws.
+export class RandomBot<A extends InputAction> implements Bot<Observation, A> {
+    readonly name = 'random';
+
+    private rng: RandomStream;
+    private action: A | null = null;
+    private stepsLeft = 0;
+
+    constructor(private actions: readonly A[], private seed = 1) {
+        this.rng = new RandomStream(seed);
+    }
+
+    reset(): void {
+        this.rng.reseed(this.seed);
+        this.action = null;
+        this.stepsLeft = 0;
+    }
+
+    move(): BotMove<A> {
+        if (this.stepsLeft <= 0) {
+            this.action = this.rng.pick(this.actions);
+            this.stepsLeft = 5 + this.rng.int(20);
+        }
+        this.stepsLeft--;
+        return { hold: this.action ? [this.action] : [] };
+    }
+}
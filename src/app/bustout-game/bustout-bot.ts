@@ -0,0 +1,46 @@
+import { Bot, BotMove } from '../bots/bot';
+import { BustoutAction, BustoutObservation } from './bustout-engine';
+
+// Works out where the next ball to come down will cross the paddle, bouncing it off the side
+// walls on the way, and steers the paddle there. It takes the ball off centre by just enough
+// to send it back at the lowest brick left.
+export class PaddleTracker implements Bot<BustoutObservation, BustoutAction> {
+    readonly name = 'tracker';
+
+    move({ started, width, paddles, balls, bricks }: BustoutObservation): BotMove<BustoutAction> {
+        if (!started) return { press: ['start'] };
+        const paddle = paddles[0];
+        if (!paddle || balls.length === 0) return {};
+
+        // The falling ball that arrives first, or failing that the lowest one
+        const falling = balls.filter(ball => ball.dy > 0);
+        const ball = falling.length > 0
+            ? falling.reduce((a, b) => ((paddle.y - a.y) / a.dy < (paddle.y - b.y) / b.dy ? a : b))
+            : balls.reduce((a, b) => (a.y > b.y ? a : b));
+        let target = ball.dy > 0 ? landing(ball, paddle.y, width) : ball.x;
+
+        const brick = bricks.reduce<(typeof bricks)[number] | null>((low, next) =>
+            !low || next.y > low.y || (next.y === low.y && Math.abs(next.x - target) < Math.abs(low.x - target)) ? next : low, null);
+        if (brick) {
+            // The paddle sends the ball off at (hit - 0.5) * 2 across for every one up, where hit
+            // is how far along the paddle it lands
+            const across = (brick.x + brick.width / 2 - target) / (paddle.y - brick.y - brick.height);
+            const hit = 0.5 + Math.max(-0.4, Math.min(0.4, across / 2));
+            target -= (hit - 0.5) * paddle.width;
+        }
+
+        const centre = paddle.x + paddle.width / 2;
+        if (target < centre - 6) return { hold: ['move-left'] };
+        if (target > centre + 6) return { hold: ['move-right'] };
+        return {};
+    }
+}
+
+// Where a ball crosses a line, folded back into the field for each wall it bounces off
+function landing(ball: { x: number; y: number; dx: number; dy: number; radius: number }, y: number, width: number): number {
+    const left = ball.radius;
+    const span = width - 2 * ball.radius;
+    const x = ball.x + (ball.dx * (y - ball.y - ball.radius)) / ball.dy - left;
+    const folded = ((x % (2 * span)) + 2 * span) % (2 * span);
+    return left + (folded > span ? 2 * span - folded : folded);
+}
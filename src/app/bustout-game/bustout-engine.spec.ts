@@ -0,0 +1,105 @@
+import { RandomStream } from '../random/random-stream';
+import { FRAME_MS } from '../game-loop/frame-time';
+import { EventLog, HeldInput, tap } from '../games/engine-test-doubles';
+import { Ball, Brick, BustoutEngine } from './bustout-engine';
+
+describe('BustoutEngine', () => {
+    const WIDTH = 800;
+    const HEIGHT = 600;
+    let input: HeldInput;
+    let events: EventLog;
+    let engine: BustoutEngine;
+
+    function ball(x: number, y: number, dx: number, dy: number): Ball {
+        return { x, y, prevX: x, prevY: y, dx, dy, radius: 6 };
+    }
+
+    function play(balls: Ball[]): void {
+        engine.restore({ ...engine.snapshot(), balls });
+        engine.step(input, FRAME_MS);
+    }
+
+    // Bricks are laid out a row at a time from the top
+    function brickRows(): Brick[][] {
+        const tops = [...new Set(engine.bricks.map(brick => brick.y))];
+        return tops.map(top => engine.bricks.filter(brick => brick.y === top));
+    }
+
+    beforeEach(() => {
+        input = new HeldInput();
+        events = new EventLog();
+        engine = new BustoutEngine(WIDTH, HEIGHT, 1, 1, new RandomStream(1), events.emit);
+        engine.press(tap('start'));
+    });
+
+    it('starts a run with one ball in play', () => {
+        expect(engine.gameStarted).toBe(true);
+        expect(engine.balls.length).toBe(1);
+        expect(events.of('run-start').length).toBe(1);
+    });
+
+    it.each([0, 3, 7])('awards (brickRowCount - row) × 10 for a brick in row %i', row => {
+        const rows = brickRows();
+        const brick = rows[row][5];
+        play([ball(brick.x + brick.width / 2, brick.y + brick.height / 2, 0, -1)]);
+
+        expect(brick.active).toBe(false);
+        expect(engine.score).toBe((rows.length - row) * 10);
+        expect(events.of('game').map(e => e.event)).toContainEqual({ type: 'brick-broken', points: brick.points });
+    });
+
+    it('bounces a ball off the brick it breaks', () => {
+        const brick = brickRows()[7][0];
+        play([ball(brick.x + brick.width / 2, brick.y + brick.height / 2, 0, -2)]);
+
+        expect(engine.balls[0].dy).toBe(2);
+    });
+
+    it('loses a life when the last ball drops out, and serves another', () => {
+        play([ball(WIDTH / 2, HEIGHT - 2, 0, 4)]);
+
+        expect(engine.lives).toBe(4);
+        expect(engine.balls.length).toBe(1);
+        expect(events.sounds()).toContain('bustout.loseLife');
+    });
+
+    it('ends the run when the last life is lost', () => {
+        engine.restore({ ...engine.snapshot(), lives: 1 });
+        play([ball(WIDTH / 2, HEIGHT - 2, 0, 4)]);
+
+        expect(engine.gameOver).toBe(true);
+        expect(events.of('run-end')).toEqual([{ type: 'run-end', score: 0, level: 1 }]);
+    });
+
+    it('starts with the lives and ball speed it is set up with', () => {
+        engine = new BustoutEngine(WIDTH, HEIGHT, 1, 1, new RandomStream(1), events.emit, { lives: 3, ballSpeed: 6 });
+        engine.press(tap('start'));
+
+        expect(engine.lives).toBe(3);
+        expect(Math.abs(engine.balls[0].dy)).toBe(6);
+    });
+
+    it('sends a ball back up off the paddle', () => {
+        const paddle = engine.paddles[0];
+        const top = HEIGHT - engine.paddleHeight - paddle.lift;
+        play([ball(paddle.x + engine.paddleWidth / 2, top - 4, 0, 4)]);
+
+        expect(engine.balls[0].dy).toBeLessThan(0);
+        expect(events.sounds()).toContain('bustout.paddle');
+    });
+
+    it('puts the paddle under the pointer', () => {
+        input.pointerX = 200;
+        engine.step(input, FRAME_MS);
+
+        expect(engine.paddles[0].x).toBe(200 - engine.paddleWidth / 2);
+    });
+
+    it('gives a second player a paddle of their own', () => {
+        input.playerCount = 2;
+        engine.step(input, FRAME_MS);
+
+        expect(engine.paddles.length).toBe(2);
+        expect(engine.paddles[1].lift).toBeGreaterThan(engine.paddles[0].lift);
+    });
+});
@@ -0,0 +1,395 @@
+import { ActionPress } from '../input/input-actions';
+import { RandomStream } from '../random/random-stream';
+import { FRAME_MS } from '../game-loop/frame-time';
+import { Describable, EngineEmitter, GameEngine, StepInput } from '../games/game-engine';
+import { across, plural } from '../games/game-description';
+import { Observation } from '../bots/bot';
+import { presetValues } from '../settings/game-settings';
+import { BUSTOUT_SETTINGS, BustoutSettings } from './bustout-settings';
+
+export interface Brick {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    active: boolean;
+    // Counted from the top; the renderer colors bricks by row
+    row: number;
+    points: number;
+}
+
+export interface Ball {
+    x: number;
+    y: number;
+    prevX: number;
+    prevY: number;
+    dx: number;
+    dy: number;
+    radius: number;
+}
+
+export interface Paddle {
+    x: number;
+    prevX: number;
+    // Distance from the bottom of the screen; a second player's paddle sits above the first
+    lift: number;
+}
+
+// Everything a run in progress needs to carry on later
+export interface BustoutSnapshot {
+    paddles: Paddle[];
+    balls: Ball[];
+    ballSpeed: number;
+    bricks: Brick[];
+    score: number;
+    lives: number;
+    level: number;
+}
+
+// A bot launches the ball to start the run, then steers the first paddle or places it with
+// the pointer
+export const BUSTOUT_ACTIONS = ['start', 'move-left', 'move-right'] as const;
+export type BustoutAction = typeof BUSTOUT_ACTIONS[number];
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// The field as a bot sees it, in pixels from the top left. Only bricks still standing are listed.
+export interface BustoutObservation extends Observation {
+    width: number;
+    height: number;
+    paddles: Rect[];
+    balls: { x: number; y: number; dx: number; dy: number; radius: number }[];
+    bricks: (Rect & { points: number })[];
+    started: boolean;
+    lives: number;
+    level: number;
+}
+
+// Bustout on a field the size of the window, with a paddle for each player
+export class BustoutEngine implements GameEngine<BustoutSnapshot>, Describable {
+    private rng: RandomStream;
+    private emit: EngineEmitter;
+    private startLevel: number;
+    private settings: BustoutSettings;
+
+    // Field size
+    width = 0;
+    height = 0;
+
+    // Game state
+    gameStarted = false;
+    gameOver = false;
+    score = 0;
+    lives = 5;
+    level = 1;
+
+    // Paddle
+    paddleWidth = 80;
+    paddleHeight = 12;
+    paddles: Paddle[] = [];
+    private paddleSpeed = 8;
+
+    // Ball
+    balls: Ball[] = [];
+    private ballSpeed = 0;
+
+    // Bricks
+    bricks: Brick[] = [];
+    private brickRowCount = 8;
+    private brickColumnCount = 14;
+    private brickWidth = 0;
+    private brickHeight = 20;
+    private brickPadding = 4;
+    private brickOffsetTop = 60;
+    private brickOffsetLeft = 4;
+
+    constructor(
+        width: number,
+        height: number,
+        players: number,
+        startLevel: number,
+        rng: RandomStream,
+        emit: EngineEmitter,
+        settings: BustoutSettings = presetValues(BUSTOUT_SETTINGS, 'normal')
+    ) {
+        this.startLevel = startLevel;
+        this.rng = rng;
+        this.emit = emit;
+        this.settings = settings;
+        this.lives = settings.lives;
+        this.applyStartLevel();
+        this.resize(width, height, players);
+    }
+
+    // Lays the field out afresh for a new size
+    resize(width: number, height: number, players: number): void {
+        this.width = width;
+        this.height = height;
+
+        this.paddles = [];
+        this.syncPaddles(players);
+        this.brickWidth = (this.width - this.brickOffsetLeft * 2 - (this.brickColumnCount - 1) * this.brickPadding) / this.brickColumnCount;
+
+        this.initBricks();
+    }
+
+    press({ action, repeat }: ActionPress): void {
+        if (repeat) return;
+        if (action === 'start' && !this.gameStarted) {
+            this.startGame();
+        } else if (action === 'restart' && this.gameOver) {
+            this.resetGame();
+        }
+    }
+
+    step(input: StepInput, dt: number): void {
+        if (!this.gameStarted || this.gameOver) return;
+
+        // Speeds are tuned per 60 Hz frame
+        const frames = dt / FRAME_MS;
+
+        // Move paddles: the pointer places the first one directly, analog sticks give proportional speed
+        this.syncPaddles(input.players());
+        const pointer = input.pointer();
+        if (pointer !== null) this.paddles[0].x = pointer - this.paddleWidth / 2;
+        this.paddles.forEach((paddle, player) => {
+            paddle.prevX = paddle.x;
+            const direction = input.axis('move-left', 'move-right', player);
+            paddle.x += direction * this.paddleSpeed * frames;
+            paddle.x = Math.max(0, Math.min(this.width - this.paddleWidth, paddle.x));
+        });
+
+        // Update balls
+        for (let i = this.balls.length - 1; i >= 0; i--) {
+            const ball = this.balls[i];
+
+            ball.prevX = ball.x;
+            ball.prevY = ball.y;
+            ball.x += ball.dx * frames;
+            ball.y += ball.dy * frames;
+
+            // Wall collision
+            if (ball.x + ball.radius > this.width || ball.x - ball.radius < 0) {
+                ball.dx = -ball.dx;
+                this.emit({ type: 'sound', sound: 'bustout.wall' });
+            }
+
+            // Top collision
+            if (ball.y - ball.radius < 0) {
+                ball.dy = -ball.dy;
+                this.emit({ type: 'sound', sound: 'bustout.wall' });
+            }
+
+            // Paddle collision, only on the way down so a ball can rise through the upper paddle
+            for (const paddle of this.paddles) {
+                if (
+                    ball.dy > 0 &&
+                    ball.y + ball.radius > this.height - this.paddleHeight - paddle.lift &&
+                    ball.y + ball.radius < this.height - paddle.lift + 5 &&
+                    ball.x > paddle.x &&
+                    ball.x < paddle.x + this.paddleWidth
+                ) {
+                    // Add spin based on where ball hits paddle
+                    const hitPos = (ball.x - paddle.x) / this.paddleWidth;
+                    ball.dx = (hitPos - 0.5) * this.ballSpeed * 2;
+                    ball.dy = -Math.abs(ball.dy);
+                    this.emit({ type: 'sound', sound: 'bustout.paddle' });
+                    break;
+                }
+            }
+
+            // Bottom collision (lose life)
+            if (ball.y + ball.radius > this.height) {
+                this.balls.splice(i, 1);
+
+                if (this.balls.length === 0) {
+                    this.lives--;
+                    this.emit({ type: 'game', event: { type: 'life-lost', livesLeft: this.lives } });
+
+                    if (this.lives <= 0) {
+                        this.gameOver = true;
+                        this.gameStarted = false;
+                        this.emit({ type: 'music', track: null });
+                        this.emit({ type: 'sound', sound: 'bustout.gameOver' });
+                        this.emit({ type: 'run-end', score: this.score, level: this.level });
+                    } else {
+                        this.emit({ type: 'sound', sound: 'bustout.loseLife' });
+                        // Respawn ball
+                        this.balls.push(this.createBall());
+                    }
+                }
+                continue;
+            }
+
+            // Brick collision
+            for (const brick of this.bricks) {
+                if (!brick.active) continue;
+
+                if (
+                    ball.x + ball.radius > brick.x &&
+                    ball.x - ball.radius < brick.x + brick.width &&
+                    ball.y + ball.radius > brick.y &&
+                    ball.y - ball.radius < brick.y + brick.height
+                ) {
+                    ball.dy = -ball.dy;
+                    brick.active = false;
+                    this.score += brick.points;
+                    this.emit({ type: 'game', event: { type: 'brick-broken', points: brick.points } });
+                    // Higher pitch for higher point bricks
+                    this.emit({ type: 'sound', sound: 'bustout.brick', pitch: (300 + brick.points * 2) / 300 });
+                    break;
+                }
+            }
+        }
+
+        // Check if all bricks destroyed
+        const activeBricks = this.bricks.filter(b => b.active).length;
+        if (activeBricks === 0) {
+            this.level++;
+            this.emit({ type: 'game', event: { type: 'level-up', level: this.level } });
+            this.ballSpeed += 0.5;
+            this.emit({ type: 'sound', sound: 'bustout.levelUp' });
+            this.initBricks();
+
+            // Reset ball position
+            this.balls = [this.createBall()];
+        }
+    }
+
+    snapshot(): BustoutSnapshot {
+        return {
+            paddles: this.paddles,
+            balls: this.balls,
+            ballSpeed: this.ballSpeed,
+            bricks: this.bricks,
+            score: this.score,
+            lives: this.lives,
+            level: this.level
+        };
+    }
+
+    restore(state: BustoutSnapshot): void {
+        this.paddles = state.paddles;
+        this.balls = state.balls;
+        this.ballSpeed = state.ballSpeed;
+        this.bricks = state.bricks;
+        this.score = state.score;
+        this.lives = state.lives;
+        this.level = state.level;
+        this.gameStarted = true;
+        this.emit({ type: 'music', track: 'bustout' });
+    }
+
+    observe(): BustoutObservation {
+        return {
+            score: this.score,
+            over: this.gameOver,
+            width: this.width,
+            height: this.height,
+            paddles: this.paddles.map(paddle => ({
+                x: paddle.x,
+                y: this.height - this.paddleHeight - paddle.lift,
+                width: this.paddleWidth,
+                height: this.paddleHeight
+            })),
+            balls: this.balls.map(({ x, y, dx, dy, radius }) => ({ x, y, dx, dy, radius })),
+            bricks: this.bricks
+                .filter(brick => brick.active)
+                .map(({ x, y, width, height, points }) => ({ x, y, width, height, points })),
+            started: this.gameStarted,
+            lives: this.lives,
+            level: this.level
+        };
+    }
+
+    describe(): string {
+        if (this.gameOver) return `Game over. Final score ${this.score}, level ${this.level}.`;
+        const bricks = this.bricks.filter(brick => brick.active).length;
+        const parts = [
+            this.gameStarted ? '' : 'Ready to start.',
+            `Score ${this.score}, ${plural(this.lives, 'life', 'lives')}, level ${this.level}. ${plural(bricks, 'brick')} left.`
+        ];
+        this.balls.forEach((ball, i) => {
+            const which = this.balls.length === 1 ? 'The ball' : `Ball ${i + 1}`;
+            parts.push(`${which} is ${across(ball.x, this.width)}, ${ball.dy > 0 ? 'falling' : 'rising'}.`);
+        });
+        const [paddle] = this.paddles;
+        if (paddle) parts.push(`Your paddle is ${across(paddle.x + this.paddleWidth / 2, this.width)}.`);
+        return parts.filter(Boolean).join(' ');
+    }
+
+    // One paddle per player, so a second controller can join mid-game
+    private syncPaddles(players: number): void {
+        this.paddles.length = Math.min(this.paddles.length, players);
+        while (this.paddles.length < players) {
+            const x = (this.width - this.paddleWidth) / 2;
+            this.paddles.push({ x, prevX: x, lift: 20 + this.paddles.length * 40 });
+        }
+    }
+
+    private initBricks(): void {
+        this.bricks = [];
+        for (let row = 0; row < this.brickRowCount; row++) {
+            for (let col = 0; col < this.brickColumnCount; col++) {
+                const x = col * (this.brickWidth + this.brickPadding) + this.brickOffsetLeft;
+                const y = row * (this.brickHeight + this.brickPadding) + this.brickOffsetTop;
+                const points = (this.brickRowCount - row) * 10;
+
+                this.bricks.push({
+                    x,
+                    y,
+                    width: this.brickWidth,
+                    height: this.brickHeight,
+                    active: true,
+                    row,
+                    points
+                });
+            }
+        }
+    }
+
+    private startGame(): void {
+        this.gameStarted = true;
+        this.gameOver = false;
+        this.emit({ type: 'music', track: 'bustout' });
+        this.emit({ type: 'run-start' });
+
+        // Initialize ball
+        this.balls = [this.createBall()];
+    }
+
+    private createBall(): Ball {
+        const x = this.width / 2;
+        const y = this.height - 100;
+        return {
+            x,
+            y,
+            prevX: x,
+            prevY: y,
+            dx: this.ballSpeed * (this.rng.chance(0.5) ? 1 : -1),
+            dy: -this.ballSpeed,
+            radius: 6
+        };
+    }
+
+    private resetGame(): void {
+        this.score = 0;
+        this.lives = this.settings.lives;
+        this.applyStartLevel();
+        this.gameStarted = false;
+        this.gameOver = false;
+        this.emit({ type: 'music', track: null });
+        this.balls = [];
+        this.initBricks();
+    }
+
+    private applyStartLevel(): void {
+        this.level = this.startLevel;
+        this.ballSpeed = this.settings.ballSpeed + (this.startLevel - 1) * 0.5;
+    }
+}
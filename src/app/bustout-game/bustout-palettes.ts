@@ -0,0 +1,32 @@
+import { Palettes } from '../display/display-style';
+
+export interface BustoutPalette {
+    // Brick colors by row, top first
+    bricks: string[];
+    // The second player's paddle; the first player's is white
+    secondPaddle: string;
+}
+
+export const BUSTOUT_PALETTES: Palettes<BustoutPalette> = {
+    // The Atari 2600's
+    standard: {
+        bricks: ['#D85050', '#E06060', '#E88038', '#F0A848', '#A8C030', '#58B850', '#40A0D0', '#8888D8'],
+        secondPaddle: '#E88038'
+    },
+    deuteranopia: {
+        bricks: ['#D55E00', '#E69F00', '#F0E442', '#FFFFFF', '#56B4E9', '#0072B2', '#CC79A7', '#009E73'],
+        secondPaddle: '#E69F00'
+    },
+    protanopia: {
+        bricks: ['#E69F00', '#F0E442', '#FFFFFF', '#56B4E9', '#0072B2', '#CC79A7', '#009E73', '#999999'],
+        secondPaddle: '#F0E442'
+    },
+    tritanopia: {
+        bricks: ['#FF4D4D', '#FF99CC', '#FFFFFF', '#00B3B3', '#990000', '#7F7F7F', '#FFB380', '#CC0066'],
+        secondPaddle: '#FF99CC'
+    },
+    highContrast: {
+        bricks: ['#FFFFFF', '#FFFF00', '#00FFFF', '#FF66FF', '#66FF66', '#FF9933', '#6699FF', '#FF3333'],
+        secondPaddle: '#FFFF00'
+    }
+};
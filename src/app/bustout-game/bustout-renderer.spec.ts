@@ -0,0 +1,48 @@
+import { RandomStream } from '../random/random-stream';
+import { EventLog, fakeContext } from '../games/engine-test-doubles';
+import { STANDARD_STYLE } from '../display/display-style';
+import { InputAction } from '../input/input-actions';
+import { BustoutEngine } from './bustout-engine';
+import { BUSTOUT_PALETTES } from './bustout-palettes';
+import { BustoutRenderer } from './bustout-renderer';
+
+describe('BustoutRenderer', () => {
+    const KEYS = () => 'SPACE';
+
+    it('draws each standing brick in its own color', () => {
+        const ctx = fakeContext(800, 600);
+        const engine = new BustoutEngine(800, 600, 1, 1, new RandomStream(1), new EventLog().emit);
+        engine.bricks[0].active = false;
+        new BustoutRenderer(ctx, KEYS).render(engine, 1);
+
+        const { bricks } = BUSTOUT_PALETTES.standard;
+        for (const brick of engine.bricks) {
+            const drawn = ctx.fills.filter(fill => fill.x === brick.x && fill.y === brick.y && fill.fillStyle === bricks[brick.row]);
+            expect(drawn.length).toBe(brick.active ? 1 : 0);
+        }
+    });
+
+    it('colors bricks from the palette for the chosen vision', () => {
+        const ctx = fakeContext(800, 600);
+        const engine = new BustoutEngine(800, 600, 1, 1, new RandomStream(1), new EventLog().emit);
+        new BustoutRenderer(ctx, KEYS, () => ({ ...STANDARD_STYLE, vision: 'tritanopia' })).render(engine, 1);
+
+        const { bricks } = BUSTOUT_PALETTES.tritanopia;
+        for (const brick of engine.bricks) {
+            expect(ctx.fills.some(fill => fill.x === brick.x && fill.y === brick.y && fill.fillStyle === bricks[brick.row])).toBe(true);
+        }
+    });
+
+    it('names the keys as bound in its prompts', () => {
+        const ctx = fakeContext(800, 600);
+        const fillText = vi.fn();
+        ctx.fillText = fillText;
+        const engine = new BustoutEngine(800, 600, 1, 1, new RandomStream(1), new EventLog().emit);
+        const bound: Partial<Record<InputAction, string>> = { start: 'ENTER', 'move-left': 'J', 'move-right': 'L' };
+        new BustoutRenderer(ctx, action => bound[action] ?? '').render(engine, 1);
+
+        const texts = fillText.mock.calls.map(([text]) => text);
+        expect(texts).toContain('Press ENTER to Start');
+        expect(texts).toContain('Use J / L or Mouse to Move');
+    });
+});
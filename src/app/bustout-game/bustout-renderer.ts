@@ -0,0 +1,88 @@
+import { lerp } from '../game-loop/frame-time';
+import { DisplayStyle, STANDARD_STYLE, paletteFor } from '../display/display-style';
+import { drawPattern } from '../display/patterns';
+import { KeyNames } from '../input/input-actions';
+import { BustoutEngine } from './bustout-engine';
+import { BUSTOUT_PALETTES } from './bustout-palettes';
+
+// Draws a BustoutEngine in the Atari 2600 style
+export class BustoutRenderer {
+    constructor(
+        private ctx: CanvasRenderingContext2D,
+        private keys: KeyNames,
+        private style: () => DisplayStyle = () => STANDARD_STYLE
+    ) {}
+
+    render(engine: BustoutEngine, alpha: number): void {
+        const style = this.style();
+        const palette = paletteFor(BUSTOUT_PALETTES, style);
+
+        // Clear canvas with Atari-style black background
+        this.ctx.fillStyle = '#000000';
+        this.ctx.fillRect(0, 0, engine.width, engine.height);
+
+        // Draw bricks
+        for (const brick of engine.bricks) {
+            if (brick.active) {
+                this.ctx.fillStyle = palette.bricks[brick.row % palette.bricks.length];
+                this.ctx.fillRect(brick.x, brick.y, brick.width, brick.height);
+                if (style.patterns) drawPattern(this.ctx, brick.row, brick.x, brick.y, brick.width, brick.height);
+
+                // Add a slight 3D effect, or a hard black edge in high contrast
+                this.ctx.strokeStyle = style.highContrast ? '#000000' : '#FFFFFF';
+                this.ctx.lineWidth = style.highContrast ? 3 : 1;
+                this.ctx.strokeRect(brick.x, brick.y, brick.width, brick.height);
+            }
+        }
+
+        // Draw paddles, the second player's in orange
+        engine.paddles.forEach((paddle, player) => {
+            this.ctx.fillStyle = player === 0 ? '#FFFFFF' : palette.secondPaddle;
+            const paddleX = lerp(paddle.prevX, paddle.x, alpha);
+            this.ctx.fillRect(paddleX, engine.height - engine.paddleHeight - paddle.lift, engine.paddleWidth, engine.paddleHeight);
+        });
+
+        // Draw balls, interpolated between the last two simulation steps
+        for (const ball of engine.balls) {
+            this.ctx.fillStyle = '#FFFFFF';
+            this.ctx.beginPath();
+            this.ctx.arc(lerp(ball.prevX, ball.x, alpha), lerp(ball.prevY, ball.y, alpha), ball.radius, 0, Math.PI * 2);
+            this.ctx.fill();
+        }
+
+        // Draw score and lives
+        this.ctx.fillStyle = '#FFFFFF';
+        this.ctx.font = 'bold 24px "Courier New", monospace';
+        this.ctx.fillText(`SCORE: ${engine.score}`, 20, 30);
+        this.ctx.fillText(`LIVES: ${engine.lives}`, engine.width - 150, 30);
+        this.ctx.fillText(`LEVEL: ${engine.level}`, engine.width / 2 - 50, 30);
+
+        // Draw start message
+        if (!engine.gameStarted && !engine.gameOver) {
+            this.ctx.fillStyle = '#FFFFFF';
+            this.ctx.font = 'bold 48px "Courier New", monospace';
+            this.ctx.textAlign = 'center';
+            this.ctx.fillText('SUPER BUSTOUT', engine.width / 2, engine.height / 2 - 60);
+
+            this.ctx.font = 'bold 24px "Courier New", monospace';
+            this.ctx.fillText(`Press ${this.keys('start')} to Start`, engine.width / 2, engine.height / 2 + 20);
+            this.ctx.fillText(`Use ${this.keys('move-left')} / ${this.keys('move-right')} or Mouse to Move`, engine.width / 2, engine.height / 2 + 60);
+            this.ctx.textAlign = 'left';
+        }
+
+        // Draw game over message
+        if (engine.gameOver) {
+            this.ctx.fillStyle = '#FF0000';
+            this.ctx.font = 'bold 72px "Courier New", monospace';
+            this.ctx.textAlign = 'center';
+            this.ctx.fillText('GAME OVER', engine.width / 2, engine.height / 2 - 40);
+
+            this.ctx.fillStyle = '#FFFFFF';
+            this.ctx.font = 'bold 32px "Courier New", monospace';
+            this.ctx.fillText(`Final Score: ${engine.score}`, engine.width / 2, engine.height / 2 + 20);
+            this.ctx.font = 'bold 24px "Courier New", monospace';
+            this.ctx.fillText(`Press ${this.keys('restart')} to Restart`, engine.width / 2, engine.height / 2 + 80);
+            this.ctx.textAlign = 'left';
+        }
+    }
+}
@@ -0,0 +1,12 @@
+import { SettingField } from '../settings/game-settings';
+
+export interface BustoutSettings {
+    lives: number;
+    // Pixels per frame at level 1, with half a pixel more each level
+    ballSpeed: number;
+}
+
+export const BUSTOUT_SETTINGS: SettingField<keyof BustoutSettings>[] = [
+    { id: 'lives', label: 'Lives', min: 1, max: 9, step: 1, presets: { easy: 7, normal: 5, hard: 3 } },
+    { id: 'ballSpeed', label: 'Ball speed', min: 2, max: 8, step: 0.5, presets: { easy: 3, normal: 4, hard: 5 } }
+];
@@ -0,0 +1,14 @@
+import { Component, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { GameControl } from '../games/game-descriptor';
+
+@Component({
+    selector: 'app-control-help',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './control-help.component.html',
+    styleUrls: ['./control-help.component.css']
+})
+export class ControlHelpComponent {
+    controls = input.required<GameControl[]>();
+}
@@ -0,0 +1,53 @@
+import { Component, computed, inject, input, linkedSignal, output } from '@angular/core';
+import { CommonModule, formatDate } from '@angular/common';
+import { DailyService, dateKey } from '../daily/daily.service';
+
+interface CalendarDay {
+    date: string;
+    day: number;
+    played: number;
+}
+
+@Component({
+    selector: 'app-daily-calendar',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './daily-calendar.component.html',
+    styleUrls: ['./daily-calendar.component.css']
+})
+export class DailyCalendarComponent {
+    private dailies = inject(DailyService);
+
+    today = input.required<string>();
+    selected = input.required<string>();
+    selectedChange = output<string>();
+
+    protected readonly weekdays = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+    // First day of the month on show
+    protected month = linkedSignal(() => this.today().slice(0, 8) + '01');
+    protected title = computed(() => formatDate(this.month(), 'MMMM yyyy', 'en-US').toUpperCase());
+    protected atCurrentMonth = computed(() => this.month() === this.today().slice(0, 8) + '01');
+
+    // Weeks of the month, padded with nulls before the 1st so weekdays line up
+    protected weeks = computed(() => {
+        const [year, month] = this.month().split('-').map(Number);
+        const history = this.dailies.history();
+        const days: (CalendarDay | null)[] = Array(new Date(year, month - 1, 1).getDay()).fill(null);
+        const length = new Date(year, month, 0).getDate();
+        for (let day = 1; day <= length; day++) {
+            const date = dateKey(new Date(year, month - 1, day));
+            days.push({ date, day, played: Object.keys(history[date] ?? {}).length });
+        }
+        const weeks: (CalendarDay | null)[][] = [];
+        for (let i = 0; i < days.length; i += 7) {
+            weeks.push(days.slice(i, i + 7));
+        }
+        return weeks;
+    });
+
+    protected shiftMonth(delta: number): void {
+        const [year, month] = this.month().split('-').map(Number);
+        this.month.set(dateKey(new Date(year, month - 1 + delta, 1)));
+    }
+}
@@ -0,0 +1,39 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { CommonModule, formatDate } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { GAMES } from '../games/game-registry';
+import { DailyService } from '../daily/daily.service';
+import { DailyCalendarComponent } from '../daily-calendar/daily-calendar.component';
+
+@Component({
+    selector: 'app-daily-challenge',
+    standalone: true,
+    imports: [CommonModule, RouterLink, DailyCalendarComponent],
+    templateUrl: './daily-challenge.component.html',
+    styleUrls: ['./daily-challenge.component.css']
+})
+export class DailyChallengeComponent {
+    protected dailies = inject(DailyService);
+
+    protected readonly games = GAMES;
+    protected readonly today = this.dailies.today();
+    protected selected = signal(this.today);
+
+    protected played = computed(() => GAMES.filter(game => this.dailies.result(this.today, game.id)).length);
+    // Results of the day picked in the calendar
+    protected selectedResults = computed(() =>
+        GAMES.flatMap(game => {
+            const result = this.dailies.result(this.selected(), game.id);
+            return result ? [{ game, result }] : [];
+        })
+    );
+
+    protected longDate(date: string): string {
+        return formatDate(date, 'EEEE, MMMM d', 'en-US').toUpperCase();
+    }
+
+    protected formatDuration(ms: number): string {
+        const seconds = Math.floor(ms / 1000);
+        return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+    }
+}
@@ -0,0 +1,116 @@
+import { Injectable, computed, effect, inject, linkedSignal, signal } from '@angular/core';
+import { GameEventsService } from '../events/game-events.service';
+import { ProfileService } from '../profiles/profile.service';
+import { seedFromText } from '../random/random.service';
+
+export interface DailyResult {
+    score: number;
+    level?: number;
+    durationMs: number;
+}
+
+// Results by local date (YYYY-MM-DD), then by game
+export type DailyHistory = Record<string, Record<string, DailyResult>>;
+
+// Session mode of daily runs: they're kept out of the high score tables
+export const DAILY_MODE = 'daily';
+
+// Daily runs are played on a field of this size whatever the window, so everyone's is the same
+export const DAILY_FIELD: [number, number] = [1280, 720];
+
+// Dates come from the local clock, so the day turns over at the player's midnight
+export function dateKey(date: Date): string {
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    const day = date.getDate().toString().padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function addDays(key: string, days: number): string {
+    const [year, month, day] = key.split('-').map(Number);
+    return dateKey(new Date(year, month - 1, day + days));
+}
+
+// One seed per game and day, the same for every player, and one scored attempt each: later
+// runs that day are practice. Results are kept per profile and fed by the game event stream.
+@Injectable({ providedIn: 'root' })
+export class DailyService {
+    private profiles = inject(ProfileService);
+    // The daily being played
+    private active: { game: string; date: string } | null = null;
+
+    // Whether the run under way is the day's scored attempt
+    readonly scoring = signal(false);
+
+    readonly history = linkedSignal(() => this.profiles.read<DailyHistory>('daily') ?? {});
+
+    // Days in a row with a daily played, up to today, or yesterday while today is still open
+    readonly streak = computed(() => {
+        const today = this.today();
+        return this.streakEndingOn(this.playedOn(today) ? today : addDays(today, -1));
+    });
+    readonly bestStreak = computed(() => {
+        let best = 0;
+        let run = 0;
+        let previous = '';
+        for (const date of Object.keys(this.history()).filter(date => this.playedOn(date)).sort()) {
+            run = previous && addDays(previous, 1) === date ? run + 1 : 1;
+            best = Math.max(best, run);
+            previous = date;
+        }
+        return best;
+    });
+
+    constructor() {
+        effect(() => this.profiles.write('daily', this.history()));
+        inject(GameEventsService).subscribe((game, event) => {
+            if (this.active?.game !== game) return;
+            const { date } = this.active;
+            if (event.type === 'run-start') {
+                // The attempt is used up as it starts, as a zero, so leaving mid-run doesn't earn another
+                const first = !this.result(date, game);
+                this.scoring.set(first);
+                if (first) this.record(date, game, { score: 0, durationMs: 0 });
+            } else if (event.type === 'run-end' && this.scoring()) {
+                this.scoring.set(false);
+                this.record(date, game, { score: event.score, level: event.level, durationMs: event.durationMs });
+            }
+        });
+    }
+
+    today(): string {
+        return dateKey(new Date());
+    }
+
+    result(date: string, game: string): DailyResult | undefined {
+        return this.history()[date]?.[game];
+    }
+
+    playedOn(date: string): boolean {
+        return Object.keys(this.history()[date] ?? {}).length > 0;
+    }
+
+    // Starts today's daily for the game; the date stays fixed for the whole visit, even past midnight
+    start(game: string): { date: string; seed: number } {
+        const date = this.today();
+        this.active = { game, date };
+        return { date, seed: seedFromText(`${date}:${game}`) };
+    }
+
+    stop(): void {
+        this.active = null;
+        this.scoring.set(false);
+    }
+
+    private record(date: string, game: string, result: DailyResult): void {
+        this.history.update(history => ({ ...history, [date]: { ...history[date], [game]: result } }));
+    }
+
+    private streakEndingOn(date: string): number {
+        let streak = 0;
+        while (this.playedOn(date)) {
+            streak++;
+            date = addDays(date, -1);
+        }
+        return streak;
+    }
+}
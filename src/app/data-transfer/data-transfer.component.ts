@@ -0,0 +1,73 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { BackupService, ImportMode } from '../backup/backup.service';
+import { ArcadeBackup, parseBackup } from '../backup/arcade-backup';
+import { ProfileSummary } from '../backup/import-preview';
+
+// Export and import of all arcade data, with a preview before anything changes
+@Component({
+    selector: 'app-data-transfer',
+    standalone: true,
+    imports: [CommonModule, RouterLink],
+    templateUrl: './data-transfer.component.html',
+    styleUrls: ['./data-transfer.component.css']
+})
+export class DataTransferComponent {
+    private backups = inject(BackupService);
+
+    protected readonly columns: { key: keyof ProfileSummary; label: string }[] = [
+        { key: 'scores', label: 'SCORES' },
+        { key: 'achievements', label: 'ACHIEVEMENTS' },
+        { key: 'gamesPlayed', label: 'GAMES' },
+        { key: 'dailies', label: 'DAILIES' },
+        { key: 'savedRuns', label: 'SAVED' }
+    ];
+
+    // The backup picked for import, until it's applied or cancelled
+    protected backup = signal<ArcadeBackup | null>(null);
+    protected mode = signal<ImportMode>('merge');
+    protected error = signal<string | null>(null);
+    protected imported = signal(false);
+
+    protected preview = computed(() => {
+        const backup = this.backup();
+        return backup ? this.backups.preview(backup, this.mode()) : [];
+    });
+
+    protected exportData(): void {
+        this.backups.download();
+    }
+
+    protected pickFile(event: Event): void {
+        const field = event.target as HTMLInputElement;
+        const file = field.files?.[0];
+        field.value = '';
+        if (!file) return;
+
+        this.imported.set(false);
+        file.text()
+            .catch(() => {
+                throw new Error('The file could not be read');
+            })
+            .then(text => parseBackup(text))
+            .then(
+                backup => {
+                    this.backup.set(backup);
+                    this.error.set(null);
+                },
+                e => {
+                    this.backup.set(null);
+                    this.error.set((e as Error).message);
+                }
+            );
+    }
+
+    protected applyImport(): void {
+        const backup = this.backup();
+        if (!backup) return;
+        this.backups.apply(backup, this.mode());
+        this.backup.set(null);
+        this.imported.set(true);
+    }
+}
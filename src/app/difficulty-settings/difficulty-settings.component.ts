@@ -0,0 +1,25 @@
+import { Component, computed, inject, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { GameDescriptor } from '../games/game-descriptor';
+import { GameSettingsService } from '../settings/game-settings.service';
+import { PRESETS } from '../settings/game-settings';
+
+@Component({
+    selector: 'app-difficulty-settings',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './difficulty-settings.component.html',
+    styleUrls: ['./difficulty-settings.component.css']
+})
+export class DifficultySettingsComponent {
+    protected gameSettings = inject(GameSettingsService);
+
+    game = input.required<GameDescriptor>();
+
+    protected readonly presets = PRESETS;
+    protected current = computed(() => this.gameSettings.current(this.game()));
+
+    protected change(id: string, event: Event): void {
+        this.gameSettings.set(this.game(), id, Number((event.target as HTMLInputElement).value));
+    }
+}
@@ -0,0 +1,41 @@
+import { Component, inject, input, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DisplayService } from '../display/display.service';
+import { VISIONS, Vision } from '../display/display-style';
+
+@Component({
+    selector: 'app-display-controls',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './display-controls.component.html',
+    styleUrls: ['./display-controls.component.css']
+})
+export class DisplayControlsComponent {
+    protected display = inject(DisplayService);
+
+    // Which edge of the button the panel lines up with
+    align = input<'left' | 'right'>('right');
+
+    protected panelOpen = signal(false);
+    protected readonly visions = VISIONS;
+
+    protected togglePanel(): void {
+        this.panelOpen.update(open => !open);
+    }
+
+    // Escape shuts the panel and refocuses its button. In a game it goes no further, or the
+    // shell would take it as exit.
+    protected closePanel(event: Event, button: HTMLElement): void {
+        event.stopPropagation();
+        this.panelOpen.set(false);
+        button.focus();
+    }
+
+    protected setVision(event: Event): void {
+        this.display.vision.set((event.target as HTMLSelectElement).value as Vision);
+    }
+
+    protected setOption(option: 'highContrast' | 'patterns', event: Event): void {
+        this.display[option].set((event.target as HTMLInputElement).checked);
+    }
+}
@@ -0,0 +1,25 @@
+export type Vision = 'standard' | 'deuteranopia' | 'protanopia' | 'tritanopia';
+
+export const VISIONS: { id: Vision; label: string }[] = [
+    { id: 'standard', label: 'Standard' },
+    { id: 'deuteranopia', label: 'Deuteranopia (green-weak)' },
+    { id: 'protanopia', label: 'Protanopia (red-weak)' },
+    { id: 'tritanopia', label: 'Tritanopia (blue-weak)' }
+];
+
+// How the games are drawn. High contrast has palettes of its own, which stand in for the
+// vision's; patterns mark blocks and bricks with glyphs so no color has to be told apart.
+export interface DisplayStyle {
+    vision: Vision;
+    highContrast: boolean;
+    patterns: boolean;
+}
+
+export const STANDARD_STYLE: DisplayStyle = { vision: 'standard', highContrast: false, patterns: false };
+
+// A game's colors for each kind of vision, and for high contrast
+export type Palettes<T> = Record<Vision | 'highContrast', T>;
+
+export function paletteFor<T>(palettes: Palettes<T>, style: DisplayStyle): T {
+    return style.highContrast ? palettes.highContrast : palettes[style.vision];
+}
@@ -0,0 +1,29 @@
+import { Injectable, computed, effect, inject, linkedSignal } from '@angular/core';
+import { ProfileService } from '../profiles/profile.service';
+import { DisplayStyle, STANDARD_STYLE, VISIONS } from './display-style';
+
+// The palette and contrast the games are drawn with, kept per profile. Renderers take the
+// style signal and read it every frame, so a change shows straight away.
+@Injectable({ providedIn: 'root' })
+export class DisplayService {
+    private profiles = inject(ProfileService);
+
+    private saved = computed<DisplayStyle>(() => ({ ...STANDARD_STYLE, ...this.profiles.read<Partial<DisplayStyle>>('display') }));
+
+    readonly vision = linkedSignal(() => {
+        const vision = this.saved().vision;
+        return VISIONS.some(({ id }) => id === vision) ? vision : STANDARD_STYLE.vision;
+    });
+    readonly highContrast = linkedSignal(() => !!this.saved().highContrast);
+    readonly patterns = linkedSignal(() => !!this.saved().patterns);
+
+    readonly style = computed<DisplayStyle>(() => ({
+        vision: this.vision(),
+        highContrast: this.highContrast(),
+        patterns: this.patterns()
+    }));
+
+    constructor() {
+        effect(() => this.profiles.write('display', this.style()));
+    }
+}
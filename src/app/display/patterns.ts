@@ -0,0 +1,64 @@
+// Glyphs that tell blocks apart without their colors: a dot, a ring, a cross, a plus, a
+// dash, a bar, a slash and a diamond, centred in the box and picked by index
+export const PATTERN_COUNT = 8;
+
+export function drawPattern(ctx: CanvasRenderingContext2D, index: number, x: number, y: number, width: number, height: number): void {
+    const size = Math.min(width, height) * 0.3;
+    const cx = x + width / 2;
+    const cy = y + height / 2;
+
+    ctx.save();
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.lineWidth = Math.max(2, size / 3);
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    switch (((index % PATTERN_COUNT) + PATTERN_COUNT) % PATTERN_COUNT) {
+        case 0:
+            ctx.arc(cx, cy, size * 0.6, 0, Math.PI * 2);
+            ctx.fill();
+            break;
+        case 1:
+            ctx.arc(cx, cy, size, 0, Math.PI * 2);
+            ctx.stroke();
+            break;
+        case 2:
+            ctx.moveTo(cx - size, cy - size);
+            ctx.lineTo(cx + size, cy + size);
+            ctx.moveTo(cx + size, cy - size);
+            ctx.lineTo(cx - size, cy + size);
+            ctx.stroke();
+            break;
+        case 3:
+            ctx.moveTo(cx - size, cy);
+            ctx.lineTo(cx + size, cy);
+            ctx.moveTo(cx, cy - size);
+            ctx.lineTo(cx, cy + size);
+            ctx.stroke();
+            break;
+        case 4:
+            ctx.moveTo(cx - size, cy);
+            ctx.lineTo(cx + size, cy);
+            ctx.stroke();
+            break;
+        case 5:
+            ctx.moveTo(cx, cy - size);
+            ctx.lineTo(cx, cy + size);
+            ctx.stroke();
+            break;
+        case 6:
+            ctx.moveTo(cx - size, cy + size);
+            ctx.lineTo(cx + size, cy - size);
+            ctx.stroke();
+            break;
+        case 7:
+            ctx.moveTo(cx, cy - size);
+            ctx.lineTo(cx + size, cy);
+            ctx.lineTo(cx, cy + size);
+            ctx.lineTo(cx - size, cy);
+            ctx.closePath();
+            ctx.stroke();
+            break;
+    }
+    ctx.restore();
+}
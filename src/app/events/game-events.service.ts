@@ -0,0 +1,22 @@
+import { Injectable } from '@angular/core';
+import { GameEvent } from './game-events';
+
+export type GameEventListener = (game: string, event: GameEvent) => void;
+
+// Arcade-wide stream of game events, for anything that follows play across games
+@Injectable({ providedIn: 'root' })
+export class GameEventsService {
+    private listeners: GameEventListener[] = [];
+
+    emit(game: string, event: GameEvent): void {
+        this.listeners.forEach(listener => listener(game, event));
+    }
+
+    // Returns a function that unsubscribes
+    subscribe(listener: GameEventListener): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+}
@@ -0,0 +1,23 @@
+// Things that happen during play, reported by the games through GameSessionService
+export type GameEvent =
+    | { type: 'run-start' }
+    | { type: 'run-end'; score: number; level?: number; durationMs: number }
+    // Time played since the last report, sent as a run ends or is left, and when the page is hidden
+    | { type: 'play-time'; durationMs: number }
+    | { type: 'paused' }
+    | { type: 'level-up'; level: number }
+    // cause is game-specific, e.g. Hopper's 'car' or 'water'
+    | { type: 'life-lost'; livesLeft: number; cause?: string }
+    // Snake
+    | { type: 'apple-eaten'; length: number }
+    // Shape Drop
+    | { type: 'lines-cleared'; count: number }
+    // Alien Invaders and Space Rocks
+    | { type: 'enemy-destroyed'; kind: 'invader' | 'mother-ship' | 'rock'; points: number; size?: 'large' | 'medium' | 'small' }
+    // Bustout
+    | { type: 'brick-broken'; points: number }
+    // Hopper: a frog made it home, possibly bringing the lady frog with it
+    | { type: 'goal-reached'; rescued: boolean };
+
+export type GameEventType = GameEvent['type'];
+export type GameEventOf<T extends GameEventType> = Extract<GameEvent, { type: T }>;
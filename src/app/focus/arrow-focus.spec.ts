@@ -0,0 +1,44 @@
+import { arrowFocus } from './arrow-focus';
+
+describe('arrowFocus', () => {
+    let items: HTMLButtonElement[];
+
+    beforeEach(() => {
+        items = ['one', 'two', 'three'].map(label => {
+            const button = document.createElement('button');
+            button.textContent = label;
+            document.body.appendChild(button);
+            return button;
+        });
+    });
+
+    afterEach(() => items.forEach(item => item.remove()));
+
+    const press = (key: string) => new KeyboardEvent('keydown', { key, cancelable: true });
+
+    it('moves focus to the next and previous items, wrapping round at the ends', () => {
+        items[2].focus();
+        expect(arrowFocus(press('ArrowDown'), items)).toBe(0);
+        expect(document.activeElement).toBe(items[0]);
+        expect(arrowFocus(press('ArrowLeft'), items)).toBe(2);
+        expect(document.activeElement).toBe(items[2]);
+    });
+
+    it('jumps to the ends with Home and End', () => {
+        items[1].focus();
+        expect(arrowFocus(press('End'), items)).toBe(2);
+        expect(arrowFocus(press('Home'), items)).toBe(0);
+    });
+
+    it('leaves keys across the orientation alone', () => {
+        items[0].focus();
+        const event = press('ArrowDown');
+        expect(arrowFocus(event, items, 'horizontal')).toBe(-1);
+        expect(event.defaultPrevented).toBe(false);
+        expect(document.activeElement).toBe(items[0]);
+    });
+
+    it('does nothing while focus is elsewhere', () => {
+        expect(arrowFocus(press('ArrowDown'), items)).toBe(-1);
+    });
+});
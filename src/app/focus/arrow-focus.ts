@@ -0,0 +1,25 @@
+const KEYS = {
+    horizontal: { previous: ['ArrowLeft'], next: ['ArrowRight'] },
+    vertical: { previous: ['ArrowUp'], next: ['ArrowDown'] },
+    both: { previous: ['ArrowLeft', 'ArrowUp'], next: ['ArrowRight', 'ArrowDown'] }
+};
+
+// Lets the arrow keys move focus between a menu's items, wrapping round at the ends, with Home
+// and End for the first and last. Returns the index of the item it focused, or -1 if the key
+// wasn't one of those or focus wasn't on one of the items.
+export function arrowFocus(event: KeyboardEvent, items: HTMLElement[], orientation: keyof typeof KEYS = 'both'): number {
+    const current = items.indexOf(document.activeElement as HTMLElement);
+    if (current === -1) return -1;
+
+    const { previous, next } = KEYS[orientation];
+    let index: number;
+    if (previous.includes(event.key)) index = (current - 1 + items.length) % items.length;
+    else if (next.includes(event.key)) index = (current + 1) % items.length;
+    else if (event.key === 'Home') index = 0;
+    else if (event.key === 'End') index = items.length - 1;
+    else return -1;
+
+    event.preventDefault();
+    items[index].focus();
+    return index;
+}
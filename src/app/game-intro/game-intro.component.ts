@@ -0,0 +1,67 @@
+import { Component, computed, input, numberAttribute, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import { GameControl, GameDescriptor } from '../games/game-descriptor';
+import { ControlHelpComponent } from '../control-help/control-help.component';
+import { KeyBindingsComponent } from '../key-bindings/key-bindings.component';
+import { GamepadListComponent } from '../gamepad-list/gamepad-list.component';
+import { HighScoreTableComponent } from '../high-score-table/high-score-table.component';
+import { SeedFieldComponent } from '../seed-field/seed-field.component';
+import { DifficultySettingsComponent } from '../difficulty-settings/difficulty-settings.component';
+import { KeyBindingsService } from '../input/key-bindings.service';
+import { GamepadService } from '../input/gamepad.service';
+import { ARCADE_SCOPE } from '../input/input-actions';
+import { parseSeed } from '../random/random.service';
+import { SavedRunsService } from '../saves/saved-runs.service';
+
+@Component({
+    selector: 'app-game-intro',
+    standalone: true,
+    imports: [CommonModule, ControlHelpComponent, KeyBindingsComponent, GamepadListComponent, HighScoreTableComponent, SeedFieldComponent, DifficultySettingsComponent],
+    templateUrl: './game-intro.component.html',
+    styleUrls: ['./game-intro.component.css']
+})
+export class GameIntroComponent {
+    private router = inject(Router);
+    private bindings = inject(KeyBindingsService);
+    private gamepads = inject(GamepadService);
+    private saves = inject(SavedRunsService);
+
+    // Bound from the route: the descriptor comes from route data, ?level=N and ?seed=N from the query string
+    game = input.required<GameDescriptor>();
+    level = input(1, { transform: (value: unknown) => Math.max(1, numberAttribute(value, 1)) });
+    seed = input(null, { transform: parseSeed });
+
+    protected remapping = signal(false);
+    protected savedRun = computed(() => this.saves.saved(this.game().id));
+    // Controller buttons are listed once a controller is connected
+    protected controls = computed<GameControl[]>(() => {
+        const withButtons = this.gamepads.pads().length > 0;
+        return [
+            ...this.bindings.controlsFor(this.game().id, withButtons),
+            ...(this.game().extraControls ?? []),
+            ...this.bindings.controlsFor(ARCADE_SCOPE, withButtons)
+        ];
+    });
+
+    startGame(): void {
+        this.router.navigate(['/', this.game().id, 'play'], { queryParamsHandling: 'preserve' });
+    }
+
+    protected continueGame(): void {
+        this.router.navigate(['/', this.game().id, 'play'], { queryParams: { resume: true } });
+    }
+
+    protected watchReplay(rank: number): void {
+        this.router.navigate(['/', this.game().id, 'play'], { queryParams: { replay: rank + 1 }, queryParamsHandling: 'merge' });
+    }
+
+    // Kept in the query string so it carries over to the game like ?level
+    protected setSeed(seed: number | null): void {
+        this.router.navigate([], { queryParams: { seed }, queryParamsHandling: 'merge', replaceUrl: true });
+    }
+
+    goBackToArcade(): void {
+        this.router.navigate(['/'], { state: { from: this.game().id } });
+    }
+}
@@ -0,0 +1,7 @@
+// Length of one simulation step in milliseconds. The games were tuned at 60 Hz, so
+// per-frame speeds can be scaled with `dt / FRAME_MS` inside a step.
+export const FRAME_MS = 1000 / 60;
+
+export function lerp(from: number, to: number, alpha: number): number {
+    return from + (to - from) * alpha;
+}
@@ -0,0 +1,97 @@
+import { Injectable, OnDestroy, inject } from '@angular/core';
+import { ReplayService } from '../replays/replay.service';
+import { BotService } from '../bots/bot.service';
+import { FRAME_MS } from './frame-time';
+
+export interface LoopCallbacks {
+    // Advances the simulation by exactly dt milliseconds
+    update(dt: number): void;
+    // Draws the current state; alpha (0..1) is how far we are between the last two steps.
+    // Games that render through their template can leave it out.
+    render?(alpha: number): void;
+}
+
+// Fixed-timestep loop driven by requestAnimationFrame. Real elapsed time is collected
+// in an accumulator and drained in FRAME_MS steps, so gameplay runs at the same speed
+// on a 60 Hz and a 144 Hz display; rendering happens once per display frame.
+// Provide it per game component so each game owns its own loop. Inside the game shell,
+// every step goes through the shell's ReplayService, which records or plays back its input,
+// after any bot at the controls has made its move.
+@Injectable()
+export class GameLoopService implements OnDestroy {
+    private replay = inject(ReplayService, { optional: true });
+    private bots = inject(BotService, { optional: true });
+
+    readonly step = FRAME_MS;
+
+    // Playback rate: 1 is real time, 0 holds the simulation while rendering carries on
+    speed = 1;
+
+    // Longest frame we catch up on, so a backgrounded tab doesn't fast-forward the game
+    private readonly maxFrameTime = 250;
+
+    private callbacks: LoopCallbacks | null = null;
+    private frameId = 0;
+    private lastTime: number | null = null;
+    private accumulator = 0;
+    // Steps to run on the next frame regardless of time, for frame stepping and seeking
+    private skipped = 0;
+
+    constructor() {
+        this.replay?.attach(this);
+    }
+
+    get running(): boolean {
+        return this.callbacks !== null;
+    }
+
+    start(callbacks: LoopCallbacks): void {
+        this.stop();
+        this.callbacks = callbacks;
+        this.lastTime = null;
+        this.accumulator = 0;
+        this.frameId = requestAnimationFrame(this.frame);
+    }
+
+    skip(steps: number): void {
+        this.skipped += steps;
+    }
+
+    stop(): void {
+        if (this.frameId) {
+            cancelAnimationFrame(this.frameId);
+            this.frameId = 0;
+        }
+        this.callbacks = null;
+    }
+
+    ngOnDestroy(): void {
+        this.stop();
+    }
+
+    private frame = (timestamp: number): void => {
+        if (!this.callbacks) return;
+        this.frameId = requestAnimationFrame(this.frame);
+
+        const elapsed = this.lastTime === null ? 0 : Math.min(timestamp - this.lastTime, this.maxFrameTime);
+        this.lastTime = timestamp;
+        this.accumulator += elapsed * this.speed;
+
+        while (this.callbacks && this.skipped > 0) {
+            this.skipped--;
+            this.runStep(this.callbacks);
+        }
+        while (this.callbacks && this.speed > 0 && this.accumulator >= this.step) {
+            this.runStep(this.callbacks);
+            this.accumulator -= this.step;
+        }
+
+        this.callbacks?.render?.(this.accumulator / this.step);
+    };
+
+    private runStep(callbacks: LoopCallbacks): void {
+        this.bots?.beforeStep();
+        this.replay?.beforeStep();
+        callbacks.update(this.step);
+    }
+}
@@ -0,0 +1,139 @@
+import { Component, DestroyRef, OnInit, Type, booleanAttribute, computed, effect, input, numberAttribute, signal, inject } from '@angular/core';
+import { CommonModule, NgComponentOutlet } from '@angular/common';
+import { Router } from '@angular/router';
+import { GameDescriptor } from '../games/game-descriptor';
+import { AudioControlsComponent } from '../audio-controls/audio-controls.component';
+import { DisplayControlsComponent } from '../display-controls/display-controls.component';
+import { TouchControlsComponent } from '../touch-controls/touch-controls.component';
+import { InitialsEntryComponent } from '../initials-entry/initials-entry.component';
+import { ReplayControlsComponent } from '../replay-controls/replay-controls.component';
+import { GameInputService } from '../input/game-input.service';
+import { KeyBindingsService } from '../input/key-bindings.service';
+import { ARCADE_SCOPE } from '../input/input-actions';
+import { GameSessionService } from '../scores/game-session.service';
+import { HighScoreService } from '../scores/high-score.service';
+import { ProfileService } from '../profiles/profile.service';
+import { RandomService, parseSeed } from '../random/random.service';
+import { ReplayService } from '../replays/replay.service';
+import { GhostService } from '../ghosts/ghost.service';
+import { GhostHudComponent } from '../ghost-hud/ghost-hud.component';
+import { DailyService, DAILY_FIELD, DAILY_MODE } from '../daily/daily.service';
+import { BotService } from '../bots/bot.service';
+import { findBot } from '../bots/bot-registry';
+import { SavedRunsService } from '../saves/saved-runs.service';
+import { GameSettingsService, difficultySettings } from '../settings/game-settings.service';
+import { RunSettings } from '../settings/game-settings';
+import { AnnouncerService } from '../announcer/announcer.service';
+
+@Component({
+    selector: 'app-game-shell',
+    standalone: true,
+    imports: [CommonModule, NgComponentOutlet, AudioControlsComponent, DisplayControlsComponent, TouchControlsComponent, InitialsEntryComponent, ReplayControlsComponent, GhostHudComponent],
+    providers: [GameInputService, GameSessionService, RandomService, ReplayService, GhostService, BotService],
+    templateUrl: './game-shell.component.html',
+    styleUrls: ['./game-shell.component.css']
+})
+export class GameShellComponent implements OnInit {
+    private router = inject(Router);
+    private gameInput = inject(GameInputService);
+    private destroyRef = inject(DestroyRef);
+    private dailies = inject(DailyService);
+    private saves = inject(SavedRunsService);
+    private gameSettings = inject(GameSettingsService);
+    private announcer = inject(AnnouncerService);
+    private bindings = inject(KeyBindingsService);
+    protected session = inject(GameSessionService);
+    protected highScores = inject(HighScoreService);
+    protected profiles = inject(ProfileService);
+    protected random = inject(RandomService);
+    protected replays = inject(ReplayService);
+    protected ghosts = inject(GhostService);
+    protected bots = inject(BotService);
+
+    // Bound from the route: the descriptor comes from route data, ?level=N from the query string
+    game = input.required<GameDescriptor>();
+    level = input(1, { transform: (value: unknown) => Math.max(1, numberAttribute(value, 1)) });
+    // ?seed=N replays the same randomness every run
+    seed = input(null, { transform: parseSeed });
+    // ?replay=N watches the recording of the Nth best score instead of playing
+    replay = input(0, { transform: (value: unknown) => numberAttribute(value, 0) });
+    // ?daily=true plays today's daily challenge
+    daily = input(false, { transform: booleanAttribute });
+    // ?resume=true continues the run saved when the player last left mid-game
+    resume = input(false, { transform: booleanAttribute });
+    // ?bot=name hands the controls to a bot, whose runs count for nothing
+    bot = input<string | null>(null);
+
+    // Date of the daily being played, and whether its scored attempt is used up
+    protected dailyDate = signal<string | null>(null);
+    protected practice = computed(() => {
+        const date = this.dailyDate();
+        return date !== null && !this.dailies.scoring() && this.dailies.result(date, this.game().id) !== undefined;
+    });
+
+    protected watching = computed(() => this.highScores.table(this.game().id)[this.replay() - 1] ?? null);
+    protected gameComponent = signal<Type<unknown> | null>(null);
+    // What the run is played with, decided as the shell sets it up
+    protected runSettings = signal<RunSettings | null>(null);
+    protected preset = computed(() => this.runSettings()?.preset ?? 'normal');
+    protected describeKeys = computed(() => this.bindings.keyNames(ARCADE_SCOPE)('describe'));
+    protected componentInputs = computed<Record<string, unknown>>(() => ({
+        settings: this.runSettings()?.values,
+        ...(this.game().hasLevels ? { startLevel: this.replays.playback()?.startLevel ?? (this.daily() ? 1 : this.level()) } : {})
+    }));
+
+    constructor() {
+        // The game waits while initials are entered
+        effect(() => this.gameInput.suspend(this.session.pendingEntry() !== null));
+    }
+
+    ngOnInit(): void {
+        this.gameInput.use(this.game());
+        const replay = this.watching()?.replay;
+        if (replay) {
+            this.runSettings.set(replay.settings ?? difficultySettings(this.game(), 'normal'));
+            this.session.use(this.game().id);
+            this.replays.play(replay);
+        } else if (this.daily()) {
+            // Today's seed from level 1 on Normal, kept out of the high score tables
+            const { date, seed } = this.dailies.start(this.game().id);
+            const settings = difficultySettings(this.game(), 'normal');
+            this.destroyRef.onDestroy(() => this.dailies.stop());
+            this.dailyDate.set(date);
+            this.runSettings.set(settings);
+            this.session.use(this.game().id, { mode: DAILY_MODE, ranked: false, settings });
+            this.random.useSeed(seed);
+            this.replays.record(1, settings, DAILY_FIELD);
+        } else {
+            const name = this.bot();
+            const bot = name ? findBot(this.game().id, name) : undefined;
+            // A saved run carries on as it started
+            const saved = this.resume() ? this.saves.saved(this.game().id) : undefined;
+            const settings = saved ? saved.settings ?? difficultySettings(this.game(), 'normal') : this.gameSettings.current(this.game());
+            this.runSettings.set(settings);
+            this.session.use(this.game().id, bot ? { ranked: false, tracked: false, settings } : { settings });
+            if (this.resume()) this.session.resume();
+            this.random.useSeed(this.seed());
+            this.replays.record(this.level(), settings);
+            bot?.load().then(driver => this.bots.drive(driver));
+        }
+        this.gameInput.onPress(({ action }) => {
+            if (action === 'exit') this.exitGame();
+            if (action === 'describe') this.describeGame();
+        });
+        this.game().loadComponent().then(component => this.gameComponent.set(component));
+    }
+
+    // Reads the state of play out to screen readers
+    protected describeGame(): void {
+        this.announcer.announce(this.session.describe() ?? `${this.game().title} is loading.`);
+    }
+
+    exitGame(): void {
+        if (this.daily()) {
+            this.router.navigate(['/daily']);
+            return;
+        }
+        this.router.navigate(['/', this.game().id], { queryParams: { replay: null, resume: null, bot: null }, queryParamsHandling: 'merge' });
+    }
+}
@@ -0,0 +1,27 @@
+import { Component, inject, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { GamepadService } from '../input/gamepad.service';
+import { GAMEPAD_PROFILES } from '../input/gamepad-profiles';
+
+// Connected controllers with their player number and a mapping profile picker
+@Component({
+    selector: 'app-gamepad-list',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './gamepad-list.component.html',
+    styleUrls: ['./gamepad-list.component.css']
+})
+export class GamepadListComponent {
+    protected gamepads = inject(GamepadService);
+    protected profiles = GAMEPAD_PROFILES;
+
+    maxPlayers = input(1);
+
+    protected playerLabel(position: number): string {
+        return `P${Math.min(position, this.maxPlayers() - 1) + 1}`;
+    }
+
+    protected selectProfile(padId: string, event: Event): void {
+        this.gamepads.setProfile(padId, (event.target as HTMLSelectElement).value);
+    }
+}
@@ -0,0 +1,57 @@
+import { TestBed } from '@angular/core/testing';
+import { AudioService } from '../audio/audio.service';
+import { MusicService } from '../audio/music.service';
+import { GameSessionService } from '../scores/game-session.service';
+import { GhostService } from '../ghosts/ghost.service';
+import { EngineEmitter } from './game-engine';
+import { injectEngineEmitter } from './engine-emitter';
+
+describe('injectEngineEmitter', () => {
+    // Stand in for Web Audio and the shell's services
+    const audio = { play: vi.fn() };
+    const music = { play: vi.fn(), stop: vi.fn() };
+    const session = { begin: vi.fn(), end: vi.fn(), emit: vi.fn() };
+    const ghosts = { report: vi.fn(), split: vi.fn() };
+    let emit: EngineEmitter;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        TestBed.configureTestingModule({
+            providers: [
+                { provide: AudioService, useValue: audio },
+                { provide: MusicService, useValue: music },
+                { provide: GameSessionService, useValue: session },
+                { provide: GhostService, useValue: ghosts }
+            ]
+        });
+        emit = TestBed.runInInjectionContext(() => injectEngineEmitter());
+    });
+
+    it('plays sounds and music', () => {
+        emit({ type: 'sound', sound: 'bustout.brick', pitch: 1.5 });
+        emit({ type: 'music', track: 'bustout' });
+        emit({ type: 'music', track: null });
+
+        expect(audio.play).toHaveBeenCalledWith('bustout.brick', 1.5);
+        expect(music.play).toHaveBeenCalledWith('bustout');
+        expect(music.stop).toHaveBeenCalled();
+    });
+
+    it('starts, reports on and ends the session', () => {
+        emit({ type: 'run-start' });
+        emit({ type: 'game', event: { type: 'level-up', level: 2 } });
+        emit({ type: 'run-end', score: 120, level: 2 });
+
+        expect(session.begin).toHaveBeenCalled();
+        expect(session.emit).toHaveBeenCalledWith({ type: 'level-up', level: 2 });
+        expect(session.end).toHaveBeenCalledWith({ score: 120, level: 2 });
+    });
+
+    it('keeps the ghost race up to date', () => {
+        emit({ type: 'ghost-report', score: 30, x: 4, y: 5 });
+        emit({ type: 'ghost-split', count: 4 });
+
+        expect(ghosts.report).toHaveBeenCalledWith(30, 4, 5);
+        expect(ghosts.split).toHaveBeenCalledWith(4);
+    });
+});
@@ -0,0 +1,42 @@
+import { inject } from '@angular/core';
+import { AudioService } from '../audio/audio.service';
+import { MusicService } from '../audio/music.service';
+import { GameSessionService } from '../scores/game-session.service';
+import { GhostService } from '../ghosts/ghost.service';
+import { EngineEmitter } from './game-engine';
+
+// Passes a game engine's events on to the shell's session and ghost race and the game's
+// sound. Call it where inject() works, e.g. in a field initializer of the game component.
+export function injectEngineEmitter(): EngineEmitter {
+    const session = inject(GameSessionService);
+    const ghosts = inject(GhostService);
+    const audio = inject(AudioService);
+    const music = inject(MusicService);
+
+    return event => {
+        switch (event.type) {
+            case 'run-start':
+                session.begin();
+                break;
+            case 'run-end':
+                session.end({ score: event.score, level: event.level });
+                break;
+            case 'game':
+                session.emit(event.event);
+                break;
+            case 'sound':
+                audio.play(event.sound, event.pitch);
+                break;
+            case 'music':
+                if (event.track) music.play(event.track);
+                else music.stop();
+                break;
+            case 'ghost-report':
+                ghosts.report(event.score, event.x, event.y);
+                break;
+            case 'ghost-split':
+                ghosts.split(event.count);
+                break;
+        }
+    };
+}
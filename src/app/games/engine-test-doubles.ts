@@ -0,0 +1,87 @@
+import { ActionPress, InputAction } from '../input/input-actions';
+import { EngineEmitter, EngineEvent, StepInput } from './game-engine';
+
+// Stand-ins for the arcade around an engine, so its rules can run without Angular, a canvas
+// or Web Audio
+
+// Collects what an engine emits, in place of the session, ghost and audio services
+export class EventLog {
+    readonly events: EngineEvent[] = [];
+    readonly emit: EngineEmitter = event => {
+        this.events.push(event);
+    };
+
+    of<T extends EngineEvent['type']>(type: T): Extract<EngineEvent, { type: T }>[] {
+        return this.events.filter((event): event is Extract<EngineEvent, { type: T }> => event.type === type);
+    }
+
+    sounds(): string[] {
+        return this.of('sound').map(event => event.sound);
+    }
+
+    clear(): void {
+        this.events.length = 0;
+    }
+}
+
+// A single press of a control, as the first player
+export function tap(action: InputAction, player = 0): ActionPress {
+    return { action, repeat: false, player };
+}
+
+// Controls held at full strength until released; every player holds the same ones
+export class HeldInput implements StepInput {
+    readonly held = new Set<InputAction>();
+    playerCount = 1;
+    pointerX: number | null = null;
+
+    value(action: InputAction): number {
+        return this.held.has(action) ? 1 : 0;
+    }
+
+    isHeld(action: InputAction): boolean {
+        return this.held.has(action);
+    }
+
+    axis(negative: InputAction, positive: InputAction): number {
+        return this.value(positive) - this.value(negative);
+    }
+
+    players(): number {
+        return this.playerCount;
+    }
+
+    pointer(): number | null {
+        return this.pointerX;
+    }
+}
+
+export interface FilledRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    fillStyle: string;
+}
+
+// A 2D context that keeps the rectangles filled on it and accepts any other drawing call
+export function fakeContext(width: number, height: number): CanvasRenderingContext2D & { fills: FilledRect[] } {
+    const fills: FilledRect[] = [];
+    const state: Record<string | symbol, unknown> = {
+        canvas: { width, height },
+        fills,
+        fillStyle: '#000000',
+        fillRect(x: number, y: number, w: number, h: number) {
+            fills.push({ x, y, width: w, height: h, fillStyle: String(state['fillStyle']) });
+        },
+        createLinearGradient: () => ({ addColorStop() {} })
+    };
+    const noop = () => {};
+    return new Proxy(state, {
+        get: (target, key) => (key in target ? target[key] : noop),
+        set: (target, key, value) => {
+            target[key] = value;
+            return true;
+        }
+    }) as unknown as CanvasRenderingContext2D & { fills: FilledRect[] };
+}
@@ -0,0 +1,18 @@
+// Wording shared by the engines' spoken descriptions
+
+// "1 life", "3 lives"
+export function plural(count: number, one: string, many = one + 's'): string {
+    return `${count} ${count === 1 ? one : many}`;
+}
+
+// Where something sits across a field, from the left edge of the field
+export function across(x: number, width: number): string {
+    const places = ['on the far left', 'on the left', 'in the middle', 'on the right', 'on the far right'];
+    return places[Math.max(0, Math.min(places.length - 1, Math.floor((x / width) * places.length)))];
+}
+
+// A distance along one axis in cells, e.g. "3 cells left", or null when there is none
+export function cells(offset: number, positive: string, negative: string): string | null {
+    if (offset === 0) return null;
+    return `${plural(Math.abs(offset), 'cell')} ${offset > 0 ? positive : negative}`;
+}
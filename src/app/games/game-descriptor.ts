@@ -0,0 +1,50 @@
+import { Type } from '@angular/core';
+import { GameAction, InputAction } from '../input/input-actions';
+import { SettingField } from '../settings/game-settings';
+
+export interface GameControl {
+    keys: string[];
+    action: string;
+}
+
+export type SwipeDirection = 'up' | 'down' | 'left' | 'right';
+
+// On-screen controls for touch devices
+export interface TouchLayout {
+    // Actions for swipes anywhere on the game, and for a tap
+    swipe?: Partial<Record<SwipeDirection, InputAction>>;
+    tap?: InputAction;
+    // Pixels of horizontal drag per repeated left/right swipe action, for stepping pieces across
+    dragStep?: number;
+    // A virtual stick in the bottom-left corner
+    stick?: Partial<Record<SwipeDirection, InputAction>>;
+    buttons?: { action: InputAction; label: string }[];
+}
+
+export interface GameDescriptor {
+    // Route segment, e.g. /snake and /snake/play
+    id: string;
+    title: string;
+    subtitle: string;
+    icon: string;
+    // Accent and background colors for the intro screen
+    accent: string;
+    background: string;
+    // Side of the screen the exit button sits on while playing, clear of the game's HUD
+    toolbar: { side: 'left' | 'right'; offset?: number };
+    // Whether the game accepts a starting level (?level=N)
+    hasLevels: boolean;
+    // Tunables set by the difficulty presets, passed to the game as its settings input
+    settings: SettingField[];
+    loadComponent: () => Promise<Type<unknown>>;
+    // Remappable actions and their default keys
+    actions: GameAction[];
+    // Controls that aren't key bindings, listed alongside them in the help
+    extraControls?: GameControl[];
+    // Controllers beyond the first control a second player (default 1)
+    maxPlayers?: number;
+    // Delayed auto shift: held controller buttons for these actions repeat after delay ms, every interval ms
+    das?: { actions: InputAction[]; delay: number; interval: number };
+    touch: TouchLayout;
+    instructions: string[];
+}
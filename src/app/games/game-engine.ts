@@ -0,0 +1,46 @@
+import { GameEvent } from '../events/game-events';
+import { SoundName } from '../audio/sound-presets';
+import { TrackName } from '../audio/music-tracks';
+import { ActionPress, InputAction } from '../input/input-actions';
+
+// What an engine tells the arcade around it. Game components pass these on to the session,
+// audio and ghost services; tests simply collect them.
+export type EngineEvent =
+    // The session reseeds the random streams here, so it comes before the run draws anything
+    | { type: 'run-start' }
+    | { type: 'run-end'; score: number; level?: number }
+    // For the arcade's event stream
+    | { type: 'game'; event: GameEvent }
+    | { type: 'sound'; sound: SoundName; pitch?: number }
+    // A track to play, or null for silence
+    | { type: 'music'; track: TrackName | null }
+    // Score and position for the ghost race, once for each step of active play, and milestones reached
+    | { type: 'ghost-report'; score: number; x?: number; y?: number }
+    | { type: 'ghost-split'; count: number };
+
+export type EngineEmitter = (event: EngineEvent) => void;
+
+// Held controls for one step. GameInputService provides them in the arcade, test doubles elsewhere.
+export interface StepInput {
+    value(action: InputAction, player?: number): number;
+    isHeld(action: InputAction, player?: number): boolean;
+    axis(negative: InputAction, positive: InputAction, player?: number): number;
+    players(): number;
+    pointer(): number | null;
+}
+
+// Engines that can put their current state into words, for screen readers to read out when
+// the player asks
+export interface Describable {
+    describe(): string;
+}
+
+// A game's rules and state, free of Angular, the DOM and Web Audio. Presses are handled as
+// they come in, between steps, and each step advances the game by exactly dt milliseconds.
+// The snapshot is everything a run in progress needs to carry on later.
+export interface GameEngine<S> {
+    press(press: ActionPress): void;
+    step(input: StepInput, dt: number): void;
+    snapshot(): S;
+    restore(state: S): void;
+}
@@ -0,0 +1,205 @@
+import { GameDescriptor } from './game-descriptor';
+import { INVADERS_SETTINGS } from '../alien-invaders/invaders-settings';
+import { BUSTOUT_SETTINGS } from '../bustout-game/bustout-settings';
+import { HOPPER_SETTINGS } from '../hopper/hopper-settings';
+import { SNAKE_SETTINGS } from '../snake-game/snake-settings';
+import { ROCKS_SETTINGS } from '../space-rocks-game/rocks-settings';
+import { SHAPE_DROP_SETTINGS } from '../shape-drop/shape-drop-settings';
+
+// Every game in the arcade. The launcher menu, the routes, the intro screens,
+// the control help and the settings are all generated from this list.
+export const GAMES: GameDescriptor[] = [
+    {
+        id: 'alien-invaders',
+        title: 'ALIEN INVADERS',
+        subtitle: 'Defend the planet from the invasion',
+        icon: '👾',
+        accent: '#00ff00',
+        background: 'linear-gradient(180deg, #001a00 0%, #000000 100%)',
+        toolbar: { side: 'right' },
+        hasLevels: true,
+        settings: INVADERS_SETTINGS,
+        loadComponent: () => import('../alien-invaders/alien-invaders.component').then(m => m.AlienInvadersComponent),
+        actions: [
+            { id: 'move-left', label: 'Move left', keys: ['ArrowLeft', 'KeyA'], buttons: ['left'] },
+            { id: 'move-right', label: 'Move right', keys: ['ArrowRight', 'KeyD'], buttons: ['right'] },
+            { id: 'fire', label: 'Shoot', keys: ['Space'], buttons: ['south', 'r1'] },
+            { id: 'pause', label: 'Pause', keys: ['KeyP'], buttons: ['start'] },
+            { id: 'restart', label: 'Restart after game over', keys: ['KeyR'], buttons: ['north'] }
+        ],
+        touch: {
+            stick: { left: 'move-left', right: 'move-right' },
+            buttons: [
+                { action: 'fire', label: 'FIRE' },
+                { action: 'pause', label: '❚❚' },
+                { action: 'restart', label: '↻' }
+            ]
+        },
+        instructions: [
+            'Destroy all aliens to advance!',
+            'Hide behind the barriers to dodge alien fire',
+            'Shoot the mother ship for bonus points'
+        ]
+    },
+    {
+        id: 'bustout',
+        title: 'SUPER BUSTOUT',
+        subtitle: 'Classic Arcade Action',
+        icon: '🧱',
+        accent: '#E88038',
+        background: 'linear-gradient(180deg, #1a0a00 0%, #000000 100%)',
+        toolbar: { side: 'left', offset: 212 },
+        hasLevels: true,
+        settings: BUSTOUT_SETTINGS,
+        loadComponent: () => import('../bustout-game/bustout-game.component').then(m => m.BustoutGameComponent),
+        actions: [
+            { id: 'move-left', label: 'Move paddle left', keys: ['ArrowLeft', 'KeyA'], buttons: ['left'] },
+            { id: 'move-right', label: 'Move paddle right', keys: ['ArrowRight', 'KeyD'], buttons: ['right'] },
+            { id: 'start', label: 'Launch ball', keys: ['Space'], buttons: ['south'] },
+            { id: 'restart', label: 'Restart after game over', keys: ['KeyR'], buttons: ['north'] }
+        ],
+        extraControls: [
+            { keys: ['MOUSE'], action: 'Position paddle' }
+        ],
+        maxPlayers: 2,
+        // The paddle follows a dragging finger, like the mouse
+        touch: {
+            tap: 'start',
+            buttons: [{ action: 'restart', label: '↻' }]
+        },
+        instructions: [
+            'Break all bricks to advance levels',
+            'Higher bricks are worth more points',
+            "Don't let the ball fall!"
+        ]
+    },
+    {
+        id: 'hopper',
+        title: 'HOPPER',
+        subtitle: 'A Classic Arcade Adventure',
+        icon: '🐸',
+        accent: '#00ff00',
+        background: 'linear-gradient(180deg, #001a00 0%, #000033 100%)',
+        toolbar: { side: 'right' },
+        hasLevels: true,
+        settings: HOPPER_SETTINGS,
+        loadComponent: () => import('../hopper/hopper.component').then(m => m.HopperComponent),
+        actions: [
+            { id: 'move-up', label: 'Hop up', keys: ['ArrowUp', 'KeyW'], buttons: ['up'] },
+            { id: 'move-down', label: 'Hop down', keys: ['ArrowDown', 'KeyS'], buttons: ['down'] },
+            { id: 'move-left', label: 'Hop left', keys: ['ArrowLeft', 'KeyA'], buttons: ['left'] },
+            { id: 'move-right', label: 'Hop right', keys: ['ArrowRight', 'KeyD'], buttons: ['right'] },
+            { id: 'next-level', label: 'Skip to next level', keys: ['KeyN'] },
+            { id: 'restart', label: 'Restart after game over', keys: ['Enter'], buttons: ['start'] }
+        ],
+        touch: {
+            swipe: { up: 'move-up', down: 'move-down', left: 'move-left', right: 'move-right' },
+            tap: 'move-up',
+            buttons: [{ action: 'restart', label: '↻' }]
+        },
+        instructions: [
+            'Get to all 5 goals at the top!',
+            'Avoid cars, snakes, and alligators',
+            'Ride logs and turtles across the water',
+            'Catch the pink frog for bonus points!'
+        ]
+    },
+    {
+        id: 'snake',
+        title: 'SNAKE',
+        subtitle: 'Classic arcade game reimagined',
+        icon: '🐍',
+        accent: '#00ffff',
+        background: 'linear-gradient(135deg, #1a1a2e 0%, #16213e 100%)',
+        toolbar: { side: 'left' },
+        hasLevels: false,
+        settings: SNAKE_SETTINGS,
+        loadComponent: () => import('../snake-game/snake-game.component').then(m => m.SnakeGameComponent),
+        actions: [
+            { id: 'move-up', label: 'Move up', keys: ['ArrowUp', 'KeyW'], buttons: ['up'] },
+            { id: 'move-down', label: 'Move down', keys: ['ArrowDown', 'KeyS'], buttons: ['down'] },
+            { id: 'move-left', label: 'Move left', keys: ['ArrowLeft', 'KeyA'], buttons: ['left'] },
+            { id: 'move-right', label: 'Move right', keys: ['ArrowRight', 'KeyD'], buttons: ['right'] },
+            { id: 'start', label: 'Start / pause', keys: ['Space', 'Enter'], buttons: ['south', 'start'] },
+            { id: 'pause', label: 'Pause', keys: ['KeyP'] }
+        ],
+        touch: {
+            swipe: { up: 'move-up', down: 'move-down', left: 'move-left', right: 'move-right' },
+            tap: 'start'
+        },
+        instructions: [
+            'Eat apples to grow and score points',
+            'The snake speeds up with every apple',
+            "Don't hit the walls or your own tail!"
+        ]
+    },
+    {
+        id: 'space-rocks',
+        title: 'SPACE ROCKS',
+        subtitle: 'Classic Arcade Game',
+        icon: '🪨',
+        accent: '#00ff00',
+        background: 'linear-gradient(180deg, #000022 0%, #000000 100%)',
+        toolbar: { side: 'right' },
+        hasLevels: true,
+        settings: ROCKS_SETTINGS,
+        loadComponent: () => import('../space-rocks-game/space-rocks-game.component').then(m => m.SpaceRocksGameComponent),
+        actions: [
+            { id: 'thrust', label: 'Thrust', keys: ['ArrowUp', 'KeyW'], buttons: ['up', 'r2'] },
+            { id: 'rotate-left', label: 'Rotate left', keys: ['ArrowLeft', 'KeyA'], buttons: ['left'] },
+            { id: 'rotate-right', label: 'Rotate right', keys: ['ArrowRight', 'KeyD'], buttons: ['right'] },
+            { id: 'fire', label: 'Fire', keys: ['Space'], buttons: ['south', 'r1'] },
+            { id: 'pause', label: 'Pause', keys: ['KeyP'], buttons: ['start'] },
+            { id: 'restart', label: 'Restart after game over', keys: ['KeyR'], buttons: ['north'] }
+        ],
+        touch: {
+            stick: { left: 'rotate-left', right: 'rotate-right', up: 'thrust' },
+            buttons: [
+                { action: 'fire', label: 'FIRE' },
+                { action: 'pause', label: '❚❚' },
+                { action: 'restart', label: '↻' }
+            ]
+        },
+        instructions: [
+            'Blast the asteroids into smaller pieces',
+            'Smaller rocks are worth more points',
+            'Clear the field to advance a level'
+        ]
+    },
+    {
+        id: 'shape-drop',
+        title: 'SHAPE DROP',
+        subtitle: 'Fit the falling shapes together',
+        icon: '🟦',
+        accent: '#ff00ff',
+        background: 'linear-gradient(180deg, #1a0033 0%, #000000 100%)',
+        toolbar: { side: 'right' },
+        hasLevels: true,
+        settings: SHAPE_DROP_SETTINGS,
+        loadComponent: () => import('../shape-drop/shape-drop.component').then(m => m.ShapeDropComponent),
+        actions: [
+            { id: 'move-left', label: 'Move left', keys: ['ArrowLeft'], buttons: ['left'] },
+            { id: 'move-right', label: 'Move right', keys: ['ArrowRight'], buttons: ['right'] },
+            { id: 'rotate', label: 'Rotate', keys: ['ArrowUp'], buttons: ['east', 'north'] },
+            { id: 'soft-drop', label: 'Drop faster', keys: ['ArrowDown'], buttons: ['down'] },
+            { id: 'hard-drop', label: 'Instant drop', keys: ['Space'], buttons: ['south', 'up'] },
+            { id: 'pause', label: 'Pause', keys: ['KeyP'], buttons: ['start'] }
+        ],
+        das: { actions: ['move-left', 'move-right', 'soft-drop'], delay: 170, interval: 50 },
+        touch: {
+            swipe: { left: 'move-left', right: 'move-right', down: 'hard-drop' },
+            tap: 'rotate',
+            dragStep: 32,
+            buttons: [{ action: 'pause', label: '❚❚' }]
+        },
+        instructions: [
+            'Complete lines to score points!',
+            'Clear several lines at once for a bigger bonus',
+            'The shapes fall faster every 10 lines'
+        ]
+    }
+];
+
+export function findGame(id: string): GameDescriptor | undefined {
+    return GAMES.find(game => game.id === id);
+}
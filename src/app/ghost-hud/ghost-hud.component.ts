@@ -0,0 +1,19 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { GhostService } from '../ghosts/ghost.service';
+
+// How the run compares with the ghost: points ahead or behind right now, and the last split
+@Component({
+    selector: 'app-ghost-hud',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './ghost-hud.component.html',
+    styleUrls: ['./ghost-hud.component.css']
+})
+export class GhostHudComponent {
+    protected ghosts = inject(GhostService);
+
+    protected signed(value: number, digits = 0): string {
+        return (value > 0 ? '+' : value < 0 ? '−' : '±') + Math.abs(value).toFixed(digits);
+    }
+}
@@ -0,0 +1,23 @@
+// How a run went, step by step, for racing against later. Steps count from the start of the
+// run like a replay's, and positions are in the game's own units.
+export interface GhostTrack {
+    steps: number;
+    // [step, score] each time the score changed
+    scores: [number, number][];
+    // [step, x, y] each time the position changed, at most every few steps
+    points: [number, number, number][];
+    // The step each milestone was reached at: apples, goals or lines, depending on the game
+    splits: number[];
+}
+
+// Index of the last entry at or before the step, or -1
+export function lastAt(entries: { 0: number }[], step: number): number {
+    let low = 0;
+    let high = entries.length - 1;
+    while (low <= high) {
+        const middle = (low + high) >> 1;
+        if (entries[middle][0] <= step) low = middle + 1;
+        else high = middle - 1;
+    }
+    return high;
+}
@@ -0,0 +1,48 @@
+import { TestBed } from '@angular/core/testing';
+import { GhostService } from './ghost.service';
+import { ReplayService } from '../replays/replay.service';
+import { GameInputService } from '../input/game-input.service';
+import { RandomService } from '../random/random.service';
+import { FRAME_MS } from '../game-loop/frame-time';
+
+describe('GhostService', () => {
+    let ghosts: GhostService;
+    let replays: ReplayService;
+
+    // A loop step: the game reports it only while it's being played
+    function step(score: number | null): void {
+        replays.beforeStep();
+        if (score !== null) ghosts.report(score);
+    }
+
+    beforeEach(() => {
+        TestBed.configureTestingModule({ providers: [GhostService, ReplayService, GameInputService, RandomService] });
+        ghosts = TestBed.inject(GhostService);
+        replays = TestBed.inject(ReplayService);
+        ghosts.startRun();
+        // A ghost that scored a point every step
+        const scores = Array.from({ length: 100 }, (_, index): [number, number] => [index, index]);
+        ghosts.ghost.set({ steps: 100, scores, points: [], splits: [20] });
+    });
+
+    it('leaves the race where it was while the game is paused', () => {
+        for (let i = 0; i < 10; i++) step(i);
+        const delta = ghosts.delta();
+
+        for (let i = 0; i < 30; i++) step(null);
+        expect(ghosts.delta()).toBe(delta);
+        expect(ghosts.ghostSplits()).toBe(0);
+
+        step(10);
+        expect(ghosts.delta()).toBe(delta);
+    });
+
+    it('times splits in steps of play', () => {
+        for (let i = 0; i < 10; i++) step(i);
+        for (let i = 0; i < 30; i++) step(null);
+        for (let i = 10; i < 25; i++) step(i);
+        ghosts.split();
+        expect(ghosts.lastSplit()?.delta).toBeCloseTo((25 - 20) * FRAME_MS / 1000);
+        expect(ghosts.finishRun()?.steps).toBe(25);
+    });
+});
@@ -0,0 +1,119 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { HighScoreService } from '../scores/high-score.service';
+import { ReplayService } from '../replays/replay.service';
+import { FRAME_MS } from '../game-loop/frame-time';
+import { GhostTrack, lastAt } from './ghost-track';
+
+export interface Split {
+    // 1-based milestone number
+    index: number;
+    // Seconds behind the ghost, negative when ahead
+    delta: number;
+}
+
+// Fewest steps between recorded positions
+const POINT_GAP = 3;
+
+// Races the player against the best run of the active profile. Games that support it report
+// score, position and milestones as they play; that becomes the track stored with the score,
+// and the best score's track is what comes back as the ghost. The race runs on the steps the
+// game reports, one for each step of active play, so time spent paused doesn't count.
+// Provided by the game shell.
+@Injectable()
+export class GhostService {
+    private highScores = inject(HighScoreService);
+    private replays = inject(ReplayService);
+
+    private game = '';
+    private mode: string | undefined;
+    private track = this.emptyTrack();
+    private lastPointStep = -Infinity;
+    // Steps of active play in the run so far
+    private readonly clock = signal(0);
+
+    // The run being raced, if the best score left a track
+    readonly ghost = signal<GhostTrack | null>(null);
+    readonly score = signal(0);
+    readonly lastSplit = signal<Split | null>(null);
+
+    // Points ahead of the ghost at this moment of its run, negative when behind
+    readonly delta = computed(() => {
+        const ghost = this.ghost();
+        if (!ghost) return null;
+        const index = lastAt(ghost.scores, this.clock());
+        return this.score() - (index === -1 ? 0 : ghost.scores[index][1]);
+    });
+
+    use(game: string, mode?: string): void {
+        this.game = game;
+        this.mode = mode;
+    }
+
+    startRun(): void {
+        this.track = this.emptyTrack();
+        this.lastPointStep = -Infinity;
+        this.clock.set(0);
+        this.score.set(0);
+        this.lastSplit.set(null);
+        this.ghost.set(this.replays.playback() ? null : this.highScores.table(this.game, this.mode)[0]?.ghost ?? null);
+    }
+
+    // The finished run's track, or null if the game doesn't report one
+    finishRun(): GhostTrack | null {
+        if (this.track.scores.length === 0 && this.track.points.length === 0) return null;
+        return { ...this.track, steps: this.clock() };
+    }
+
+    // Called by the game once for each step of active play
+    report(score: number, x?: number, y?: number): void {
+        const step = this.clock();
+        this.clock.set(step + 1);
+        if (score !== this.score()) {
+            this.score.set(score);
+            this.track.scores.push([step, score]);
+        }
+        if (x === undefined || y === undefined || step - this.lastPointStep < POINT_GAP) return;
+
+        const [, lastX, lastY] = this.track.points[this.track.points.length - 1] ?? [];
+        x = Math.round(x);
+        y = Math.round(y);
+        if (x !== lastX || y !== lastY) {
+            this.track.points.push([step, x, y]);
+            this.lastPointStep = step;
+        }
+    }
+
+    split(count = 1): void {
+        const step = this.clock();
+        for (let i = 0; i < count; i++) this.track.splits.push(step);
+
+        const index = this.track.splits.length;
+        const ghostStep = this.ghost()?.splits[index - 1];
+        if (ghostStep !== undefined) {
+            this.lastSplit.set({ index, delta: (step - ghostStep) * FRAME_MS / 1000 });
+        }
+    }
+
+    // The ghost's latest positions, newest first; none once its run is over
+    trail(count: number): { x: number; y: number }[] {
+        const ghost = this.ghost();
+        const step = this.clock();
+        if (!ghost || step > ghost.steps) return [];
+
+        const last = lastAt(ghost.points, step);
+        return ghost.points
+            .slice(Math.max(0, last + 1 - count), last + 1)
+            .reverse()
+            .map(([, x, y]) => ({ x, y }));
+    }
+
+    // Milestones the ghost had reached by now
+    ghostSplits(): number {
+        const step = this.clock();
+        return this.ghost()?.splits.filter(splitStep => splitStep <= step).length ?? 0;
+    }
+
+    private emptyTrack(): GhostTrack {
+        return { steps: 0, scores: [], points: [], splits: [] };
+    }
+}
@@ -0,0 +1,30 @@
+import { Component, computed, inject, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { HighScoreService } from '../scores/high-score.service';
+import { Preset } from '../settings/game-settings';
+
+@Component({
+    selector: 'app-high-score-table',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './high-score-table.component.html',
+    styleUrls: ['./high-score-table.component.css']
+})
+export class HighScoreTableComponent {
+    private highScores = inject(HighScoreService);
+
+    game = input.required<string>();
+    mode = input<string>();
+    // Rank (0-based) of an entry whose replay was picked
+    watch = output<number>();
+
+    protected readonly presetLabels: Record<Preset, string> = { easy: 'E', normal: 'N', hard: 'H', custom: 'C' };
+
+    protected entries = computed(() => this.highScores.table(this.game(), this.mode()));
+
+    protected formatDuration(ms: number | undefined): string {
+        if (ms === undefined) return '—';
+        const seconds = Math.floor(ms / 1000);
+        return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+    }
+}
@@ -1,27 +1,59 @@
-import { Component, signal } from '@angular/core';
+import { Component, DestroyRef, HostListener, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { InvadersHomeComponent } from '../invaders-home/invaders-home.component';
-import { BustoutHomeComponent } from '../bustout-home/bustout-home.component';
-import { HopperHomeComponent } from '../hopper-home/hopper-home.component';
-import { SnakeHomeComponent } from '../snake-home/snake-home.component';
-import { SpaceRocksHomeComponent } from '../space-rocks-home/space-rocks-home.component';
-import { ShapeDropHomeComponent } from '../shape-drop-home/shape-drop-home.component';
+import { RouterLink } from '@angular/router';
+import { GAMES } from '../games/game-registry';
+import { AudioControlsComponent } from '../audio-controls/audio-controls.component';
+import { DisplayControlsComponent } from '../display-controls/display-controls.component';
+import { ProfileMenuComponent } from '../profile-menu/profile-menu.component';
+import { AttractModeComponent } from '../attract-mode/attract-mode.component';
+import { SavedRunsService } from '../saves/saved-runs.service';
+import { arrowFocus } from '../focus/arrow-focus';
+
+// How long the menu sits untouched before the attract loop starts
+const IDLE_MS = 30000;
 
 @Component({
     selector: 'app-home',
     standalone: true,
-    imports: [CommonModule, InvadersHomeComponent, BustoutHomeComponent, HopperHomeComponent, SnakeHomeComponent, SpaceRocksHomeComponent, ShapeDropHomeComponent],
+    imports: [CommonModule, RouterLink, AudioControlsComponent, DisplayControlsComponent, ProfileMenuComponent, AttractModeComponent],
     templateUrl: './home.component.html',
     styleUrls: ['./home.component.css']
 })
 export class HomeComponent {
-    protected selectedGame = signal<string | null>(null);
+    protected readonly games = GAMES;
+    protected saves = inject(SavedRunsService);
+    // The game whose intro the player came back from, whose button gets focus
+    protected returnedFrom: string | undefined = history.state?.from;
+
+    protected attract = signal(false);
+    private idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    constructor() {
+        this.resetIdle();
+        inject(DestroyRef).onDestroy(() => clearTimeout(this.idleTimer));
+    }
+
+    @HostListener('window:keydown')
+    @HostListener('window:pointerdown')
+    @HostListener('window:pointermove')
+    @HostListener('window:wheel')
+    protected resetIdle(): void {
+        clearTimeout(this.idleTimer);
+        if (this.attract()) return;
+        this.idleTimer = setTimeout(() => {
+            // No one is watching a hidden tab, so wait until it's back
+            if (document.visibilityState === 'hidden') this.resetIdle();
+            else this.attract.set(true);
+        }, IDLE_MS);
+    }
 
-    selectGame(game: string): void {
-        this.selectedGame.set(game);
+    // The arrow keys step through the games
+    protected moveFocus(event: KeyboardEvent): void {
+        arrowFocus(event, [...(event.currentTarget as HTMLElement).querySelectorAll<HTMLElement>('.game-button')]);
     }
 
-    backToMenu(): void {
-        this.selectedGame.set(null);
+    protected endAttract(): void {
+        this.attract.set(false);
+        this.resetIdle();
     }
 }
@@ -0,0 +1,103 @@
+import { Bot, BotMove } from '../bots/bot';
+import { CANVAS_WIDTH, CELL_SIZE, FROG_SIZE, GoalObservation, HopperAction, HopperObservation, LaneObject } from './hopper-engine';
+
+// Frames ahead a hop has to stay safe for, and frames between hops
+const LOOKAHEAD = 24;
+const HOP_FRAMES = 8;
+
+const HOPS: { action: HopperAction; dx: number; dy: number }[] = [
+    { action: 'move-up', dx: 0, dy: -1 },
+    { action: 'move-left', dx: -1, dy: 0 },
+    { action: 'move-right', dx: 1, dy: 0 },
+    { action: 'move-down', dx: 0, dy: 1 }
+];
+
+// Looks ahead at the traffic and the river and only hops where it will stay safe for a
+// moment: forwards when it can, sideways towards an empty bay when it can't, and back when
+// staying put would get it run over or swept off the edge.
+export class HopperCrosser implements Bot<HopperObservation, HopperAction> {
+    readonly name = 'crosser';
+
+    private wait = 0;
+
+    reset(): void {
+        this.wait = 0;
+    }
+
+    move(observation: HopperObservation): BotMove<HopperAction> {
+        if (--this.wait > 0) return {};
+
+        const { frog, goals } = observation;
+        const row = Math.round(frog.y / CELL_SIZE);
+        const bay = this.nearestBay(frog.x, goals);
+        const lined = bay === null || (frog.x >= bay.x && frog.x + FROG_SIZE <= bay.x + bay.width);
+        const towardsBay = lined ? 0 : Math.sign(bay.x + bay.width / 2 - (frog.x + FROG_SIZE / 2));
+
+        // Up first; then holding still; then sideways towards the bay, and back as a last resort
+        const sideways = HOPS.filter(hop => hop.dx !== 0).sort((a, b) => (b.dx === towardsBay ? 1 : 0) - (a.dx === towardsBay ? 1 : 0));
+        const choices: (typeof HOPS[number] | null)[] = [HOPS[0], null, ...sideways, HOPS[3]];
+        for (const hop of choices) {
+            const x = frog.x + (hop?.dx ?? 0) * CELL_SIZE;
+            const y = row + (hop?.dy ?? 0);
+            if (x < 0 || x > CANVAS_WIDTH - FROG_SIZE || y < 1 || y > 14) continue;
+            // Lining up with a bay is worth a sideways hop on safe ground
+            if (!hop && towardsBay !== 0 && isLand(row) && isSafe(observation, x + towardsBay * CELL_SIZE, row)) continue;
+            if (!isSafe(observation, x, y)) continue;
+            if (!hop) return {};
+            this.wait = HOP_FRAMES;
+            return { press: [hop.action] };
+        }
+        return {};
+    }
+
+    private nearestBay(x: number, goals: GoalObservation[]): GoalObservation | null {
+        const open = goals.filter(goal => !goal.filled && !goal.alligator);
+        const centre = x + FROG_SIZE / 2;
+        return open.reduce<GoalObservation | null>((best, goal) =>
+            !best || Math.abs(goal.x + goal.width / 2 - centre) < Math.abs(best.x + best.width / 2 - centre) ? goal : best, null);
+    }
+}
+
+function isLand(row: number): boolean {
+    return row === 7 || row >= 13;
+}
+
+function isSafe(observation: HopperObservation, x: number, row: number): boolean {
+    if (row === 1) {
+        // Inside an empty bay, with no alligator in it
+        return observation.goals.some(goal => !goal.filled && !goal.alligator && x >= goal.x && x + FROG_SIZE <= goal.x + goal.width);
+    }
+    if (row >= 2 && row <= 6) {
+        // On something that carries it without taking it off the edge or into a snake
+        const y = row * CELL_SIZE;
+        const platform = [...observation.logs, ...observation.turtles]
+            .find(p => p.y === y && x + 4 >= p.x && x + FROG_SIZE - 4 <= p.x + p.width);
+        if (!platform) return false;
+        const drifted = x + platform.speed * LOOKAHEAD;
+        if (drifted < 0 || drifted > CANVAS_WIDTH - FROG_SIZE) return false;
+        return observation.snakes.every(snake => snake.y !== y || clearOf(snake, x, platform.speed));
+    }
+    if (row >= 8 && row <= 12) {
+        const y = row * CELL_SIZE;
+        return observation.cars.every(car => car.y !== y || clearOf(car, x, 0));
+    }
+    return true;
+}
+
+// Whether something in a lane keeps off the frog for the look-ahead, with the frog drifting
+// at its own speed
+function clearOf(thing: LaneObject, x: number, drift: number): boolean {
+    const margin = 6;
+    for (let frame = 0; frame <= LOOKAHEAD; frame += 2) {
+        const frogX = x + drift * frame;
+        const thingX = wrap(thing.x + thing.speed * frame, thing.width);
+        if (frogX < thingX + thing.width + margin && frogX + FROG_SIZE + margin > thingX) return false;
+    }
+    return true;
+}
+
+// Lane objects leave one side of the field and come back in at the other
+function wrap(x: number, width: number): number {
+    const span = CANVAS_WIDTH + width;
+    return ((((x + width) % span) + span) % span) - width;
+}
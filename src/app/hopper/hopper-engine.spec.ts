@@ -0,0 +1,103 @@
+import { RandomStream } from '../random/random-stream';
+import { FRAME_MS } from '../game-loop/frame-time';
+import { EventLog, HeldInput, tap } from '../games/engine-test-doubles';
+import { Alligator, CANVAS_WIDTH, CELL_SIZE, HopperEngine, HopperSnapshot } from './hopper-engine';
+
+describe('HopperEngine', () => {
+    const input = new HeldInput();
+    const START_Y = 14 * CELL_SIZE;
+    // Just inside the middle of the five homes
+    const MIDDLE_HOME_X = 2 * (CANVAS_WIDTH / 5) + 72;
+    let events: EventLog;
+    let engine: HopperEngine;
+
+    function gator(isActive: boolean): Alligator {
+        return { goalIndex: 2, isActive, timer: 1000, activeTime: 120, inactiveTime: 180 };
+    }
+
+    // The frog on the bank below the homes, about to hop in
+    function playFrom(state: Partial<HopperSnapshot>): void {
+        const snapshot = engine.snapshot();
+        engine.restore({
+            ...snapshot,
+            frog: { ...snapshot.frog, x: MIDDLE_HOME_X, prevX: MIDDLE_HOME_X, y: 1 * CELL_SIZE },
+            femaleFrog: null,
+            ...state
+        });
+        engine.step(input, FRAME_MS);
+    }
+
+    beforeEach(() => {
+        events = new EventLog();
+        engine = new HopperEngine(3, new RandomStream(1), events.emit);
+    });
+
+    it('waits with the frog at the bottom until the first hop starts the run', () => {
+        const cars = engine.cars.map(car => car.x);
+        engine.step(input, FRAME_MS);
+        engine.press(tap('restart'));
+        expect(events.of('run-start').length).toBe(0);
+        expect(engine.cars.map(car => car.x)).toEqual(cars);
+        expect(engine.frog.y).toBe(START_Y);
+        expect(engine.lives).toBe(3);
+
+        engine.press(tap('move-up'));
+        expect(events.of('run-start').length).toBe(1);
+        expect(engine.frog.y).toBe(START_Y - CELL_SIZE);
+    });
+
+    it('scores a hop forward', () => {
+        engine.press(tap('move-up'));
+
+        expect(engine.frog.y).toBe(START_Y - CELL_SIZE);
+        expect(engine.score).toBe(10);
+        expect(events.sounds()).toContain('hopper.hop');
+    });
+
+    it('is killed by an alligator waiting in the home', () => {
+        playFrom({ alligators: [gator(true)] });
+
+        expect(engine.lives).toBe(2);
+        expect(engine.goals[2]).toBe(false);
+        expect(engine.frog.y).toBe(START_Y);
+        expect(events.of('game').map(e => e.event)).toContainEqual({ type: 'life-lost', livesLeft: 2, cause: 'alligator' });
+    });
+
+    it('fills the home once the alligator has gone under', () => {
+        playFrom({ alligators: [gator(false)], score: 0 });
+
+        expect(engine.lives).toBe(3);
+        expect(engine.goals[2]).toBe(true);
+        expect(engine.score).toBe(100);
+        expect(events.of('ghost-split').length).toBe(1);
+    });
+
+    it('counts a full home as hitting the bank', () => {
+        playFrom({ alligators: [], goals: [false, false, true, false, false] });
+
+        expect(engine.lives).toBe(2);
+        expect(events.of('game').map(e => e.event)).toContainEqual({ type: 'life-lost', livesLeft: 2, cause: 'bank' });
+    });
+
+    it('moves up a level when every home is filled', () => {
+        playFrom({ alligators: [], goals: [true, true, false, true, true] });
+
+        expect(engine.level).toBe(4);
+        expect(engine.goals.every(goal => !goal)).toBe(true);
+    });
+
+    it('drowns a frog that jumps into open water', () => {
+        const snapshot = engine.snapshot();
+        engine.restore({ ...snapshot, frog: { ...snapshot.frog, y: 4 * CELL_SIZE }, logs: [], turtles: [], snakes: [] });
+        engine.step(input, FRAME_MS);
+
+        expect(events.of('game').map(e => e.event)).toContainEqual({ type: 'life-lost', livesLeft: 2, cause: 'water' });
+    });
+
+    it('ends the run with the last life', () => {
+        playFrom({ alligators: [gator(true)], lives: 1 });
+
+        expect(engine.gameOver).toBe(true);
+        expect(events.of('run-end')).toEqual([{ type: 'run-end', score: engine.score, level: 3 }]);
+    });
+});
@@ -0,0 +1,511 @@
+import { ActionPress } from '../input/input-actions';
+import { RandomStream } from '../random/random-stream';
+import { FRAME_MS } from '../game-loop/frame-time';
+import { Describable, EngineEmitter, GameEngine, StepInput } from '../games/game-engine';
+import { across, cells, plural } from '../games/game-description';
+import { Observation } from '../bots/bot';
+import { presetValues } from '../settings/game-settings';
+import { HOPPER_SETTINGS, HopperSettings } from './hopper-settings';
+
+export interface GameObject {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    speed: number;
+    // Position at the previous simulation step, for interpolated rendering
+    prevX?: number;
+}
+
+export interface Snake extends GameObject {
+    logIndex: number;
+    direction: number;
+    localX: number;
+}
+
+export interface Alligator {
+    goalIndex: number;
+    isActive: boolean;
+    timer: number;
+    activeTime: number;
+    inactiveTime: number;
+}
+
+export interface FemaleFrog {
+    goalIndex: number;
+    isActive: boolean;
+    timer: number;
+    duration: number;
+}
+
+// Everything a run in progress needs to carry on later
+export interface HopperSnapshot {
+    frog: GameObject;
+    cars: GameObject[];
+    logs: GameObject[];
+    turtles: GameObject[];
+    snakes: Snake[];
+    alligators: Alligator[];
+    femaleFrog: FemaleFrog | null;
+    goals: boolean[];
+    score: number;
+    lives: number;
+    level: number;
+}
+
+export const CANVAS_WIDTH = 896;
+export const CANVAS_HEIGHT = 512;
+export const CELL_SIZE = 32;
+export const FROG_SIZE = 24;
+
+export const HOPPER_ACTIONS = ['move-up', 'move-down', 'move-left', 'move-right'] as const;
+export type HopperAction = typeof HOPPER_ACTIONS[number];
+
+// Something in a lane, in pixels; speed is per 60 Hz frame, negative to the left
+export interface LaneObject {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    speed: number;
+}
+
+// A bay at the top of the field, and what's in it right now
+export interface GoalObservation {
+    x: number;
+    width: number;
+    filled: boolean;
+    alligator: boolean;
+    bonusFrog: boolean;
+}
+
+// The field as a bot sees it. Each hop is one CELL_SIZE row or column.
+export interface HopperObservation extends Observation {
+    frog: { x: number; y: number; width: number; height: number };
+    cars: LaneObject[];
+    logs: LaneObject[];
+    turtles: LaneObject[];
+    snakes: LaneObject[];
+    goals: GoalObservation[];
+    lives: number;
+    level: number;
+}
+
+// Hopper on a fixed 896 × 512 field of 32-pixel rows: goals at the top, the river,
+// the middle bank, the road and the start
+export class HopperEngine implements GameEngine<HopperSnapshot>, Describable {
+    private rng: RandomStream;
+    private emit: EngineEmitter;
+    private startLevel: number;
+    private settings: HopperSettings;
+
+    frog: GameObject = { x: 14 * CELL_SIZE, y: 14 * CELL_SIZE, width: FROG_SIZE, height: FROG_SIZE, speed: 0 };
+
+    cars: GameObject[] = [];
+    logs: GameObject[] = [];
+    turtles: GameObject[] = [];
+    snakes: Snake[] = [];
+    alligators: Alligator[] = [];
+    femaleFrog: FemaleFrog | null = null;
+
+    score = 0;
+    lives = 3;
+    // The run starts with the first hop; until then nothing moves
+    started = false;
+    gameOver = false;
+    won = false;
+    level = 1;
+
+    goals: boolean[] = [false, false, false, false, false];
+
+    constructor(startLevel: number, rng: RandomStream, emit: EngineEmitter, settings: HopperSettings = presetValues(HOPPER_SETTINGS, 'normal')) {
+        this.startLevel = startLevel;
+        this.rng = rng;
+        this.emit = emit;
+        this.settings = settings;
+        this.lives = settings.lives;
+        this.initGame();
+    }
+
+    // The frog is out on the river, which has music of its own
+    get onRiver(): boolean {
+        const frogRow = Math.floor(this.frog.y / CELL_SIZE);
+        return frogRow >= 2 && frogRow <= 6;
+    }
+
+    press({ action, repeat }: ActionPress): void {
+        const moveAmount = CELL_SIZE;
+
+        if (!this.started) {
+            if (!action.startsWith('move-')) return;
+            this.startRun();
+        }
+
+        if (action === 'restart') {
+            if (this.gameOver || this.won) this.resetGame();
+            return;
+        }
+
+        if (action === 'next-level') {
+            if (repeat) return;
+            this.level++;
+            this.goals = [false, false, false, false, false];
+            this.createObstacles();
+            this.resetFrog();
+            this.emit({ type: 'sound', sound: 'hopper.levelUp' });
+            return;
+        }
+
+        if (this.gameOver || this.won) return;
+
+        switch (action) {
+            case 'move-up':
+                if (this.frog.y > CELL_SIZE) {
+                    this.frog.y -= moveAmount;
+                    this.score += 10;
+                    this.emit({ type: 'sound', sound: 'hopper.hop' });
+                }
+                break;
+            case 'move-down':
+                if (this.frog.y < 14 * CELL_SIZE) {
+                    this.frog.y += moveAmount;
+                    this.emit({ type: 'sound', sound: 'hopper.hop' });
+                }
+                break;
+            case 'move-left':
+                if (this.frog.x > 0) {
+                    this.frog.x -= moveAmount;
+                    this.emit({ type: 'sound', sound: 'hopper.hop' });
+                }
+                break;
+            case 'move-right':
+                if (this.frog.x < CANVAS_WIDTH - FROG_SIZE) {
+                    this.frog.x += moveAmount;
+                    this.emit({ type: 'sound', sound: 'hopper.hop' });
+                }
+                break;
+        }
+    }
+
+    step(_input: StepInput, dt: number): void {
+        if (!this.started || this.gameOver || this.won) return;
+        this.emit({ type: 'ghost-report', score: this.score, x: this.frog.x, y: this.frog.y });
+
+        // Speeds and timers are tuned per 60 Hz frame
+        const frames = dt / FRAME_MS;
+
+        this.frog.prevX = this.frog.x;
+        [...this.cars, ...this.logs, ...this.turtles].forEach(lane => this.moveLaneObject(lane, frames));
+
+        this.snakes.forEach(snake => {
+            const log = this.logs[snake.logIndex];
+            snake.prevX = snake.x;
+            snake.localX += snake.speed * snake.direction * frames;
+            if (snake.localX <= 0 || snake.localX >= log.width - snake.width) {
+                snake.direction *= -1;
+                snake.localX = Math.max(0, Math.min(log.width - snake.width, snake.localX));
+            }
+            snake.x = log.x + snake.localX;
+            snake.y = log.y;
+            snake.speed = log.speed;
+            // Don't interpolate across the screen when the log wraps around
+            if (log.prevX === log.x) snake.prevX = snake.x;
+        });
+
+        this.alligators.forEach(gator => {
+            gator.timer -= frames;
+            if (gator.timer <= 0) {
+                gator.isActive = !gator.isActive;
+                gator.timer = gator.isActive ? gator.activeTime : gator.inactiveTime;
+            }
+        });
+
+        if (this.femaleFrog) {
+            this.femaleFrog.timer -= frames;
+            if (this.femaleFrog.timer <= 0) this.femaleFrog = null;
+        }
+
+        this.checkCollisions(frames);
+    }
+
+    snapshot(): HopperSnapshot {
+        const { frog, cars, logs, turtles, snakes, alligators, femaleFrog, goals, score, lives, level } = this;
+        return { frog, cars, logs, turtles, snakes, alligators, femaleFrog, goals, score, lives, level };
+    }
+
+    restore(state: HopperSnapshot): void {
+        Object.assign(this, state);
+        this.started = true;
+    }
+
+    observe(): HopperObservation {
+        const lane = ({ x, y, width, height, speed }: GameObject): LaneObject => ({ x, y, width, height, speed });
+        return {
+            score: this.score,
+            over: this.gameOver,
+            frog: { x: this.frog.x, y: this.frog.y, width: this.frog.width, height: this.frog.height },
+            cars: this.cars.map(lane),
+            logs: this.logs.map(lane),
+            turtles: this.turtles.map(lane),
+            snakes: this.snakes.map(lane),
+            goals: this.goals.map((filled, index) => ({
+                x: index * (CANVAS_WIDTH / 5) + 60,
+                width: 80,
+                filled,
+                alligator: this.alligators.some(gator => gator.goalIndex === index && gator.isActive),
+                bonusFrog: this.femaleFrog?.goalIndex === index && this.femaleFrog.isActive
+            })),
+            lives: this.lives,
+            level: this.level
+        };
+    }
+
+    describe(): string {
+        if (this.gameOver) return `Game over. Final score ${this.score}, level ${this.level}.`;
+        if (this.won) return `You win! Final score ${this.score}.`;
+        const row = Math.round(this.frog.y / CELL_SIZE);
+        const homes = this.goals.filter(Boolean).length;
+        const parts = [
+            `Score ${this.score}, ${plural(this.lives, 'life', 'lives')}, level ${this.level}. ${homes} of 5 homes filled.`,
+            `The frog is ${placeOf(row)}, ${across(this.frog.x + FROG_SIZE / 2, CANVAS_WIDTH)}.`
+        ];
+
+        // What's in the lane ahead, nearest first
+        const ahead = row - 1;
+        const lane = (objects: GameObject[]) => objects.filter(object => Math.round(object.y / CELL_SIZE) === ahead);
+        const centre = (object: GameObject) => object.x + object.width / 2;
+        const nearest = (objects: GameObject[]) => objects.reduce<GameObject | null>((best, object) =>
+            !best || Math.abs(centre(object) - centre(this.frog)) < Math.abs(centre(best) - centre(this.frog)) ? object : best, null);
+        const say = (name: string, object: GameObject | null) => {
+            if (!object) return;
+            const offset = cells(Math.round((centre(object) - centre(this.frog)) / CELL_SIZE), 'to the right', 'to the left');
+            parts.push(`Ahead, the nearest ${name} is ${offset ?? 'straight in front'}, moving ${object.speed > 0 ? 'right' : 'left'}.`);
+        };
+        if (ahead >= 8 && ahead <= 12) say('car', nearest(lane(this.cars)));
+        if (ahead >= 2 && ahead <= 6) say('log or turtle', nearest([...lane(this.logs), ...lane(this.turtles)]));
+        return parts.join(' ');
+    }
+
+    private initGame(): void {
+        this.level = this.startLevel;
+        this.resetFrog();
+        this.createObstacles();
+        this.emit({ type: 'music', track: 'hopper' });
+    }
+
+    // The lanes are laid out again once the run's random streams are seeded
+    private startRun(): void {
+        this.started = true;
+        this.emit({ type: 'run-start' });
+        this.createObstacles();
+    }
+
+    private resetGame(): void {
+        this.emit({ type: 'run-start' });
+        this.score = 0;
+        this.lives = this.settings.lives;
+        this.gameOver = false;
+        this.won = false;
+        this.level = this.startLevel;
+        this.goals = [false, false, false, false, false];
+        this.createObstacles();
+        this.resetFrog();
+        this.emit({ type: 'music', track: 'hopper' });
+    }
+
+    private createObstacles(): void {
+        const speedMultiplier = this.settings.laneSpeed + (this.level - 1) * this.settings.levelSpeedup;
+
+        this.cars = [
+            { x: 0, y: 8 * CELL_SIZE, width: 48, height: 24, speed: 2 * speedMultiplier },
+            { x: 200, y: 8 * CELL_SIZE, width: 48, height: 24, speed: 2 * speedMultiplier },
+            { x: 400, y: 8 * CELL_SIZE, width: 48, height: 24, speed: 2 * speedMultiplier },
+            { x: 600, y: 8 * CELL_SIZE, width: 48, height: 24, speed: 2 * speedMultiplier },
+            { x: 0, y: 9 * CELL_SIZE, width: 40, height: 24, speed: -1.5 * speedMultiplier },
+            { x: 250, y: 9 * CELL_SIZE, width: 40, height: 24, speed: -1.5 * speedMultiplier },
+            { x: 500, y: 9 * CELL_SIZE, width: 40, height: 24, speed: -1.5 * speedMultiplier },
+            { x: 750, y: 9 * CELL_SIZE, width: 40, height: 24, speed: -1.5 * speedMultiplier },
+            { x: 0, y: 10 * CELL_SIZE, width: 56, height: 24, speed: 3 * speedMultiplier },
+            { x: 300, y: 10 * CELL_SIZE, width: 56, height: 24, speed: 3 * speedMultiplier },
+            { x: 600, y: 10 * CELL_SIZE, width: 56, height: 24, speed: 3 * speedMultiplier },
+            { x: 0, y: 11 * CELL_SIZE, width: 40, height: 24, speed: -2.5 * speedMultiplier },
+            { x: 220, y: 11 * CELL_SIZE, width: 40, height: 24, speed: -2.5 * speedMultiplier },
+            { x: 440, y: 11 * CELL_SIZE, width: 40, height: 24, speed: -2.5 * speedMultiplier },
+            { x: 660, y: 11 * CELL_SIZE, width: 40, height: 24, speed: -2.5 * speedMultiplier },
+            { x: 0, y: 12 * CELL_SIZE, width: 48, height: 24, speed: 1.5 * speedMultiplier },
+            { x: 250, y: 12 * CELL_SIZE, width: 48, height: 24, speed: 1.5 * speedMultiplier },
+            { x: 500, y: 12 * CELL_SIZE, width: 48, height: 24, speed: 1.5 * speedMultiplier },
+            { x: 750, y: 12 * CELL_SIZE, width: 48, height: 24, speed: 1.5 * speedMultiplier },
+        ];
+
+        this.logs = [
+            { x: 0, y: 2 * CELL_SIZE, width: 128, height: 24, speed: 1.5 * speedMultiplier },
+            { x: 300, y: 2 * CELL_SIZE, width: 128, height: 24, speed: 1.5 * speedMultiplier },
+            { x: 600, y: 2 * CELL_SIZE, width: 128, height: 24, speed: 1.5 * speedMultiplier },
+            { x: 0, y: 3 * CELL_SIZE, width: 160, height: 24, speed: -2 * speedMultiplier },
+            { x: 350, y: 3 * CELL_SIZE, width: 160, height: 24, speed: -2 * speedMultiplier },
+            { x: 700, y: 3 * CELL_SIZE, width: 160, height: 24, speed: -2 * speedMultiplier },
+            { x: 0, y: 5 * CELL_SIZE, width: 96, height: 24, speed: 2.5 * speedMultiplier },
+            { x: 250, y: 5 * CELL_SIZE, width: 96, height: 24, speed: 2.5 * speedMultiplier },
+            { x: 500, y: 5 * CELL_SIZE, width: 96, height: 24, speed: 2.5 * speedMultiplier },
+            { x: 750, y: 5 * CELL_SIZE, width: 96, height: 24, speed: 2.5 * speedMultiplier },
+        ];
+
+        this.turtles = [
+            { x: 0, y: 4 * CELL_SIZE, width: 72, height: 24, speed: -1 * speedMultiplier },
+            { x: 220, y: 4 * CELL_SIZE, width: 72, height: 24, speed: -1 * speedMultiplier },
+            { x: 440, y: 4 * CELL_SIZE, width: 72, height: 24, speed: -1 * speedMultiplier },
+            { x: 660, y: 4 * CELL_SIZE, width: 72, height: 24, speed: -1 * speedMultiplier },
+            { x: 0, y: 6 * CELL_SIZE, width: 80, height: 24, speed: 1.8 * speedMultiplier },
+            { x: 250, y: 6 * CELL_SIZE, width: 80, height: 24, speed: 1.8 * speedMultiplier },
+            { x: 500, y: 6 * CELL_SIZE, width: 80, height: 24, speed: 1.8 * speedMultiplier },
+            { x: 750, y: 6 * CELL_SIZE, width: 80, height: 24, speed: 1.8 * speedMultiplier },
+        ];
+
+        this.snakes = [];
+        if (this.level >= 2) {
+            this.snakes.push({ x: 0, y: 2 * CELL_SIZE, width: 32, height: 20, speed: 0.8, logIndex: 1, direction: 1, localX: 20 });
+        }
+        if (this.level >= 3) {
+            this.snakes.push({ x: 0, y: 3 * CELL_SIZE, width: 32, height: 20, speed: 0.8, logIndex: 4, direction: -1, localX: 80 });
+        }
+        if (this.level >= 5) {
+            this.snakes.push({ x: 0, y: 5 * CELL_SIZE, width: 32, height: 20, speed: 0.8, logIndex: 7, direction: 1, localX: 30 });
+        }
+
+        this.alligators = [];
+        if (this.level >= 3) {
+            const alligatorGoals = this.level >= 6 ? [0, 2, 4] : this.level >= 4 ? [1, 3] : [2];
+            alligatorGoals.forEach(goalIndex => {
+                this.alligators.push({ goalIndex, isActive: false, timer: this.rng.next() * 180 + 60, activeTime: 120, inactiveTime: 180 });
+            });
+        }
+
+        this.femaleFrog = null;
+        if (this.level >= 2 && this.rng.chance(0.3)) {
+            const emptyGoals = [];
+            for (let i = 0; i < 5; i++) {
+                if (!this.goals[i]) emptyGoals.push(i);
+            }
+            if (emptyGoals.length > 0) {
+                const randomGoal = this.rng.pick(emptyGoals);
+                this.femaleFrog = { goalIndex: randomGoal, isActive: true, timer: 600, duration: 600 };
+            }
+        }
+    }
+
+    private moveLaneObject(obj: GameObject, frames: number): void {
+        obj.prevX = obj.x;
+        obj.x += obj.speed * frames;
+
+        // Wrap around, without interpolating across the whole screen
+        if (obj.speed > 0 && obj.x > CANVAS_WIDTH) obj.x = obj.prevX = -obj.width;
+        if (obj.speed < 0 && obj.x < -obj.width) obj.x = obj.prevX = CANVAS_WIDTH;
+    }
+
+    private checkCollisions(frames: number): void {
+        const frogRow = Math.floor(this.frog.y / CELL_SIZE);
+
+        if (frogRow === 1) {
+            const goalIndex = Math.floor((this.frog.x + FROG_SIZE / 2) / (CANVAS_WIDTH / 5));
+            const goalX = goalIndex * (CANVAS_WIDTH / 5) + 60;
+            const goalWidth = 80;
+
+            if (goalIndex >= 0 && goalIndex < 5 && this.frog.x + FROG_SIZE > goalX && this.frog.x < goalX + goalWidth) {
+                const alligator = this.alligators.find(g => g.goalIndex === goalIndex);
+                if (alligator && alligator.isActive) {
+                    this.loseLife('alligator');
+                    return;
+                }
+
+                let bonusPoints = 0;
+                if (this.femaleFrog && this.femaleFrog.goalIndex === goalIndex && this.femaleFrog.isActive) {
+                    bonusPoints = 500;
+                    this.femaleFrog = null;
+                    this.emit({ type: 'sound', sound: 'hopper.bonus' });
+                }
+
+                if (!this.goals[goalIndex]) {
+                    this.goals[goalIndex] = true;
+                    this.score += 100 + bonusPoints;
+                    if (bonusPoints === 0) this.emit({ type: 'sound', sound: 'hopper.goal' });
+                    this.emit({ type: 'game', event: { type: 'goal-reached', rescued: bonusPoints > 0 } });
+                    this.emit({ type: 'ghost-split', count: 1 });
+                    this.resetFrog();
+
+                    if (this.goals.every(g => g)) {
+                        this.level++;
+                        this.emit({ type: 'sound', sound: 'hopper.levelUp' });
+                        this.emit({ type: 'game', event: { type: 'level-up', level: this.level } });
+                        this.goals = [false, false, false, false, false];
+                        this.createObstacles();
+                        this.resetFrog();
+                    }
+                } else {
+                    this.loseLife('bank');
+                }
+            } else {
+                this.loseLife('bank');
+            }
+            return;
+        }
+
+        if (frogRow >= 2 && frogRow <= 6) {
+            let onPlatform = false;
+            [...this.logs, ...this.turtles].forEach(platform => {
+                if (this.checkOverlap(this.frog, platform)) {
+                    onPlatform = true;
+                    this.frog.x += platform.speed * frames;
+                }
+            });
+
+            if (!onPlatform || this.frog.x < 0 || this.frog.x > CANVAS_WIDTH - FROG_SIZE) {
+                this.loseLife('water');
+                return;
+            }
+
+            this.snakes.forEach(snake => {
+                if (this.checkOverlap(this.frog, snake)) this.loseLife('snake');
+            });
+        }
+
+        if (frogRow >= 8 && frogRow <= 12) {
+            this.cars.forEach(car => {
+                if (this.checkOverlap(this.frog, car)) this.loseLife('car');
+            });
+        }
+    }
+
+    private checkOverlap(a: GameObject, b: GameObject): boolean {
+        return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+    }
+
+    // Missing a home or landing on a full one counts as hitting the bank
+    private loseLife(cause: 'car' | 'water' | 'snake' | 'alligator' | 'bank'): void {
+        this.lives--;
+        this.emit({ type: 'sound', sound: 'hopper.death' });
+        this.emit({ type: 'game', event: { type: 'life-lost', livesLeft: this.lives, cause } });
+        if (this.lives <= 0) {
+            this.gameOver = true;
+            this.emit({ type: 'music', track: null });
+            this.emit({ type: 'sound', sound: 'hopper.gameOver' });
+            this.emit({ type: 'run-end', score: this.score, level: this.level });
+        } else {
+            this.resetFrog();
+        }
+    }
+
+    private resetFrog(): void {
+        this.frog.x = this.frog.prevX = 14 * CELL_SIZE;
+        this.frog.y = 14 * CELL_SIZE;
+    }
+}
+
+// Rows 2 to 6 are the river and 8 to 12 the road, lanes counted from the start side
+function placeOf(row: number): string {
+    if (row <= 1) return 'in a home';
+    if (row <= 6) return `on the river, lane ${7 - row} of 5`;
+    if (row === 7) return 'on the bank between the road and the river';
+    if (row <= 12) return `on the road, lane ${13 - row} of 5`;
+    return 'at the start';
+}
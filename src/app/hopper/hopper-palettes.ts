@@ -0,0 +1,39 @@
+import { Palettes } from '../display/display-style';
+
+export interface HopperPalette {
+    grass: string;
+    water: string;
+    road: string;
+    log: string;
+    turtle: string;
+    // Cars alternate between the two
+    cars: [string, string];
+    frog: string;
+    home: string;
+    homeFilled: string;
+}
+
+export const HOPPER_PALETTES: Palettes<HopperPalette> = {
+    standard: {
+        grass: '#00AA00', water: '#0000AA', road: '#333333', log: '#8B4513', turtle: '#228B22',
+        cars: ['#FF0000', '#FFFF00'], frog: '#00FF00', home: '#006600', homeFilled: '#00FF00'
+    },
+    // A yellow frog on dark grass, between orange and sky blue cars
+    deuteranopia: {
+        grass: '#1F3D2B', water: '#0072B2', road: '#333333', log: '#8B5A2B', turtle: '#009E73',
+        cars: ['#D55E00', '#56B4E9'], frog: '#F0E442', home: '#0D2617', homeFilled: '#F0E442'
+    },
+    protanopia: {
+        grass: '#1F3D2B', water: '#0072B2', road: '#333333', log: '#8B5A2B', turtle: '#009E73',
+        cars: ['#56B4E9', '#CC79A7'], frog: '#F0E442', home: '#0D2617', homeFilled: '#F0E442'
+    },
+    // A pink frog on slate, between red and white cars
+    tritanopia: {
+        grass: '#2F4F4F', water: '#004C66', road: '#333333', log: '#8B4513', turtle: '#00B3B3',
+        cars: ['#FF4D4D', '#FFFFFF'], frog: '#FF99CC', home: '#1A2B2B', homeFilled: '#FF99CC'
+    },
+    highContrast: {
+        grass: '#333333', water: '#000066', road: '#000000', log: '#996633', turtle: '#00CC66',
+        cars: ['#FFFF00', '#00FFFF'], frog: '#FFFFFF', home: '#111111', homeFilled: '#FFFFFF'
+    }
+};
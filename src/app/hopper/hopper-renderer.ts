@@ -0,0 +1,167 @@
+import { lerp } from '../game-loop/frame-time';
+import { DisplayStyle, STANDARD_STYLE, paletteFor } from '../display/display-style';
+import { drawPattern } from '../display/patterns';
+import { KeyNames } from '../input/input-actions';
+import { CANVAS_HEIGHT, CANVAS_WIDTH, CELL_SIZE, FROG_SIZE, GameObject, HopperEngine } from './hopper-engine';
+import { HOPPER_PALETTES } from './hopper-palettes';
+
+// Draws a HopperEngine onto the 896 × 512 canvas
+export class HopperRenderer {
+    constructor(
+        private ctx: CanvasRenderingContext2D,
+        private keys: KeyNames,
+        private style: () => DisplayStyle = () => STANDARD_STYLE
+    ) {}
+
+    // Horizontal position between the previous and current simulation step
+    private renderX(obj: GameObject, alpha: number): number {
+        return lerp(obj.prevX ?? obj.x, obj.x, alpha);
+    }
+
+    render(engine: HopperEngine, alpha: number, ghost?: { x: number; y: number }): void {
+        const style = this.style();
+        const palette = paletteFor(HOPPER_PALETTES, style);
+
+        this.ctx.fillStyle = '#000000';
+        this.ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+        this.ctx.fillStyle = palette.water;
+        this.ctx.fillRect(0, 2 * CELL_SIZE, CANVAS_WIDTH, 5 * CELL_SIZE);
+
+        this.ctx.fillStyle = palette.grass;
+        this.ctx.fillRect(0, 7 * CELL_SIZE, CANVAS_WIDTH, CELL_SIZE);
+        this.ctx.fillRect(0, 13 * CELL_SIZE, CANVAS_WIDTH, CELL_SIZE);
+
+        this.ctx.fillStyle = palette.road;
+        this.ctx.fillRect(0, 8 * CELL_SIZE, CANVAS_WIDTH, 5 * CELL_SIZE);
+
+        this.ctx.fillStyle = palette.grass;
+        this.ctx.fillRect(0, 0, CANVAS_WIDTH, 2 * CELL_SIZE);
+
+        for (let i = 0; i < 5; i++) {
+            const goalX = i * (CANVAS_WIDTH / 5) + 60;
+            const alligator = engine.alligators.find(g => g.goalIndex === i);
+            const isAlligatorActive = alligator && alligator.isActive;
+            const hasFemaleFrog = engine.femaleFrog && engine.femaleFrog.goalIndex === i && engine.femaleFrog.isActive;
+
+            if (isAlligatorActive && !engine.goals[i]) {
+                this.ctx.fillStyle = palette.home;
+                this.ctx.fillRect(goalX, CELL_SIZE, 80, CELL_SIZE);
+                this.ctx.fillStyle = '#2D5016';
+                this.ctx.fillRect(goalX + 10, CELL_SIZE + 8, 60, 16);
+                this.ctx.fillStyle = '#3D6026';
+                this.ctx.fillRect(goalX + 55, CELL_SIZE + 6, 20, 20);
+                this.ctx.fillStyle = '#FFFF00';
+                this.ctx.fillRect(goalX + 60, CELL_SIZE + 8, 4, 4);
+                this.ctx.fillRect(goalX + 68, CELL_SIZE + 8, 4, 4);
+                this.ctx.fillStyle = '#FFFFFF';
+                for (let t = 0; t < 3; t++) this.ctx.fillRect(goalX + 58 + t * 6, CELL_SIZE + 18, 2, 4);
+                this.ctx.fillStyle = '#2D5016';
+                for (let s = 0; s < 4; s++) {
+                    const segWidth = 8 - s * 1.5;
+                    this.ctx.fillRect(goalX + 15 + s * 8, CELL_SIZE + 12, segWidth, 8);
+                }
+            } else if (hasFemaleFrog && !engine.goals[i]) {
+                this.ctx.fillStyle = palette.home;
+                this.ctx.fillRect(goalX, CELL_SIZE, 80, CELL_SIZE);
+                this.ctx.fillStyle = '#FF69B4';
+                this.ctx.fillRect(goalX + 28, CELL_SIZE + 8, 24, 16);
+                this.ctx.fillStyle = '#FFB6C1';
+                this.ctx.fillRect(goalX + 30, CELL_SIZE + 6, 20, 12);
+                this.ctx.fillStyle = '#FFFFFF';
+                this.ctx.fillRect(goalX + 32, CELL_SIZE + 7, 6, 6);
+                this.ctx.fillRect(goalX + 42, CELL_SIZE + 7, 6, 6);
+                this.ctx.fillStyle = '#000000';
+                this.ctx.fillRect(goalX + 34, CELL_SIZE + 9, 2, 2);
+                this.ctx.fillRect(goalX + 44, CELL_SIZE + 9, 2, 2);
+                this.ctx.fillStyle = '#FF0000';
+                this.ctx.fillRect(goalX + 40, CELL_SIZE + 4, 8, 4);
+                this.ctx.fillRect(goalX + 42, CELL_SIZE + 2, 4, 2);
+                if (engine.femaleFrog && engine.femaleFrog.timer < 180) {
+                    const alpha = 0.3 + (Math.sin(engine.femaleFrog.timer / 10) * 0.3);
+                    this.ctx.fillStyle = `rgba(255, 255, 0, ${alpha})`;
+                    this.ctx.fillRect(goalX + 2, CELL_SIZE + 2, 76, 28);
+                }
+            } else {
+                this.ctx.fillStyle = engine.goals[i] ? palette.homeFilled : palette.home;
+                this.ctx.fillRect(goalX, CELL_SIZE, 80, CELL_SIZE);
+            }
+        }
+
+        this.ctx.fillStyle = palette.log;
+        engine.logs.forEach(log => this.ctx.fillRect(this.renderX(log, alpha), log.y, log.width, log.height));
+
+        this.ctx.fillStyle = palette.turtle;
+        engine.turtles.forEach(turtle => this.ctx.fillRect(this.renderX(turtle, alpha), turtle.y, turtle.width, turtle.height));
+
+        engine.snakes.forEach(snake => {
+            const snakeX = this.renderX(snake, alpha);
+            this.ctx.fillStyle = '#FF6600';
+            this.ctx.fillRect(snakeX, snake.y + 2, snake.width, snake.height);
+            this.ctx.fillStyle = '#CC3300';
+            const headX = snake.direction > 0 ? snakeX + snake.width - 8 : snakeX;
+            this.ctx.fillRect(headX, snake.y + 2, 8, snake.height);
+            this.ctx.fillStyle = '#FFFF00';
+            const eyeY = snake.y + 6;
+            if (snake.direction > 0) {
+                this.ctx.fillRect(headX + 5, eyeY, 2, 2);
+                this.ctx.fillRect(headX + 5, eyeY + 8, 2, 2);
+            } else {
+                this.ctx.fillRect(headX + 1, eyeY, 2, 2);
+                this.ctx.fillRect(headX + 1, eyeY + 8, 2, 2);
+            }
+        });
+
+        engine.cars.forEach((car, i) => {
+            const carX = this.renderX(car, alpha);
+            this.ctx.fillStyle = palette.cars[i % 2];
+            this.ctx.fillRect(carX, car.y, car.width, car.height);
+            if (style.patterns) drawPattern(this.ctx, i % 2, carX, car.y, car.width, car.height);
+        });
+
+        // The best run's frog, where it was at this point
+        if (ghost) {
+            this.ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+            this.ctx.fillRect(ghost.x, ghost.y, FROG_SIZE, FROG_SIZE);
+        }
+
+        const frogX = this.renderX(engine.frog, alpha);
+        this.ctx.fillStyle = palette.frog;
+        this.ctx.fillRect(frogX, engine.frog.y, engine.frog.width, engine.frog.height);
+        if (style.highContrast) {
+            this.ctx.strokeStyle = '#000000';
+            this.ctx.lineWidth = 2;
+            this.ctx.strokeRect(frogX + 1, engine.frog.y + 1, engine.frog.width - 2, engine.frog.height - 2);
+        }
+
+        this.ctx.fillStyle = '#FFFFFF';
+        this.ctx.font = '16px monospace';
+        this.ctx.fillText(`SCORE: ${engine.score}`, 10, 20);
+        this.ctx.fillText(`LIVES: ${engine.lives}`, 380, 20);
+        this.ctx.fillText(`LEVEL: ${engine.level}`, 750, 20);
+
+        if (!engine.started) {
+            this.ctx.fillStyle = '#FFFFFF';
+            this.ctx.font = '24px monospace';
+            this.ctx.textAlign = 'center';
+            this.ctx.fillText(`Press ${this.keys('move-up')} to start hopping`, CANVAS_WIDTH / 2, 14 * CELL_SIZE - 20);
+            this.ctx.textAlign = 'left';
+        }
+
+        if (engine.gameOver) {
+            this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+            this.ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+            this.ctx.fillStyle = '#FF0000';
+            this.ctx.font = '48px monospace';
+            this.ctx.fillText('GAME OVER', 280, 250);
+        }
+
+        if (engine.won) {
+            this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+            this.ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+            this.ctx.fillStyle = '#00FF00';
+            this.ctx.font = '48px monospace';
+            this.ctx.fillText('YOU WIN!', 320, 250);
+        }
+    }
+}
@@ -0,0 +1,14 @@
+import { SettingField } from '../settings/game-settings';
+
+export interface HopperSettings {
+    lives: number;
+    // How fast the traffic and the river move at level 1, and how much faster each level
+    laneSpeed: number;
+    levelSpeedup: number;
+}
+
+export const HOPPER_SETTINGS: SettingField<keyof HopperSettings>[] = [
+    { id: 'lives', label: 'Lives', min: 1, max: 9, step: 1, presets: { easy: 5, normal: 3, hard: 2 } },
+    { id: 'laneSpeed', label: 'Traffic and river speed', min: 0.1, max: 1, step: 0.05, presets: { easy: 0.2, normal: 0.3, hard: 0.45 } },
+    { id: 'levelSpeedup', label: 'Speed-up per level', min: 0, max: 0.5, step: 0.05, presets: { easy: 0.1, normal: 0.15, hard: 0.2 } }
+];
@@ -0,0 +1,92 @@
+import { Component, OnDestroy, OnInit, input, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+const ORDINAL_SUFFIXES = ['TH', 'ST', 'ND', 'RD'];
+
+// Arcade-style three-letter initials for a new high score
+@Component({
+    selector: 'app-initials-entry',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './initials-entry.component.html',
+    styleUrls: ['./initials-entry.component.css']
+})
+export class InitialsEntryComponent implements OnInit, OnDestroy {
+    score = input.required<number>();
+    // 0-based place in the table
+    rank = input.required<number>();
+    initials = input('AAA');
+
+    entered = output<string>();
+    skipped = output<void>();
+
+    protected letters = signal(['A', 'A', 'A']);
+    protected cursor = signal(0);
+
+    ngOnInit(): void {
+        this.letters.set(this.initials().padEnd(3, 'A').slice(0, 3).split(''));
+        // Capture phase on window runs ahead of the game's and shell's key handling
+        window.addEventListener('keydown', this.handleKeyDown, true);
+    }
+
+    ngOnDestroy(): void {
+        window.removeEventListener('keydown', this.handleKeyDown, true);
+    }
+
+    protected cycle(slot: number, step: number): void {
+        this.cursor.set(slot);
+        this.letters.update(letters => {
+            const index = Math.max(0, ALPHABET.indexOf(letters[slot]));
+            const next = [...letters];
+            next[slot] = ALPHABET[(index + step + ALPHABET.length) % ALPHABET.length];
+            return next;
+        });
+    }
+
+    protected confirm(): void {
+        this.entered.emit(this.letters().join(''));
+    }
+
+    protected place(): string {
+        const place = this.rank() + 1;
+        const suffix = place >= 11 && place <= 13 ? 'TH' : ORDINAL_SUFFIXES[place % 10] ?? 'TH';
+        return `${place}${suffix}`;
+    }
+
+    private handleKeyDown = (event: KeyboardEvent): void => {
+        event.stopPropagation();
+        event.preventDefault();
+
+        const typed = event.key.toUpperCase();
+        if (typed.length === 1 && ALPHABET.includes(typed)) {
+            const slot = this.cursor();
+            this.letters.update(letters => letters.map((letter, i) => (i === slot ? typed : letter)));
+            this.cursor.set(Math.min(2, slot + 1));
+            return;
+        }
+
+        switch (event.code) {
+            case 'ArrowUp':
+                this.cycle(this.cursor(), 1);
+                break;
+            case 'ArrowDown':
+                this.cycle(this.cursor(), -1);
+                break;
+            case 'ArrowLeft':
+            case 'Backspace':
+                this.cursor.update(c => Math.max(0, c - 1));
+                break;
+            case 'ArrowRight':
+                this.cursor.update(c => Math.min(2, c + 1));
+                break;
+            case 'Enter':
+            case 'NumpadEnter':
+                this.confirm();
+                break;
+            case 'Escape':
+                this.skipped.emit();
+                break;
+        }
+    };
+}
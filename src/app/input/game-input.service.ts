@@ -0,0 +1,260 @@
+import { Injectable, OnDestroy, computed, inject, signal } from '@angular/core';
+import { GameDescriptor } from '../games/game-descriptor';
+import { ActionPress, ARCADE_ACTIONS, ARCADE_SCOPE, InputAction } from './input-actions';
+import { KeyBindingsService } from './key-bindings.service';
+import { GamepadService, PadState } from './gamepad.service';
+
+// A value the game reads during a step: an action per player ("fire", "fire:2"), the
+// player count or the pointer position
+export type InputChannel = string;
+
+export const PLAYERS_CHANNEL = 'players';
+export const POINTER_CHANNEL = 'pointer';
+
+export function channelFor(action: InputAction, player = 0): InputChannel {
+    return player === 0 ? action : `${action}:${player + 1}`;
+}
+
+export function parseChannel(channel: InputChannel): { action: InputAction; player: number } {
+    const [action, player] = channel.split(':');
+    return { action: action as InputAction, player: player ? Number(player) - 1 : 0 };
+}
+
+// Turns key events and controller state into the running game's actions. Provided by the
+// game shell, so the game it hosts and the shell itself (for 'exit') share one instance.
+// Held values are sampled once at the start of each simulation step, so a recorded run and
+// its replay see exactly the same input.
+@Injectable()
+export class GameInputService implements OnDestroy {
+    private bindings = inject(KeyBindingsService);
+    private gamepads = inject(GamepadService);
+
+    private game = signal<GameDescriptor | null>(null);
+    private heldKeys = new Set<string>();
+    private listeners: ((press: ActionPress) => void)[] = [];
+
+    private padStates: PadState[] = [];
+    // Controller buttons currently down, by "pad:action", with the time of their next auto-repeat
+    private heldButtons = new Map<string, number>();
+    private frameId: number | null = null;
+    // On-screen touch controls, 0..1 per action
+    private virtual = new Map<InputAction, number>();
+    // While the shell has a dialog up, the game sees no input
+    private suspended = false;
+    // While a replay plays, recorded input stands in for the player's
+    private replaying = false;
+    // What the game sees during the current step
+    private sampled = new Map<InputChannel, number>();
+    private pointerMove: number | null = null;
+
+    // One per controller, up to the game's maximum
+    private connectedPlayers = computed(() =>
+        Math.max(1, Math.min(this.game()?.maxPlayers ?? 1, this.gamepads.pads().length))
+    );
+
+    constructor() {
+        window.addEventListener('keydown', this.handleKeyDown);
+        window.addEventListener('keyup', this.handleKeyUp);
+        window.addEventListener('blur', this.releaseAll);
+        this.frameId = requestAnimationFrame(this.pollPads);
+    }
+
+    // Selects whose bindings apply
+    use(game: GameDescriptor): void {
+        this.game.set(game);
+        this.releaseAll();
+    }
+
+    suspend(suspended: boolean): void {
+        this.suspended = suspended;
+        this.releaseAll();
+    }
+
+    // Returns a function that removes the listener
+    onPress(listener: (press: ActionPress) => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    // Drives an action from an on-screen control; crossing the halfway point counts as a press
+    setVirtual(action: InputAction, value: number): void {
+        const previous = this.virtual.get(action) ?? 0;
+        if (value > 0) this.virtual.set(action, value);
+        else this.virtual.delete(action);
+        if (previous < 0.5 && value >= 0.5) this.emit({ action, repeat: false, player: 0 });
+    }
+
+    // A momentary press, for taps and swipes
+    tap(action: InputAction): void {
+        this.setVirtual(action, 1);
+        this.setVirtual(action, 0);
+    }
+
+    // Pointer position in the game's own coordinates; the game sees it on the next step
+    setPointer(x: number): void {
+        if (!this.suspended && !this.replaying) this.pointerMove = Math.round(x);
+    }
+
+    // Where the pointer moved during the last step, or null if it didn't
+    pointer(): number | null {
+        return this.sampled.get(POINTER_CHANNEL) ?? null;
+    }
+
+    // Players in the current game
+    players(): number {
+        return this.sampled.get(PLAYERS_CHANNEL) ?? 1;
+    }
+
+    // How far an action is pressed, 0..1: analog on sticks and triggers, 0 or 1 otherwise
+    value(action: InputAction, player = 0): number {
+        return this.sampled.get(channelFor(action, player)) ?? 0;
+    }
+
+    // Reads the controls for the coming step. Analog values are rounded to 5% steps, which is
+    // plenty for steering and keeps recordings small.
+    sample(): ReadonlyMap<InputChannel, number> {
+        const sampled = new Map<InputChannel, number>();
+        const players = this.connectedPlayers();
+        if (players > 1) sampled.set(PLAYERS_CHANNEL, players);
+        for (const { id } of this.bindings.actionsFor(this.scope)) {
+            for (let player = 0; player < players; player++) {
+                const value = Math.round(this.liveValue(id, player) * 20) / 20;
+                if (value > 0) sampled.set(channelFor(id, player), value);
+            }
+        }
+        if (this.pointerMove !== null) sampled.set(POINTER_CHANNEL, this.pointerMove);
+        this.pointerMove = null;
+        this.sampled = sampled;
+        return sampled;
+    }
+
+    // Hands the game over to a replay: from here on it only gets what playStep() and
+    // playPress() give it, apart from the arcade actions
+    startPlayback(): void {
+        this.replaying = true;
+        this.releaseAll();
+    }
+
+    playStep(values: ReadonlyMap<InputChannel, number>): void {
+        this.sampled = new Map(values);
+    }
+
+    playPress(press: ActionPress): void {
+        this.listeners.forEach(listener => listener(press));
+    }
+
+    isHeld(action: InputAction, player = 0): boolean {
+        return this.value(action, player) >= 0.5;
+    }
+
+    // -1..1 between two opposing actions, e.g. ('move-left', 'move-right')
+    axis(negative: InputAction, positive: InputAction, player = 0): number {
+        return this.value(positive, player) - this.value(negative, player);
+    }
+
+    ngOnDestroy(): void {
+        window.removeEventListener('keydown', this.handleKeyDown);
+        window.removeEventListener('keyup', this.handleKeyUp);
+        window.removeEventListener('blur', this.releaseAll);
+        if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+        this.listeners = [];
+    }
+
+    private get scope(): string {
+        return this.game()?.id ?? ARCADE_SCOPE;
+    }
+
+    private liveValue(action: InputAction, player: number): number {
+        if (this.suspended || this.replaying) return 0;
+        let value = player === 0 && this.isKeyHeld(action) ? 1 : 0;
+        if (player === 0) value = Math.max(value, this.virtual.get(action) ?? 0);
+        this.padStates.forEach((pad, position) => {
+            if (this.playerFor(position) !== player) return;
+            for (const button of this.buttonsFor(action)) {
+                value = Math.max(value, pad.buttons[button]);
+            }
+        });
+        return value;
+    }
+
+    private emit(press: ActionPress): void {
+        if (this.suspended) return;
+        // A replay's game only hears recorded presses, but exit and mute still work
+        if (this.replaying && !ARCADE_ACTIONS.some(({ id }) => id === press.action)) return;
+        this.listeners.forEach(listener => listener(press));
+    }
+
+    private isKeyHeld(action: InputAction): boolean {
+        for (const code of this.heldKeys) {
+            if (this.bindings.actionsForKey(this.scope, code).includes(action)) return true;
+        }
+        return false;
+    }
+
+    private buttonsFor(action: InputAction) {
+        return [...this.bindings.buttonsFor(this.scope, action), ...this.bindings.buttonsFor(ARCADE_SCOPE, action)];
+    }
+
+    private playerFor(position: number): number {
+        return Math.min(position, this.connectedPlayers() - 1);
+    }
+
+    private handleKeyDown = (event: KeyboardEvent): void => {
+        if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+
+        const actions = this.bindings.actionsForKey(this.scope, event.code);
+        if (actions.length === 0) return;
+
+        event.preventDefault();
+        this.heldKeys.add(event.code);
+        for (const action of actions) {
+            this.emit({ action, repeat: event.repeat, player: 0 });
+        }
+    };
+
+    private handleKeyUp = (event: KeyboardEvent): void => {
+        this.heldKeys.delete(event.code);
+    };
+
+    private releaseAll = (): void => {
+        this.heldKeys.clear();
+        this.virtual.clear();
+    };
+
+    // Controllers have no events, so presses are found by comparing each frame with the last
+    private pollPads = (timestamp: number): void => {
+        this.frameId = requestAnimationFrame(this.pollPads);
+        this.padStates = this.gamepads.poll();
+        if (this.padStates.length === 0 && this.heldButtons.size === 0) return;
+
+        const das = this.game()?.das;
+        const actions = [
+            ...this.bindings.actionsFor(this.scope),
+            ...this.bindings.actionsFor(ARCADE_SCOPE)
+        ].filter(action => action.buttons?.length);
+
+        const stillHeld = new Map<string, number>();
+        this.padStates.forEach((pad, position) => {
+            const player = this.playerFor(position);
+            for (const { id, buttons } of actions) {
+                if (!buttons!.some(button => pad.buttons[button] >= 0.5)) continue;
+
+                const key = `${pad.index}:${id}`;
+                const nextRepeat = this.heldButtons.get(key);
+                const repeats = !!das && das.actions.includes(id);
+                if (nextRepeat === undefined) {
+                    this.emit({ action: id, repeat: false, player });
+                    stillHeld.set(key, repeats ? timestamp + das!.delay : Infinity);
+                } else if (timestamp >= nextRepeat) {
+                    this.emit({ action: id, repeat: true, player });
+                    stillHeld.set(key, nextRepeat + das!.interval);
+                } else {
+                    stillHeld.set(key, nextRepeat);
+                }
+            }
+        });
+        this.heldButtons = stillHeld;
+    };
+}
@@ -0,0 +1,79 @@
+// Logical controller buttons. Directions combine the D-pad with the left stick.
+export type PadButton =
+    | 'up' | 'down' | 'left' | 'right'
+    | 'south' | 'east' | 'west' | 'north'
+    | 'l1' | 'r1' | 'l2' | 'r2'
+    | 'select' | 'start';
+
+// How one family of controllers reports its buttons and axes
+export interface GamepadProfile {
+    id: string;
+    name: string;
+    // Picked automatically for controllers whose id matches
+    match?: RegExp;
+    // Raw button index for each logical button
+    buttons: Partial<Record<PadButton, number>>;
+    // Raw axes of the left stick (some cheap pads report their D-pad here too)
+    stick: { x: number; y: number };
+    deadzone: number;
+}
+
+export const GAMEPAD_PROFILES: GamepadProfile[] = [
+    {
+        // The W3C "standard" layout that browsers remap most controllers to
+        id: 'standard',
+        name: 'Standard',
+        buttons: {
+            south: 0, east: 1, west: 2, north: 3,
+            l1: 4, r1: 5, l2: 6, r2: 7,
+            select: 8, start: 9,
+            up: 12, down: 13, left: 14, right: 15
+        },
+        stick: { x: 0, y: 1 },
+        deadzone: 0.2
+    },
+    {
+        // Common USB SNES-style pads (DragonRise and friends)
+        id: 'snes-usb',
+        name: 'USB SNES-style',
+        match: /0079|0810|snes/i,
+        buttons: {
+            north: 0, east: 1, south: 2, west: 3,
+            l1: 4, r1: 5,
+            select: 8, start: 9
+        },
+        stick: { x: 0, y: 1 },
+        deadzone: 0.5
+    },
+    {
+        // Older Xbox 360 pads in browsers that don't remap them
+        id: 'xbox-legacy',
+        name: 'Xbox 360 (unmapped)',
+        match: /xbox 360|045e-028e/i,
+        buttons: {
+            south: 0, east: 1, west: 2, north: 3,
+            l1: 4, r1: 5,
+            select: 6, start: 7,
+            up: 11, down: 12, left: 13, right: 14
+        },
+        stick: { x: 0, y: 1 },
+        deadzone: 0.25
+    }
+];
+
+export const PAD_BUTTON_LABELS: Record<PadButton, string> = {
+    up: 'PAD ↑',
+    down: 'PAD ↓',
+    left: 'PAD ←',
+    right: 'PAD →',
+    south: 'Ⓐ',
+    east: 'Ⓑ',
+    west: 'Ⓧ',
+    north: 'Ⓨ',
+    l1: 'LB',
+    r1: 'RB',
+    l2: 'LT',
+    r2: 'RT',
+    select: 'SELECT',
+    start: 'START'
+};
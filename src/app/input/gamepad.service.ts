@@ -0,0 +1,116 @@
+import { Injectable, effect, signal } from '@angular/core';
+import { GAMEPAD_PROFILES, GamepadProfile, PadButton } from './gamepad-profiles';
+
+export interface ConnectedPad {
+    index: number;
+    id: string;
+    profile: GamepadProfile;
+}
+
+// One controller's logical buttons, each 0..1 (analog for sticks and triggers)
+export interface PadState {
+    index: number;
+    buttons: Record<PadButton, number>;
+}
+
+const PAD_BUTTONS: PadButton[] = [
+    'up', 'down', 'left', 'right', 'south', 'east', 'west', 'north',
+    'l1', 'r1', 'l2', 'r2', 'select', 'start'
+];
+
+@Injectable({ providedIn: 'root' })
+export class GamepadService {
+    private readonly STORAGE_KEY = 'arcadeGamepadProfiles';
+
+    // Connected controllers, in the order they were plugged in
+    readonly pads = signal<ConnectedPad[]>([]);
+    // Profile chosen by the player for a controller id, overriding auto-detection
+    readonly chosenProfiles = signal<Record<string, string>>({});
+
+    constructor() {
+        this.load();
+        effect(() => localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.chosenProfiles())));
+
+        window.addEventListener('gamepadconnected', () => this.refresh());
+        window.addEventListener('gamepaddisconnected', () => this.refresh());
+        this.refresh();
+    }
+
+    setProfile(padId: string, profileId: string): void {
+        this.chosenProfiles.update(chosen => ({ ...chosen, [padId]: profileId }));
+        this.refresh();
+    }
+
+    // Reads every connected controller; call once per frame
+    poll(): PadState[] {
+        const raw = this.rawPads();
+        return this.pads().flatMap(pad => {
+            const gamepad = raw.find(g => g.index === pad.index);
+            return gamepad ? [{ index: pad.index, buttons: this.readButtons(gamepad, pad.profile) }] : [];
+        });
+    }
+
+    private refresh(): void {
+        const known = this.pads();
+        const connected = this.rawPads().map(gamepad => ({
+            index: gamepad.index,
+            id: gamepad.id,
+            profile: this.profileFor(gamepad)
+        }));
+
+        // Keep the plug-in order stable so players don't swap when someone reconnects
+        connected.sort((a, b) => {
+            const order = (pad: ConnectedPad) => {
+                const position = known.findIndex(k => k.index === pad.index);
+                return position === -1 ? known.length + pad.index : position;
+            };
+            return order(a) - order(b);
+        });
+        this.pads.set(connected);
+    }
+
+    private profileFor(gamepad: Gamepad): GamepadProfile {
+        const chosen = GAMEPAD_PROFILES.find(p => p.id === this.chosenProfiles()[gamepad.id]);
+        if (chosen) return chosen;
+        if (gamepad.mapping === 'standard') return GAMEPAD_PROFILES[0];
+        return GAMEPAD_PROFILES.find(p => p.match?.test(gamepad.id)) ?? GAMEPAD_PROFILES[0];
+    }
+
+    private readButtons(gamepad: Gamepad, profile: GamepadProfile): Record<PadButton, number> {
+        const buttons = {} as Record<PadButton, number>;
+        for (const button of PAD_BUTTONS) {
+            const index = profile.buttons[button];
+            buttons[button] = index === undefined ? 0 : gamepad.buttons[index]?.value ?? 0;
+        }
+
+        // Fold the stick into the directions, rescaled to start from zero at the deadzone
+        const stick = (axis: number) => {
+            const value = gamepad.axes[axis] ?? 0;
+            const magnitude = Math.max(0, (Math.abs(value) - profile.deadzone) / (1 - profile.deadzone));
+            return Math.sign(value) * magnitude;
+        };
+        const x = stick(profile.stick.x);
+        const y = stick(profile.stick.y);
+        buttons.left = Math.max(buttons.left, -x);
+        buttons.right = Math.max(buttons.right, x);
+        buttons.up = Math.max(buttons.up, -y);
+        buttons.down = Math.max(buttons.down, y);
+        return buttons;
+    }
+
+    private rawPads(): Gamepad[] {
+        if (!navigator.getGamepads) return [];
+        return navigator.getGamepads().filter((gamepad): gamepad is Gamepad => !!gamepad && gamepad.connected);
+    }
+
+    private load(): void {
+        const saved = localStorage.getItem(this.STORAGE_KEY);
+        if (!saved) return;
+
+        try {
+            this.chosenProfiles.set(JSON.parse(saved));
+        } catch (e) {
+            localStorage.removeItem(this.STORAGE_KEY);
+        }
+    }
+}
@@ -0,0 +1,77 @@
+import { PadButton } from './gamepad-profiles';
+
+// Everything a player can do, independent of the key (or button) that does it
+export type InputAction =
+    | 'move-up'
+    | 'move-down'
+    | 'move-left'
+    | 'move-right'
+    | 'rotate'
+    | 'rotate-left'
+    | 'rotate-right'
+    | 'thrust'
+    | 'fire'
+    | 'soft-drop'
+    | 'hard-drop'
+    | 'start'
+    | 'pause'
+    | 'restart'
+    | 'next-level'
+    | 'exit'
+    | 'mute'
+    | 'describe';
+
+export interface GameAction {
+    id: InputAction;
+    label: string;
+    // Default bindings as KeyboardEvent.code values, so they follow key position rather than layout
+    keys: string[];
+    // Default controller buttons
+    buttons?: PadButton[];
+}
+
+export interface ActionPress {
+    action: InputAction;
+    // True for auto-repeat while a key or button is held down
+    repeat: boolean;
+    // 0 for the keyboard and first controller, 1 for a second controller in two-player games
+    player: number;
+}
+
+// Bindings that apply on every screen, stored under their own scope
+export const ARCADE_SCOPE = 'arcade';
+
+export const ARCADE_ACTIONS: GameAction[] = [
+    { id: 'exit', label: 'Exit to menu', keys: ['Escape'], buttons: ['select'] },
+    { id: 'mute', label: 'Mute sound', keys: ['KeyM'] },
+    { id: 'describe', label: 'Describe the game', keys: ['KeyI'] }
+];
+
+const KEY_SYMBOLS: Record<string, string> = {
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+    ArrowLeft: '←',
+    ArrowRight: '→',
+    Space: 'SPACE',
+    Enter: 'ENTER',
+    Escape: 'ESC',
+    Backspace: 'BKSP',
+    ShiftLeft: 'L-SHIFT',
+    ShiftRight: 'R-SHIFT',
+    ControlLeft: 'L-CTRL',
+    ControlRight: 'R-CTRL',
+    AltLeft: 'L-ALT',
+    AltRight: 'R-ALT'
+};
+
+// How a game's prompts name the keys bound to an action, such as "SPACE / ENTER"
+export type KeyNames = (action: InputAction) => string;
+
+// Fallback label for a key code when the browser can't tell us the keyboard layout
+export function defaultKeyLabel(code: string): string {
+    if (KEY_SYMBOLS[code]) return KEY_SYMBOLS[code];
+    if (code.startsWith('Key')) return code.slice(3);
+    if (code.startsWith('Digit')) return code.slice(5);
+    if (code.startsWith('Numpad')) return 'NUM ' + code.slice(6).toUpperCase();
+    return code.toUpperCase();
+}
@@ -0,0 +1,123 @@
+import { Injectable, effect, inject, linkedSignal, signal } from '@angular/core';
+import { GameControl } from '../games/game-descriptor';
+import { findGame } from '../games/game-registry';
+import { ARCADE_ACTIONS, ARCADE_SCOPE, GameAction, InputAction, KeyNames, defaultKeyLabel } from './input-actions';
+import { PAD_BUTTON_LABELS, PadButton } from './gamepad-profiles';
+import { ProfileService } from '../profiles/profile.service';
+
+// Only the bindings a player changed are stored, per scope (a game id or the arcade)
+type BindingOverrides = Record<string, Partial<Record<InputAction, string[]>>>;
+
+export interface BindingConflict {
+    scope: string;
+    action: InputAction;
+}
+
+// Not yet in the DOM typings: https://wicg.github.io/keyboard-map/
+interface KeyboardLayoutNavigator {
+    keyboard?: { getLayoutMap(): Promise<Map<string, string>> };
+}
+
+@Injectable({ providedIn: 'root' })
+export class KeyBindingsService {
+    private profiles = inject(ProfileService);
+
+    // Kept per profile
+    private overrides = linkedSignal(() => this.profiles.read<BindingOverrides>('keyBindings') ?? {});
+    private layout = signal<Map<string, string> | null>(null);
+
+    constructor() {
+        effect(() => this.profiles.write('keyBindings', this.overrides()));
+
+        (navigator as KeyboardLayoutNavigator).keyboard?.getLayoutMap()
+            .then(layout => this.layout.set(layout))
+            .catch(() => { });
+    }
+
+    actionsFor(scope: string): GameAction[] {
+        return scope === ARCADE_SCOPE ? ARCADE_ACTIONS : findGame(scope)?.actions ?? [];
+    }
+
+    keysFor(scope: string, action: InputAction): string[] {
+        const custom = this.overrides()[scope]?.[action];
+        if (custom) return custom;
+        return this.actionsFor(scope).find(a => a.id === action)?.keys ?? [];
+    }
+
+    buttonsFor(scope: string, action: InputAction): PadButton[] {
+        return this.actionsFor(scope).find(a => a.id === action)?.buttons ?? [];
+    }
+
+    // Actions a key triggers in a game, including the arcade-wide ones
+    actionsForKey(scope: string, code: string): InputAction[] {
+        return this.scopesFor(scope).flatMap(s =>
+            this.actionsFor(s).filter(a => this.keysFor(s, a.id).includes(code)).map(a => a.id)
+        );
+    }
+
+    // The current bindings as help text rows, optionally with controller buttons
+    controlsFor(scope: string, withButtons = false): GameControl[] {
+        return this.actionsFor(scope).map(action => ({
+            keys: [
+                ...this.keysFor(scope, action.id).map(code => this.keyLabel(code)),
+                ...(withButtons ? this.buttonsFor(scope, action.id).map(button => PAD_BUTTON_LABELS[button]) : [])
+            ],
+            action: action.label
+        }));
+    }
+
+    isCustomized(scope: string): boolean {
+        return Object.keys(this.overrides()[scope] ?? {}).length > 0;
+    }
+
+    // Sets (or with null, clears) one key slot of an action
+    setKey(scope: string, action: InputAction, slot: number, code: string | null): void {
+        const keys = [...this.keysFor(scope, action)];
+        if (code === null) {
+            keys.splice(slot, 1);
+        } else if (!keys.includes(code)) {
+            keys[Math.min(slot, keys.length)] = code;
+        }
+
+        this.overrides.update(overrides => ({
+            ...overrides,
+            [scope]: { ...overrides[scope], [action]: keys }
+        }));
+    }
+
+    reset(scope: string): void {
+        this.overrides.update(overrides => {
+            const { [scope]: _, ...rest } = overrides;
+            return rest;
+        });
+    }
+
+    // Keys bound to more than one action in a game (arcade-wide bindings included)
+    conflicts(scope: string): Map<string, BindingConflict[]> {
+        const owners = new Map<string, BindingConflict[]>();
+        for (const s of this.scopesFor(scope)) {
+            for (const action of this.actionsFor(s)) {
+                for (const code of this.keysFor(s, action.id)) {
+                    owners.set(code, [...(owners.get(code) ?? []), { scope: s, action: action.id }]);
+                }
+            }
+        }
+        return new Map([...owners].filter(([, bound]) => bound.length > 1));
+    }
+
+    // What the key is labelled on the player's own keyboard, where the browser can tell us
+    keyLabel(code: string): string {
+        const printed = this.layout()?.get(code);
+        if (printed && printed.trim()) return printed.toUpperCase();
+        return defaultKeyLabel(code);
+    }
+
+    // Names for the keys as currently bound, read afresh on every call so prompts follow a remap
+    keyNames(scope: string): KeyNames {
+        return action => this.keysFor(scope, action).map(code => this.keyLabel(code)).join(' / ') || 'UNBOUND';
+    }
+
+    private scopesFor(scope: string): string[] {
+        return scope === ARCADE_SCOPE ? [ARCADE_SCOPE] : [scope, ARCADE_SCOPE];
+    }
+}
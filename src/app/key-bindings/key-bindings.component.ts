@@ -0,0 +1,104 @@
+import { Component, HostListener, computed, inject, input, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { GameDescriptor } from '../games/game-descriptor';
+import { ARCADE_ACTIONS, ARCADE_SCOPE, GameAction, InputAction } from '../input/input-actions';
+import { KeyBindingsService } from '../input/key-bindings.service';
+
+interface BindingSlot {
+    scope: string;
+    action: InputAction;
+    slot: number;
+}
+
+@Component({
+    selector: 'app-key-bindings',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './key-bindings.component.html',
+    styleUrls: ['./key-bindings.component.css']
+})
+export class KeyBindingsComponent {
+    protected bindings = inject(KeyBindingsService);
+
+    game = input.required<GameDescriptor>();
+
+    // Each action can have a primary and an alternate key
+    protected readonly slots = [0, 1];
+    protected listening = signal<BindingSlot | null>(null);
+    // The arcade-wide keys apply to every game, so resetting them takes a second click
+    protected confirmingArcadeReset = signal(false);
+    private swallowKeyUp: string | null = null;
+
+    protected sections = computed(() => [
+        { scope: this.game().id, title: this.game().title, actions: this.game().actions },
+        { scope: ARCADE_SCOPE, title: 'ALL GAMES', actions: ARCADE_ACTIONS }
+    ]);
+
+    protected conflicts = computed(() => {
+        const labels = new Map<string, string>();
+        for (const section of this.sections()) {
+            for (const action of section.actions) labels.set(section.scope + ':' + action.id, action.label);
+        }
+
+        return [...this.bindings.conflicts(this.game().id)].map(([code, owners]) => ({
+            code,
+            key: this.bindings.keyLabel(code),
+            actions: owners.map(owner => labels.get(owner.scope + ':' + owner.action)).join(' and ')
+        }));
+    });
+
+    protected keyFor(scope: string, action: GameAction, slot: number): string | undefined {
+        return this.bindings.keysFor(scope, action.id)[slot];
+    }
+
+    protected isConflict(code: string | undefined): boolean {
+        return !!code && this.conflicts().some(conflict => conflict.code === code);
+    }
+
+    protected isListening(scope: string, action: GameAction, slot: number): boolean {
+        const target = this.listening();
+        return !!target && target.scope === scope && target.action === action.id && target.slot === slot;
+    }
+
+    protected listen(scope: string, action: GameAction, slot: number): void {
+        this.listening.set(this.isListening(scope, action, slot) ? null : { scope, action: action.id, slot });
+    }
+
+    protected resetGame(): void {
+        this.listening.set(null);
+        this.bindings.reset(this.game().id);
+    }
+
+    protected resetArcade(): void {
+        this.listening.set(null);
+        this.bindings.reset(ARCADE_SCOPE);
+        this.confirmingArcadeReset.set(false);
+    }
+
+    // While a slot is listening the next key press becomes its binding:
+    // ESC cancels and BACKSPACE or DELETE clears the slot
+    @HostListener('window:keydown', ['$event'])
+    onKeyDown(event: KeyboardEvent): void {
+        const target = this.listening();
+        if (!target) return;
+
+        event.preventDefault();
+        event.stopPropagation();
+        this.swallowKeyUp = event.code;
+
+        if (event.code === 'Backspace' || event.code === 'Delete') {
+            this.bindings.setKey(target.scope, target.action, target.slot, null);
+        } else if (event.code !== 'Escape') {
+            this.bindings.setKey(target.scope, target.action, target.slot, event.code);
+        }
+        this.listening.set(null);
+    }
+
+    // Keeps SPACE or ENTER from also clicking the focused slot once it's been captured
+    @HostListener('window:keyup', ['$event'])
+    onKeyUp(event: KeyboardEvent): void {
+        if (event.code !== this.swallowKeyUp) return;
+        event.preventDefault();
+        this.swallowKeyUp = null;
+    }
+}
@@ -0,0 +1,18 @@
+import { Component, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { AnnouncerService } from '../announcer/announcer.service';
+
+// Off-screen live regions that screen readers read out as messages are added
+@Component({
+    selector: 'app-live-region',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './live-region.component.html',
+    styleUrls: ['./live-region.component.css']
+})
+export class LiveRegionComponent {
+    private announcer = inject(AnnouncerService);
+
+    protected polite = computed(() => this.announcer.messages().filter(message => !message.urgent));
+    protected assertive = computed(() => this.announcer.messages().filter(message => message.urgent));
+}
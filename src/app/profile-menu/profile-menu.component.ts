@@ -0,0 +1,89 @@
+import { Component, ElementRef, Injector, afterNextRender, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ProfileService } from '../profiles/profile.service';
+import { MAX_NAME_LENGTH } from '../profiles/profile-schema';
+
+// Launcher menu for picking, adding, renaming and deleting local profiles
+@Component({
+    selector: 'app-profile-menu',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './profile-menu.component.html',
+    styleUrls: ['./profile-menu.component.css']
+})
+export class ProfileMenuComponent {
+    protected profiles = inject(ProfileService);
+    private host: ElementRef<HTMLElement> = inject(ElementRef);
+    private injector = inject(Injector);
+    protected readonly MAX_NAME_LENGTH = MAX_NAME_LENGTH;
+
+    protected open = signal(false);
+    // Profile whose name is being edited, or whose deletion awaits confirmation
+    protected renaming = signal<string | null>(null);
+    protected confirmingDelete = signal<string | null>(null);
+
+    protected toggle(): void {
+        this.open.update(open => !open);
+        this.renaming.set(null);
+        this.confirmingDelete.set(null);
+        if (this.open()) this.focusLater('.profile-row.active button.name');
+    }
+
+    // Escape closes the menu, leaving focus on its button
+    protected close(event: Event, button: HTMLElement): void {
+        event.stopPropagation();
+        this.open.set(false);
+        button.focus();
+    }
+
+    protected switchTo(id: string): void {
+        this.profiles.switchTo(id);
+        this.open.set(false);
+        this.focusLater('.profile-button');
+    }
+
+    protected create(field: HTMLInputElement): void {
+        if (this.profiles.create(field.value)) {
+            field.value = '';
+            this.open.set(false);
+            this.focusLater('.profile-button');
+        }
+    }
+
+    protected startRename(id: string): void {
+        this.renaming.set(id);
+        this.focusLater(`[data-profile="${id}"] input`);
+    }
+
+    protected rename(id: string, name: string): void {
+        if (this.profiles.rename(id, name)) this.stopRenaming(id);
+    }
+
+    protected stopRenaming(id: string): void {
+        this.renaming.set(null);
+        this.focusLater(`[data-profile="${id}"] .rename`);
+    }
+
+    // Focus starts on NO, so a stray Enter keeps the player
+    protected confirmDelete(id: string): void {
+        this.confirmingDelete.set(id);
+        this.focusLater(`[data-profile="${id}"] .keep`);
+    }
+
+    protected keep(id: string): void {
+        this.confirmingDelete.set(null);
+        this.focusLater(`[data-profile="${id}"] .delete`);
+    }
+
+    // The deleted player's row goes with its buttons, so focus moves to the active player
+    protected remove(id: string): void {
+        this.profiles.remove(id);
+        this.confirmingDelete.set(null);
+        this.focusLater('.profile-row.active button.name');
+    }
+
+    // The element to focus may only appear once the change has rendered
+    private focusLater(selector: string): void {
+        afterNextRender(() => this.host.nativeElement.querySelector<HTMLElement>(selector)?.focus(), { injector: this.injector });
+    }
+}
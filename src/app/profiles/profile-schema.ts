@@ -0,0 +1,44 @@
+// Everything the arcade stores per player lives in one versioned document in localStorage
+
+// Per-profile data, each section owned by one service
+export type ProfileSection = 'audio' | 'keyBindings' | 'highScores' | 'achievements' | 'stats' | 'daily' | 'saves' | 'settings' | 'display';
+
+export interface Profile {
+    id: string;
+    name: string;
+    // ISO timestamp
+    created: string;
+    data: Partial<Record<ProfileSection, unknown>>;
+}
+
+export interface ArcadeStore {
+    version: number;
+    activeProfile: string;
+    profiles: Profile[];
+}
+
+export const SCHEMA_VERSION = 1;
+export const MAX_NAME_LENGTH = 12;
+
+// Upgrades a store from the given version to the next, e.g.
+// 1: store => ({ ...store, version: 2, profiles: store.profiles.map(...) })
+export const MIGRATIONS: Record<number, (store: ArcadeStore) => ArcadeStore> = {};
+
+export function migrate(store: ArcadeStore): ArcadeStore {
+    let migrated = store;
+    while (migrated.version < SCHEMA_VERSION) {
+        const upgrade = MIGRATIONS[migrated.version];
+        if (!upgrade) throw new Error(`No migration from schema version ${migrated.version}`);
+        migrated = upgrade(migrated);
+    }
+    return migrated;
+}
+
+export function createProfile(name: string, data: Profile['data'] = {}): Profile {
+    return {
+        id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+        name,
+        created: new Date().toISOString(),
+        data
+    };
+}
@@ -0,0 +1,177 @@
+import { Injectable, computed, effect, signal, untracked } from '@angular/core';
+import {
+    ArcadeStore, MAX_NAME_LENGTH, Profile, ProfileSection, SCHEMA_VERSION, createProfile, migrate
+} from './profile-schema';
+import { StoredHighScores } from '../scores/high-score.service';
+
+// Local player profiles. Services keep their data in a section of the active profile
+// and read it back reactively, so switching profiles swaps everything at once.
+@Injectable({ providedIn: 'root' })
+export class ProfileService {
+    private readonly STORAGE_KEY = 'arcadeProfiles';
+    // Where each section was kept before profiles existed
+    private readonly LEGACY_KEYS: Partial<Record<ProfileSection, string>> = {
+        audio: 'arcadeAudio',
+        keyBindings: 'arcadeKeyBindings',
+        highScores: 'arcadeHighScores'
+    };
+
+    private store = signal<ArcadeStore>(this.load());
+
+    // The whole document, for backups
+    readonly stored = this.store.asReadonly();
+    readonly profiles = computed(() => this.store().profiles);
+    readonly active = computed(() => {
+        const { profiles, activeProfile } = this.store();
+        return profiles.find(profile => profile.id === activeProfile) ?? profiles[0];
+    });
+
+    constructor() {
+        effect(() => this.flush());
+    }
+
+    // Writes the store out now rather than on the next change detection, for when the page is closing.
+    // Replays and ghosts take most of the room, so when storage is full the oldest go until it fits.
+    flush(): void {
+        let store = this.store();
+        for (;;) {
+            try {
+                localStorage.setItem(this.STORAGE_KEY, JSON.stringify(store));
+                break;
+            } catch (e) {
+                const smaller = e instanceof DOMException && e.name === 'QuotaExceededError' ? this.withoutOldestRecording(store) : null;
+                // Nothing left to drop: play goes on, and the next change tries again
+                if (!smaller) return;
+                store = smaller;
+            }
+        }
+        if (store !== this.store()) this.store.set(store);
+    }
+
+    // Swaps in a whole store, such as an imported backup
+    replace(store: ArcadeStore): void {
+        this.store.set(store);
+        this.flush();
+    }
+
+    read<T>(section: ProfileSection): T | undefined {
+        return this.active().data[section] as T | undefined;
+    }
+
+    // Untracked, so the effects that persist each section don't rerun on their own writes
+    write(section: ProfileSection, value: unknown): void {
+        const id = untracked(this.active).id;
+        this.updateProfile(id, profile => ({ ...profile, data: { ...profile.data, [section]: value } }));
+    }
+
+    // Adds a profile and switches to it; false if the name is empty
+    create(name: string): boolean {
+        const cleaned = this.cleanName(name);
+        if (!cleaned) return false;
+
+        const profile = createProfile(cleaned);
+        this.store.update(store => ({ ...store, activeProfile: profile.id, profiles: [...store.profiles, profile] }));
+        return true;
+    }
+
+    rename(id: string, name: string): boolean {
+        const cleaned = this.cleanName(name);
+        if (!cleaned) return false;
+
+        this.updateProfile(id, profile => ({ ...profile, name: cleaned }));
+        return true;
+    }
+
+    // The last profile can't be deleted; deleting the active one switches to the first left
+    remove(id: string): void {
+        this.store.update(store => {
+            if (store.profiles.length <= 1) return store;
+            const profiles = store.profiles.filter(profile => profile.id !== id);
+            const activeProfile = store.activeProfile === id ? profiles[0].id : store.activeProfile;
+            return { ...store, activeProfile, profiles };
+        });
+    }
+
+    switchTo(id: string): void {
+        if (!this.profiles().some(profile => profile.id === id)) return;
+        this.store.update(store => ({ ...store, activeProfile: id }));
+    }
+
+    private updateProfile(id: string, change: (profile: Profile) => Profile): void {
+        this.store.update(store => ({
+            ...store,
+            profiles: store.profiles.map(profile => (profile.id === id ? change(profile) : profile))
+        }));
+    }
+
+    // The store less the replay and ghost of the oldest recorded run in any profile, or null if there are none
+    private withoutOldestRecording(store: ArcadeStore): ArcadeStore | null {
+        let oldest: { profile: string; table: string; position: number; date: string } | null = null;
+        for (const profile of store.profiles) {
+            const tables = (profile.data.highScores as StoredHighScores | undefined)?.tables ?? {};
+            for (const [table, entries] of Object.entries(tables)) {
+                for (const [position, entry] of entries.entries()) {
+                    const date = entry.date ?? '';
+                    if ((entry.replay || entry.ghost) && (!oldest || date < oldest.date)) {
+                        oldest = { profile: profile.id, table, position, date };
+                    }
+                }
+            }
+        }
+        if (!oldest) return null;
+
+        const { profile: id, table, position } = oldest;
+        return {
+            ...store,
+            profiles: store.profiles.map(profile => {
+                if (profile.id !== id) return profile;
+                const highScores = profile.data.highScores as StoredHighScores;
+                const entries = highScores.tables[table].map((entry, index) => {
+                    if (index !== position) return entry;
+                    const { replay, ghost, ...withoutRecordings } = entry;
+                    return withoutRecordings;
+                });
+                const tables = { ...highScores.tables, [table]: entries };
+                return { ...profile, data: { ...profile.data, highScores: { ...highScores, tables } } };
+            })
+        };
+    }
+
+    private cleanName(name: string): string {
+        return name.trim().toUpperCase().slice(0, MAX_NAME_LENGTH);
+    }
+
+    private load(): ArcadeStore {
+        const saved = localStorage.getItem(this.STORAGE_KEY);
+        if (!saved) return this.fromLegacyKeys();
+
+        try {
+            const store = migrate(JSON.parse(saved));
+            if (store.profiles.length > 0) return store;
+        } catch (e) {
+            localStorage.removeItem(this.STORAGE_KEY);
+        }
+        return this.fresh();
+    }
+
+    private fresh(data: Profile['data'] = {}): ArcadeStore {
+        const profile = createProfile('PLAYER 1', data);
+        return { version: SCHEMA_VERSION, activeProfile: profile.id, profiles: [profile] };
+    }
+
+    // First run with profiles: whatever was saved before becomes the first profile's
+    private fromLegacyKeys(): ArcadeStore {
+        const data: Profile['data'] = {};
+        for (const [section, key] of Object.entries(this.LEGACY_KEYS) as [ProfileSection, string][]) {
+            const saved = localStorage.getItem(key);
+            if (saved === null) continue;
+            try {
+                data[section] = JSON.parse(saved);
+            } catch (e) {
+                // Unreadable old data is dropped
+            }
+            localStorage.removeItem(key);
+        }
+        return this.fresh(data);
+    }
+}
@@ -0,0 +1,38 @@
+// mulberry32: small, fast and good enough for games
+export class RandomStream {
+    private state = 0;
+
+    constructor(seed: number) {
+        this.reseed(seed);
+    }
+
+    reseed(seed: number): void {
+        this.state = seed >>> 0;
+    }
+
+    // Reseeding with this carries on from the current position
+    save(): number {
+        return this.state;
+    }
+
+    // Uniform in [0, 1), like Math.random()
+    next(): number {
+        let t = (this.state = (this.state + 0x6d2b79f5) >>> 0);
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    // Integer in [0, max)
+    int(max: number): number {
+        return Math.floor(this.next() * max);
+    }
+
+    pick<T>(items: readonly T[]): T {
+        return items[this.int(items.length)];
+    }
+
+    chance(probability: number): boolean {
+        return this.next() < probability;
+    }
+}
@@ -0,0 +1,83 @@
+import { Injectable, signal } from '@angular/core';
+import { RandomStream } from './random-stream';
+
+// Independent sequences, so cosmetic effects can't shift what gameplay draws next
+export type StreamName = 'gameplay' | 'cosmetic';
+
+// Where each stream of a run is up to, so a saved run can carry on drawing the same numbers
+export interface RandomSnapshot {
+    seed: number;
+    streams: Partial<Record<StreamName, number>>;
+}
+
+const MAX_SEED = 0xffffffff;
+
+// Seeds from the query string (?seed=N), or null when absent or not a valid seed
+export function parseSeed(value: unknown): number | null {
+    const seed = Number(value);
+    return value !== null && value !== undefined && value !== '' && Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED
+        ? seed
+        : null;
+}
+
+// FNV-1a over the stream name, starting from the run seed
+export function streamSeed(seed: number, name: string): number {
+    let hash = (seed ^ 0x811c9dc5) >>> 0;
+    for (let i = 0; i < name.length; i++) {
+        hash = Math.imul(hash ^ name.charCodeAt(i), 0x01000193) >>> 0;
+    }
+    return hash;
+}
+
+// A seed everyone gets for the same text, e.g. a date
+export function seedFromText(text: string): number {
+    return streamSeed(0, text);
+}
+
+function randomSeed(): number {
+    return crypto.getRandomValues(new Uint32Array(1))[0];
+}
+
+// All of a game's randomness, reproducible from one seed per run. Provided by the game
+// shell; GameSessionService starts each run with a fresh seed, or the chosen one.
+@Injectable()
+export class RandomService {
+    // Used for every run when set, otherwise each run gets a new seed
+    private fixedSeed: number | null = null;
+    private streams = new Map<StreamName, RandomStream>();
+
+    readonly seed = signal(randomSeed());
+
+    useSeed(seed: number | null): void {
+        this.fixedSeed = seed;
+    }
+
+    // Reseeds every stream in place, so games can keep the streams they hold
+    newRun(): void {
+        const seed = this.fixedSeed ?? randomSeed();
+        this.seed.set(seed);
+        this.streams.forEach((stream, name) => stream.reseed(streamSeed(seed, name)));
+    }
+
+    snapshot(): RandomSnapshot {
+        const streams: RandomSnapshot['streams'] = {};
+        this.streams.forEach((stream, name) => (streams[name] = stream.save()));
+        return { seed: this.seed(), streams };
+    }
+
+    restore({ seed, streams }: RandomSnapshot): void {
+        this.seed.set(seed);
+        for (const [name, state] of Object.entries(streams) as [StreamName, number][]) {
+            this.stream(name).reseed(state);
+        }
+    }
+
+    stream(name: StreamName): RandomStream {
+        let stream = this.streams.get(name);
+        if (!stream) {
+            stream = new RandomStream(streamSeed(this.seed(), name));
+            this.streams.set(name, stream);
+        }
+        return stream;
+    }
+}
@@ -0,0 +1,31 @@
+import { Component, inject, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReplayService, REPLAY_SPEEDS } from '../replays/replay.service';
+import { Replay } from '../replays/replay';
+import { HighScoreEntry } from '../scores/high-score.service';
+import { FRAME_MS } from '../game-loop/frame-time';
+
+// Transport bar for a replay: pause, frame step, speed and a scrub bar over the whole run
+@Component({
+    selector: 'app-replay-controls',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './replay-controls.component.html',
+    styleUrls: ['./replay-controls.component.css']
+})
+export class ReplayControlsComponent {
+    protected replays = inject(ReplayService);
+    protected speeds = REPLAY_SPEEDS;
+
+    replay = input.required<Replay>();
+    entry = input<HighScoreEntry | null>(null);
+
+    protected formatTime(steps: number): string {
+        const seconds = Math.floor(steps * FRAME_MS / 1000);
+        return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+    }
+
+    protected scrub(event: Event): void {
+        this.replays.seek((event.target as HTMLInputElement).valueAsNumber);
+    }
+}
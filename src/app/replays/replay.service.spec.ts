@@ -0,0 +1,70 @@
+import { TestBed } from '@angular/core/testing';
+import { ReplayService } from './replay.service';
+import { GameInputService } from '../input/game-input.service';
+import { RandomService } from '../random/random.service';
+import { RandomStream } from '../random/random-stream';
+import { HeldInput, tap } from '../games/engine-test-doubles';
+import { SnakeEngine, SnakeSnapshot } from '../snake-game/snake-engine';
+
+describe('ReplayService', () => {
+    const CELL = 20;
+    const STEP_MS = 16;
+    let replays: ReplayService;
+
+    function resizeWindow(width: number, height: number): void {
+        Object.defineProperty(window, 'innerWidth', { value: width, configurable: true });
+        Object.defineProperty(window, 'innerHeight', { value: height, configurable: true });
+    }
+
+    // Snake run by the rules its component follows: laid out on the viewport, and laid out again
+    // on a resize unless the field is fixed
+    function playSnake(resizeAt: number): SnakeSnapshot {
+        const [width, height] = replays.viewport();
+        const engine = new SnakeEngine(Math.floor(width / CELL), Math.floor(height / CELL), new RandomStream(7), () => {});
+        replays.startRun();
+        engine.press(tap('start'));
+        for (let step = 0; step < 2000; step++) {
+            if (step === resizeAt) {
+                resizeWindow(400, 300);
+                if (!replays.fixedViewport()) {
+                    const [cols, rows] = replays.viewport().map(size => Math.floor(size / CELL));
+                    engine.resize(cols, rows);
+                }
+            }
+            engine.step(new HeldInput(), STEP_MS);
+        }
+        return engine.snapshot();
+    }
+
+    beforeEach(() => {
+        resizeWindow(800, 600);
+        TestBed.configureTestingModule({ providers: [ReplayService, GameInputService, RandomService] });
+        replays = TestBed.inject(ReplayService);
+        replays.record(1);
+    });
+
+    it('keeps a run on the field it started on when the window is resized', () => {
+        const original = playSnake(100);
+        const replay = replays.finishRun()!;
+        expect(replay.viewport).toEqual([800, 600]);
+
+        // Played back in a window of yet another size
+        resizeWindow(1024, 768);
+        replays.play(replay);
+        expect(replays.viewport()).toEqual([800, 600]);
+        expect(playSnake(100)).toEqual(original);
+    });
+
+    it('follows the window between runs', () => {
+        playSnake(100);
+        replays.finishRun();
+        expect(replays.fixedViewport()).toBe(false);
+        expect(replays.viewport()).toEqual([400, 300]);
+    });
+
+    it('plays daily runs on their fixed field', () => {
+        replays.record(1, undefined, [1280, 720]);
+        playSnake(100);
+        expect(replays.finishRun()!.viewport).toEqual([1280, 720]);
+    });
+});
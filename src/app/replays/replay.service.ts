@@ -0,0 +1,230 @@
+import { Injectable, OnDestroy, inject, signal } from '@angular/core';
+import { GameInputService, InputChannel, POINTER_CHANNEL, channelFor, parseChannel } from '../input/game-input.service';
+import { ARCADE_ACTIONS } from '../input/input-actions';
+import { RandomService } from '../random/random.service';
+import { AudioService } from '../audio/audio.service';
+import { GameLoopService } from '../game-loop/game-loop.service';
+import { PRESSED, REPEATED, Replay, ReplayInput } from './replay';
+import { RunSettings } from '../settings/game-settings';
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+// Records each run in the game shell as the input that reached every simulation step, and
+// plays a recording back in place of the player. Provided by the shell; the game's loop
+// attaches itself and reports each step.
+@Injectable()
+export class ReplayService implements OnDestroy {
+    private input = inject(GameInputService);
+    private random = inject(RandomService);
+    private audio = inject(AudioService);
+
+    private loop: GameLoopService | null = null;
+    private startLevel = 1;
+    private settings: RunSettings | undefined;
+    private field: [number, number] | undefined;
+    // The size last handed out for a live field, which is what the game is laid out on
+    private laidOut: [number, number] = [window.innerWidth, window.innerHeight];
+    // Steps since the run began
+    private step = 0;
+    private inputs: ReplayInput[] = [];
+    private recording = false;
+    // Held values as of the last step, so only changes are recorded
+    private held = new Map<InputChannel, number>();
+    // Playback: the next recorded input, and the step a seek is heading for
+    private next = 0;
+    private seekTarget: number | null = null;
+
+    // The recording being played, or null while the player plays
+    readonly playback = signal<Replay | null>(null);
+    // Steps into the run, live or played back
+    readonly position = signal(0);
+    readonly paused = signal(false);
+    readonly speed = signal(1);
+    // Bumped to have the shell mount the game afresh
+    readonly restarts = signal(0);
+
+    constructor() {
+        this.input.onPress(({ action, repeat, player }) => {
+            if (this.playback() || ARCADE_ACTIONS.some(({ id }) => id === action)) return;
+            this.inputs.push([this.step, channelFor(action, player), repeat ? REPEATED : PRESSED]);
+        });
+    }
+
+    attach(loop: GameLoopService): void {
+        this.loop = loop;
+        this.applySpeed();
+        if (this.seekTarget !== null) loop.skip(this.seekTarget);
+    }
+
+    // Live runs are recorded as starting from this level, with these settings, on a field of
+    // this size if given rather than one that follows the window
+    record(startLevel: number, settings?: RunSettings, field?: [number, number]): void {
+        this.startLevel = startLevel;
+        this.settings = settings;
+        this.field = field;
+    }
+
+    // The size games lay their field out for: a replay's recorded one, the fixed one, the one a
+    // recorded run started on, or the window's between runs
+    viewport(): [number, number] {
+        const fixed = this.playback()?.viewport ?? this.field;
+        if (fixed) return fixed;
+        if (!this.recording) this.laidOut = [window.innerWidth, window.innerHeight];
+        return this.laidOut;
+    }
+
+    // Whether the field keeps its size when the window changes. Replays have nothing but the
+    // recorded size to go on, so a run keeps the size it started with and only scales to fit.
+    fixedViewport(): boolean {
+        return this.playback() !== null || this.field !== undefined || this.recording;
+    }
+
+    play(replay: Replay): void {
+        this.playback.set(replay);
+        this.input.startPlayback();
+        this.random.useSeed(replay.seed);
+    }
+
+    // A run begins. Presses since the last step belong to it, as one of them usually started it.
+    startRun(): void {
+        if (this.playback()) return;
+        this.inputs = this.inputs
+            .filter(([step, , value]) => step === this.step && value < 0)
+            .map(([, channel, value]) => [0, channel, value]);
+        this.step = 0;
+        this.position.set(0);
+        this.held.clear();
+        this.recording = true;
+    }
+
+    // The recording of the run that just ended, or null during playback
+    finishRun(): Replay | null {
+        if (this.playback() || !this.recording) return null;
+
+        const replay: Replay = {
+            seed: this.random.seed(),
+            startLevel: this.startLevel,
+            settings: this.settings,
+            viewport: this.field ?? this.laidOut,
+            steps: this.step,
+            inputs: this.inputs
+        };
+        this.recording = false;
+        this.inputs = [];
+        return replay;
+    }
+
+    beforeStep(): void {
+        const replay = this.playback();
+        if (replay) this.playStep(replay);
+        else this.recordStep();
+    }
+
+    togglePause(): void {
+        const replay = this.playback();
+        // Playing on from the end starts over
+        if (this.paused() && replay && this.step >= replay.steps) this.seek(0);
+        this.setPaused(!this.paused());
+    }
+
+    setPaused(paused: boolean): void {
+        this.paused.set(paused);
+        this.applySpeed();
+    }
+
+    setSpeed(speed: number): void {
+        this.speed.set(speed);
+        this.applySpeed();
+    }
+
+    stepFrame(): void {
+        const replay = this.playback();
+        if (!replay || !this.loop || this.step >= replay.steps) return;
+        this.setPaused(true);
+        this.loop.skip(1);
+    }
+
+    seek(target: number): void {
+        const replay = this.playback();
+        if (!replay) return;
+
+        target = Math.max(0, Math.min(replay.steps, Math.round(target)));
+        const heading = this.seekTarget ?? this.step;
+        if (target === heading) return;
+        if (target > this.step) {
+            // Steps still queued for an earlier seek count towards this one. Without a loop
+            // the game is being mounted again, and attach() queues the lot.
+            this.audio.silence(true);
+            this.loop?.skip(target - heading);
+            this.seekTarget = target;
+            return;
+        }
+
+        // Steps can't be undone, so going back means playing from the start again
+        this.loop?.stop();
+        this.loop = null;
+        this.step = 0;
+        this.next = 0;
+        this.held.clear();
+        this.position.set(0);
+        this.input.playStep(this.held);
+        this.seekTarget = target > 0 ? target : null;
+        this.audio.silence(target > 0);
+        this.restarts.update(count => count + 1);
+    }
+
+    ngOnDestroy(): void {
+        this.audio.silence(false);
+    }
+
+    private recordStep(): void {
+        const values = this.input.sample();
+        if (this.recording) {
+            for (const [channel, value] of values) {
+                if (channel === POINTER_CHANNEL || this.held.get(channel) !== value) {
+                    this.inputs.push([this.step, channel, value]);
+                }
+            }
+            for (const channel of this.held.keys()) {
+                if (!values.has(channel)) this.inputs.push([this.step, channel, 0]);
+            }
+        }
+        this.held = new Map(values);
+        this.held.delete(POINTER_CHANNEL);
+        this.step++;
+        this.position.set(this.step);
+    }
+
+    private playStep(replay: Replay): void {
+        const presses: ReplayInput[] = [];
+        let pointer: number | null = null;
+        for (; this.next < replay.inputs.length && replay.inputs[this.next][0] === this.step; this.next++) {
+            const input = replay.inputs[this.next];
+            const [, channel, value] = input;
+            if (value === PRESSED || value === REPEATED) presses.push(input);
+            else if (channel === POINTER_CHANNEL) pointer = value;
+            else if (value === 0) this.held.delete(channel);
+            else this.held.set(channel, value);
+        }
+
+        // Presses reached the game before the step's values were sampled
+        for (const [, channel, value] of presses) {
+            this.input.playPress({ ...parseChannel(channel), repeat: value === REPEATED });
+        }
+        const values = new Map(this.held);
+        if (pointer !== null) values.set(POINTER_CHANNEL, pointer);
+        this.input.playStep(values);
+
+        this.step++;
+        this.position.set(this.step);
+        if (this.step === this.seekTarget) {
+            this.seekTarget = null;
+            this.audio.silence(false);
+        }
+        if (this.step >= replay.steps) this.setPaused(true);
+    }
+
+    private applySpeed(): void {
+        if (this.loop && this.playback()) this.loop.speed = this.paused() ? 0 : this.speed();
+    }
+}
@@ -0,0 +1,25 @@
+import { InputChannel } from '../input/game-input.service';
+import { RunSettings } from '../settings/game-settings';
+
+// Values of a ReplayInput that stand for a press rather than a held amount
+export const PRESSED = -1;
+export const REPEATED = -2;
+
+// [step, channel, value]: the value a channel takes from that step on, or PRESSED/REPEATED
+// for a press that came just before it. Pointer moves only last for their own step.
+export type ReplayInput = [number, InputChannel, number];
+
+// Everything needed to play a run again: the games are deterministic given their seed,
+// start level, settings and the input that reached each simulation step
+export interface Replay {
+    seed: number;
+    startLevel: number;
+    // Recordings from before the difficulty presets were played on Normal
+    settings?: RunSettings;
+    // Window size when recorded. The games lay out to fit the window, so playback at
+    // another size can drift from the original.
+    viewport: [number, number];
+    // Steps from the start of the run to game over
+    steps: number;
+    inputs: ReplayInput[];
+}
@@ -0,0 +1,35 @@
+import { matchesShape } from './saved-run';
+
+describe('matchesShape', () => {
+    const EXAMPLE = {
+        snake: [{ x: 3, y: 4 }],
+        direction: 'up',
+        apple: { x: 1, y: 1 },
+        score: 0,
+        paused: false,
+        bonus: null,
+        bullets: []
+    };
+
+    it('accepts states of the same shape, whatever their values', () => {
+        const state = {
+            snake: [{ x: 5, y: 6 }, { x: 5, y: 7 }],
+            direction: 'left',
+            apple: { x: 9, y: 2 },
+            score: 120,
+            paused: true,
+            bonus: { x: 2, y: 2 },
+            bullets: [{ x: 1, y: 2, speed: 3 }]
+        };
+        expect(matchesShape(state, EXAMPLE)).toBe(true);
+    });
+
+    it('rejects missing fields and values of the wrong kind', () => {
+        expect(matchesShape({ ...EXAMPLE, score: undefined }, EXAMPLE)).toBe(false);
+        expect(matchesShape({ ...EXAMPLE, snake: { x: 3, y: 4 } }, EXAMPLE)).toBe(false);
+        expect(matchesShape({ ...EXAMPLE, snake: [{ x: 3 }] }, EXAMPLE)).toBe(false);
+        expect(matchesShape({ ...EXAMPLE, apple: null }, EXAMPLE)).toBe(false);
+        expect(matchesShape({ ...EXAMPLE, paused: 'no' }, EXAMPLE)).toBe(false);
+        expect(matchesShape([], EXAMPLE)).toBe(false);
+    });
+});
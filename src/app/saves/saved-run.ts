@@ -0,0 +1,40 @@
+import { RandomSnapshot } from '../random/random.service';
+import { RunSettings } from '../settings/game-settings';
+
+// How a game keeps a run in progress. Bump the version whenever the state changes shape:
+// a saved run of another version is dropped rather than restored.
+export interface Snapshotter<S> {
+    version: number;
+    save(): { score: number; level?: number; state: S };
+    restore(state: S): void;
+}
+
+// A run left mid-game, kept per profile and game until it's continued or replaced
+export interface SavedRun {
+    version: number;
+    // ISO timestamp
+    savedAt: string;
+    score: number;
+    level?: number;
+    // Play time before the run was saved
+    durationMs: number;
+    random: RandomSnapshot;
+    // The run carries on with the settings it started with
+    settings?: RunSettings;
+    state: unknown;
+}
+
+// Whether a saved state has the shape of the example, a state the game made itself: the same
+// kind of value in every field, all the way down. Array items are checked against the example's
+// first, and fields the example leaves null or undefined take anything.
+export function matchesShape(value: unknown, example: unknown): boolean {
+    if (example === null || example === undefined) return true;
+    if (Array.isArray(example)) {
+        return Array.isArray(value) && (example.length === 0 || value.every(item => matchesShape(item, example[0])));
+    }
+    if (typeof example === 'object') {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+        return Object.entries(example).every(([key, field]) => matchesShape((value as Record<string, unknown>)[key], field));
+    }
+    return typeof value === typeof example;
+}
@@ -0,0 +1,31 @@
+import { Injectable, effect, inject, linkedSignal } from '@angular/core';
+import { ProfileService } from '../profiles/profile.service';
+import { SavedRun } from './saved-run';
+
+// Runs in progress by game, one per game for each profile
+@Injectable({ providedIn: 'root' })
+export class SavedRunsService {
+    private profiles = inject(ProfileService);
+
+    readonly runs = linkedSignal(() => this.profiles.read<Record<string, SavedRun>>('saves') ?? {});
+
+    constructor() {
+        effect(() => this.profiles.write('saves', this.runs()));
+    }
+
+    saved(game: string): SavedRun | undefined {
+        return this.runs()[game];
+    }
+
+    // Written through at once, as saving usually happens while the page goes away
+    store(game: string, run: SavedRun): void {
+        this.runs.update(runs => ({ ...runs, [game]: run }));
+        this.profiles.write('saves', this.runs());
+        this.profiles.flush();
+    }
+
+    discard(game: string): void {
+        if (!this.saved(game)) return;
+        this.runs.update(({ [game]: _, ...runs }) => runs);
+    }
+}
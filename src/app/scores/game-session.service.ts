@@ -0,0 +1,237 @@
+import { Injectable, OnDestroy, inject, signal } from '@angular/core';
+import { HighScoreService } from './high-score.service';
+import { GameEvent } from '../events/game-events';
+import { GameEventsService } from '../events/game-events.service';
+import { RandomService } from '../random/random.service';
+import { ReplayService } from '../replays/replay.service';
+import { Replay } from '../replays/replay';
+import { GhostService } from '../ghosts/ghost.service';
+import { GhostTrack } from '../ghosts/ghost-track';
+import { SavedRunsService } from '../saves/saved-runs.service';
+import { SavedRun, Snapshotter, matchesShape } from '../saves/saved-run';
+import { Preset, RunSettings } from '../settings/game-settings';
+import { Describable } from '../games/game-engine';
+
+export interface GameResult {
+    score: number;
+    level?: number;
+}
+
+export interface FinishedRun extends GameResult {
+    game: string;
+    mode?: string;
+    preset?: Preset;
+    durationMs: number;
+    date: string;
+    replay?: Replay;
+    ghost?: GhostTrack;
+}
+
+// Tracks the run in progress for the game shell. Games report when a run begins and ends,
+// and what happens in between, which goes out on the arcade's event stream; a score good
+// enough for the tables waits in pendingEntry for the player's initials. Replays are only
+// watched: they reach neither the event stream nor the tables, and neither do untracked runs,
+// such as a bot's.
+// Games that can snapshot their state have a ranked run saved when the player leaves mid-game,
+// to be continued later from the launcher.
+@Injectable()
+export class GameSessionService implements OnDestroy {
+    private highScores = inject(HighScoreService);
+    private events = inject(GameEventsService);
+    private random = inject(RandomService);
+    private replays = inject(ReplayService);
+    private ghosts = inject(GhostService);
+    private saves = inject(SavedRunsService);
+
+    private game = '';
+    private mode: string | undefined;
+    // Unranked runs never wait for initials
+    private ranked = true;
+    // Untracked runs count towards no stats or achievements
+    private tracked = true;
+    private settings: RunSettings | undefined;
+    private startedAt: number | null = null;
+    // How much of the run's time has gone out as play time
+    private reportedMs = 0;
+    private snapshotter: Snapshotter<unknown> | null = null;
+    // The saved run to continue once the game hands over its snapshotter
+    private continuing: SavedRun | null = null;
+    // Resumed runs were partly played elsewhere, so they keep no replay or ghost
+    private resumed = false;
+    private describer: Describable | null = null;
+
+    readonly pendingEntry = signal<FinishedRun | null>(null);
+    // True between the end of a run and the start of the next
+    readonly finished = signal(false);
+
+    constructor() {
+        document.addEventListener('visibilitychange', this.onVisibilityChange);
+    }
+
+    use(
+        game: string,
+        { mode, ranked = true, tracked = true, settings }: { mode?: string; ranked?: boolean; tracked?: boolean; settings?: RunSettings } = {}
+    ): void {
+        this.game = game;
+        this.mode = mode;
+        this.ranked = ranked;
+        this.tracked = tracked;
+        this.settings = settings;
+        this.ghosts.use(game, mode);
+    }
+
+    // Continue the game's saved run instead of starting afresh
+    resume(): void {
+        this.continuing = this.saves.saved(this.game) ?? null;
+    }
+
+    // Called by games that can be saved mid-run, once their first run is set up
+    resumable<S>(snapshotter: Snapshotter<S>): void {
+        this.snapshotter = snapshotter as Snapshotter<unknown>;
+        const run = this.continuing;
+        this.continuing = null;
+        if (!run) return;
+        // A run saved by another version, or damaged on the way, such as in an imported backup, is
+        // dropped: the fresh game's own state shows what it has to look like
+        if (run.version !== snapshotter.version || !matchesShape(run.state, snapshotter.save().state)) {
+            this.saves.discard(this.game);
+            return;
+        }
+
+        this.random.restore(run.random);
+        snapshotter.restore(structuredClone(run.state) as S);
+        this.ghosts.ghost.set(null);
+        this.resumed = true;
+        this.startedAt = performance.now() - run.durationMs;
+        // Counted when the run was saved
+        this.reportedMs = run.durationMs;
+        this.pendingEntry.set(null);
+        this.finished.set(false);
+        // Leaving and coming back is a break in play, so streaks such as "without pausing" end here
+        this.emit({ type: 'paused' });
+    }
+
+    // Called by games that can put their state into words, once their engine is set up
+    describable(describer: Describable): void {
+        this.describer = describer;
+    }
+
+    // The game's state in words, or null if the game can't describe it
+    describe(): string | null {
+        return this.describer?.describe() ?? null;
+    }
+
+    // Call before the run draws any random numbers: it reseeds the game's streams
+    begin(): void {
+        // Restarting leaves the run in progress
+        this.reportPlayTime();
+        this.random.newRun();
+        this.replays.startRun();
+        this.ghosts.startRun();
+        this.startedAt = performance.now();
+        this.reportedMs = 0;
+        this.resumed = false;
+        this.pendingEntry.set(null);
+        this.finished.set(false);
+        this.emit({ type: 'run-start' });
+        // A new run replaces the saved one
+        if (this.saving) this.saves.discard(this.game);
+    }
+
+    emit(event: GameEvent): void {
+        if (this.replays.playback() || !this.tracked) return;
+        this.events.emit(this.game, event);
+    }
+
+    end(result: GameResult): void {
+        // Ignore repeated reports of the same game over
+        if (this.startedAt === null) return;
+
+        this.reportPlayTime();
+        const replay = this.replays.finishRun();
+        const ghost = this.ghosts.finishRun();
+        const run: FinishedRun = {
+            ...result,
+            game: this.game,
+            mode: this.mode,
+            preset: this.settings?.preset,
+            durationMs: Math.round(performance.now() - this.startedAt),
+            date: new Date().toISOString(),
+            replay: this.resumed ? undefined : replay ?? undefined,
+            ghost: this.resumed ? undefined : ghost ?? undefined
+        };
+        this.startedAt = null;
+        if (this.saving) this.saves.discard(this.game);
+        this.finished.set(true);
+        this.emit({ type: 'run-end', score: run.score, level: run.level, durationMs: run.durationMs });
+
+        if (this.ranked && !this.replays.playback() && this.highScores.rankFor(run.game, run.score, run.mode) !== -1) {
+            this.pendingEntry.set(run);
+        }
+    }
+
+    saveEntry(initials: string): void {
+        const run = this.pendingEntry();
+        if (!run) return;
+
+        this.highScores.add(run.game, {
+            initials,
+            score: run.score,
+            level: run.level,
+            durationMs: run.durationMs,
+            date: run.date,
+            preset: run.preset,
+            replay: run.replay,
+            ghost: run.ghost
+        }, run.mode);
+        this.highScores.lastInitials.set(initials);
+        this.pendingEntry.set(null);
+    }
+
+    discardEntry(): void {
+        this.pendingEntry.set(null);
+    }
+
+    ngOnDestroy(): void {
+        document.removeEventListener('visibilitychange', this.onVisibilityChange);
+        this.reportPlayTime();
+        this.save();
+    }
+
+    // Play time goes out as it's played, so runs that are left or saved count towards it too
+    private reportPlayTime(): void {
+        if (this.startedAt === null) return;
+        const elapsed = Math.round(performance.now() - this.startedAt);
+        if (elapsed > this.reportedMs) this.emit({ type: 'play-time', durationMs: elapsed - this.reportedMs });
+        this.reportedMs = elapsed;
+    }
+
+    // Playback and unranked runs like the daily are never saved
+    private get saving(): boolean {
+        return this.ranked && !this.replays.playback();
+    }
+
+    // Saved on leaving the game, and whenever the page is hidden: the last moment a closing tab
+    // reliably gets, particularly on mobile
+    private save(): void {
+        if (!this.snapshotter || this.startedAt === null || !this.saving) return;
+        // Copied, as the game carries on changing its state in place
+        const { score, level, state } = structuredClone(this.snapshotter.save());
+        this.saves.store(this.game, {
+            version: this.snapshotter.version,
+            savedAt: new Date().toISOString(),
+            score,
+            level,
+            durationMs: Math.round(performance.now() - this.startedAt),
+            random: this.random.snapshot(),
+            settings: this.settings,
+            state
+        });
+    }
+
+    private onVisibilityChange = (): void => {
+        if (document.visibilityState !== 'hidden') return;
+        this.reportPlayTime();
+        this.save();
+    };
+}
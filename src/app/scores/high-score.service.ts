@@ -0,0 +1,100 @@
+import { Injectable, effect, inject, linkedSignal } from '@angular/core';
+import { ProfileService } from '../profiles/profile.service';
+import { Replay } from '../replays/replay';
+import { GhostTrack } from '../ghosts/ghost-track';
+import { Preset } from '../settings/game-settings';
+
+export interface HighScoreEntry {
+    initials: string;
+    score: number;
+    level?: number;
+    durationMs?: number;
+    // ISO timestamp of the end of the run
+    date?: string;
+    // The difficulty the run was played at; scores from before the presets were on Normal
+    preset?: Preset;
+    replay?: Replay;
+    ghost?: GhostTrack;
+}
+
+export interface StoredHighScores {
+    // Top scores by table key, best first
+    tables: Record<string, HighScoreEntry[]>;
+    // Prefilled on the next initials entry
+    lastInitials: string;
+}
+
+export const TABLE_SIZE = 10;
+// Replays and ghost tracks take room in storage, so only the top entries keep theirs
+export const REPLAY_SLOTS = 3;
+
+// A table cut down to size, best first, with recordings only on the top entries
+export function trimTable(table: HighScoreEntry[]): HighScoreEntry[] {
+    return table.slice(0, TABLE_SIZE).map((entry, position) => {
+        if (position < REPLAY_SLOTS) return entry;
+        const { replay, ghost, ...withoutRecordings } = entry;
+        return withoutRecordings;
+    });
+}
+
+// Top-ten tables per game, and per mode where a game has several, kept per profile
+@Injectable({ providedIn: 'root' })
+export class HighScoreService {
+    private profiles = inject(ProfileService);
+    // Snake's single best score from before the shared tables
+    private readonly LEGACY_SNAKE_KEY = 'snakeHighScore';
+
+    private tables = linkedSignal(() => this.profiles.read<StoredHighScores>('highScores')?.tables ?? {});
+    readonly lastInitials = linkedSignal(() => this.profiles.read<StoredHighScores>('highScores')?.lastInitials ?? 'AAA');
+
+    constructor() {
+        this.migrateSnake();
+        effect(() => {
+            const stored: StoredHighScores = { tables: this.tables(), lastInitials: this.lastInitials() };
+            this.profiles.write('highScores', stored);
+        });
+    }
+
+    table(game: string, mode?: string): HighScoreEntry[] {
+        return this.tables()[this.tableKey(game, mode)] ?? [];
+    }
+
+    best(game: string, mode?: string): number {
+        return this.table(game, mode)[0]?.score ?? 0;
+    }
+
+    // Position the score would take in the table (0-based), or -1 if it doesn't make it
+    rankFor(game: string, score: number, mode?: string): number {
+        if (score <= 0) return -1;
+        const table = this.table(game, mode);
+        const rank = table.findIndex(entry => score > entry.score);
+        if (rank !== -1) return rank;
+        return table.length < TABLE_SIZE ? table.length : -1;
+    }
+
+    add(game: string, entry: HighScoreEntry, mode?: string): void {
+        const key = this.tableKey(game, mode);
+        const rank = this.rankFor(game, entry.score, mode);
+        if (rank === -1) return;
+
+        this.tables.update(tables => {
+            const table = [...(tables[key] ?? [])];
+            table.splice(rank, 0, entry);
+            return { ...tables, [key]: trimTable(table) };
+        });
+    }
+
+    private tableKey(game: string, mode?: string): string {
+        return mode ? `${game}:${mode}` : game;
+    }
+
+    // Carries the old snake best over as an entry with unknown initials
+    private migrateSnake(): void {
+        const saved = localStorage.getItem(this.LEGACY_SNAKE_KEY);
+        if (saved === null) return;
+
+        const score = parseInt(saved, 10);
+        if (score > 0) this.add('snake', { initials: '???', score });
+        localStorage.removeItem(this.LEGACY_SNAKE_KEY);
+    }
+}
@@ -0,0 +1,23 @@
+import { Component, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { parseSeed } from '../random/random.service';
+
+// Optional fixed seed for the next run; left blank, every run gets a new one
+@Component({
+    selector: 'app-seed-field',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './seed-field.component.html',
+    styleUrls: ['./seed-field.component.css']
+})
+export class SeedFieldComponent {
+    seed = input<number | null>(null);
+    seedChange = output<number | null>();
+
+    protected commit(field: HTMLInputElement): void {
+        const seed = parseSeed(field.value.trim());
+        // Anything that isn't a valid seed falls back to random
+        field.value = seed === null ? '' : String(seed);
+        if (seed !== this.seed()) this.seedChange.emit(seed);
+    }
+}
@@ -0,0 +1,51 @@
+import { Injectable, effect, inject, linkedSignal } from '@angular/core';
+import { GameDescriptor } from '../games/game-descriptor';
+import { ProfileService } from '../profiles/profile.service';
+import { Difficulty, PRESETS, Preset, RunSettings, presetValues, settleValues } from './game-settings';
+
+// Per game: the preset picked, and the values last set by hand for Custom
+interface StoredSettings {
+    preset: Preset;
+    custom?: Record<string, number>;
+}
+
+// The difficulty each game is played at, kept per profile. Games start on Normal.
+@Injectable({ providedIn: 'root' })
+export class GameSettingsService {
+    private profiles = inject(ProfileService);
+
+    private stored = linkedSignal(() => this.profiles.read<Record<string, StoredSettings>>('settings') ?? {});
+
+    constructor() {
+        effect(() => this.profiles.write('settings', this.stored()));
+    }
+
+    preset(game: GameDescriptor): Preset {
+        const preset = this.stored()[game.id]?.preset;
+        return preset && PRESETS.includes(preset) ? preset : 'normal';
+    }
+
+    // What the next run is played with
+    current(game: GameDescriptor): RunSettings {
+        const preset = this.preset(game);
+        const values = preset === 'custom' ? settleValues(game.settings, this.stored()[game.id]?.custom ?? {}) : presetValues(game.settings, preset);
+        return { preset, values };
+    }
+
+    // Custom picks up from the values in use, until some are set by hand
+    choose(game: GameDescriptor, preset: Preset): void {
+        const custom = this.stored()[game.id]?.custom ?? (preset === 'custom' ? this.current(game).values : undefined);
+        this.stored.update(stored => ({ ...stored, [game.id]: { preset, custom } }));
+    }
+
+    // Changing a value switches to Custom, starting from the values in use
+    set(game: GameDescriptor, id: string, value: number): void {
+        const custom = settleValues(game.settings, { ...this.current(game).values, [id]: value });
+        this.stored.update(stored => ({ ...stored, [game.id]: { preset: 'custom', custom } }));
+    }
+}
+
+// The settings of a run at one of the fixed difficulties, such as the daily's Normal
+export function difficultySettings(game: GameDescriptor, difficulty: Difficulty): RunSettings {
+    return { preset: difficulty, values: presetValues(game.settings, difficulty) };
+}
@@ -0,0 +1,17 @@
+import { SettingField, presetValues, settleValues } from './game-settings';
+
+describe('game settings', () => {
+    const FIELDS: SettingField<'lives' | 'speed'>[] = [
+        { id: 'lives', label: 'Lives', min: 1, max: 9, step: 1, presets: { easy: 5, normal: 3, hard: 2 } },
+        { id: 'speed', label: 'Speed', min: 0.5, max: 4, step: 0.5, presets: { easy: 1, normal: 2, hard: 3 } }
+    ];
+
+    it('reads the values of a preset', () => {
+        expect(presetValues(FIELDS, 'hard')).toEqual({ lives: 2, speed: 3 });
+    });
+
+    it('brings values into range, and fills in missing ones from Normal', () => {
+        expect(settleValues(FIELDS, { lives: 20, speed: 'fast' })).toEqual({ lives: 9, speed: 2 });
+        expect(settleValues(FIELDS, { speed: 0 })).toEqual({ lives: 3, speed: 0.5 });
+    });
+});
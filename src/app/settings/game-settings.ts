@@ -0,0 +1,33 @@
+export type Difficulty = 'easy' | 'normal' | 'hard';
+// Custom is whatever the player set by hand
+export type Preset = Difficulty | 'custom';
+
+export const PRESETS: Preset[] = ['easy', 'normal', 'hard', 'custom'];
+
+// One of a game's tunables, with its value under each difficulty
+export interface SettingField<K extends string = string> {
+    id: K;
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    presets: Record<Difficulty, number>;
+}
+
+// What a run is played with: the preset that was picked and the values it came to
+export interface RunSettings {
+    preset: Preset;
+    values: Record<string, number>;
+}
+
+export function presetValues<K extends string>(fields: SettingField<K>[], difficulty: Difficulty): Record<K, number> {
+    return Object.fromEntries(fields.map(field => [field.id, field.presets[difficulty]])) as Record<K, number>;
+}
+
+// Values brought into range, with Normal filling in any that are missing or unreadable
+export function settleValues(fields: SettingField[], values: Record<string, unknown>): Record<string, number> {
+    return Object.fromEntries(fields.map(field => {
+        const value = Number(values[field.id]);
+        return [field.id, Number.isFinite(value) ? Math.min(field.max, Math.max(field.min, value)) : field.presets.normal];
+    }));
+}
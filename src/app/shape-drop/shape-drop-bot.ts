@@ -0,0 +1,114 @@
+import { Bot, BotMove } from '../bots/bot';
+import { COLS, ROWS, SHAPES, ShapeDropAction, ShapeDropObservation } from './shape-drop-engine';
+
+interface Placement {
+    pattern: number[][];
+    x: number;
+    rating: number;
+}
+
+// Weights for rating the board a placement leaves behind, from Yiyuan Lee's tuned Tetris AI
+const HEIGHT_WEIGHT = -0.51;
+const LINES_WEIGHT = 0.76;
+const HOLES_WEIGHT = -0.36;
+const BUMPINESS_WEIGHT = -0.18;
+
+// Tries every rotation of the current piece in every column, drops each one in its head and
+// goes for the one leaving the best board: low, flat, few holes and lines cleared. Then it
+// rotates, shifts and hard drops, one control at a time and one every few steps, so it can
+// be watched.
+export class ShapeDropPlacer implements Bot<ShapeDropObservation, ShapeDropAction> {
+    readonly name = 'placer';
+
+    private wait = 0;
+
+    constructor(private stepsPerMove = 1) {}
+
+    reset(): void {
+        this.wait = 0;
+    }
+
+    move({ board, current, position }: ShapeDropObservation): BotMove<ShapeDropAction> {
+        if (!current || --this.wait > 0) return {};
+        this.wait = this.stepsPerMove;
+
+        // Rotations start from the piece as it spawns, so the target stays put as it turns
+        const target = this.best(board, SHAPES[current.shape].pattern);
+        if (!target) return { press: ['hard-drop'] };
+        if (!samePattern(target.pattern, current.pattern)) return { press: ['rotate'] };
+        if (target.x < position.x) return { press: ['move-left'] };
+        if (target.x > position.x) return { press: ['move-right'] };
+        return { press: ['hard-drop'] };
+    }
+
+    private best(board: number[][], spawned: number[][]): Placement | null {
+        let best: Placement | null = null;
+        let pattern = spawned;
+        for (let turn = 0; turn < 4; turn++) {
+            for (let x = -pattern.length + 1; x < COLS; x++) {
+                const y = dropHeight(board, pattern, x);
+                if (y === null) continue;
+                const rating = rate(place(board, pattern, x, y));
+                if (!best || rating > best.rating) best = { pattern, x, rating };
+            }
+            pattern = rotate(pattern);
+        }
+        return best;
+    }
+}
+
+function fits(board: number[][], pattern: number[][], x: number, y: number): boolean {
+    return pattern.every((row, r) =>
+        row.every((cell, c) => {
+            if (!cell) return true;
+            const col = x + c;
+            const line = y + r;
+            return col >= 0 && col < COLS && line < ROWS && (line < 0 || !board[line][col]);
+        })
+    );
+}
+
+// Where a piece dropped straight down from the top comes to rest, or null if it can't go there
+function dropHeight(board: number[][], pattern: number[][], x: number): number | null {
+    if (!fits(board, pattern, x, 0)) return null;
+    let y = 0;
+    while (fits(board, pattern, x, y + 1)) y++;
+    return y;
+}
+
+function place(board: number[][], pattern: number[][], x: number, y: number): number[][] {
+    const placed = board.map(row => [...row]);
+    pattern.forEach((row, r) =>
+        row.forEach((cell, c) => {
+            if (cell && y + r >= 0) placed[y + r][x + c] = 1;
+        })
+    );
+    return placed;
+}
+
+function rate(board: number[][]): number {
+    const remaining = board.filter(row => !row.every(cell => cell));
+    const lines = ROWS - remaining.length;
+    const settled = [...Array(lines).fill(Array(COLS).fill(0)), ...remaining] as number[][];
+
+    const heights: number[] = [];
+    let holes = 0;
+    for (let col = 0; col < COLS; col++) {
+        const top = settled.findIndex(row => row[col]);
+        heights.push(top === -1 ? 0 : ROWS - top);
+        if (top !== -1) holes += settled.slice(top).filter(row => !row[col]).length;
+    }
+    const height = heights.reduce((sum, h) => sum + h, 0);
+    const bumpiness = heights.slice(1).reduce((sum, h, col) => sum + Math.abs(h - heights[col]), 0);
+    return HEIGHT_WEIGHT * height + LINES_WEIGHT * lines + HOLES_WEIGHT * holes + BUMPINESS_WEIGHT * bumpiness;
+}
+
+// Clockwise, as the engine turns pieces
+function rotate(pattern: number[][]): number[][] {
+    const size = pattern.length;
+    return pattern.map((_, row) => pattern.map((_, col) => pattern[size - 1 - col][row]));
+}
+
+function samePattern(a: number[][], b: number[][]): boolean {
+    return a.every((row, r) => row.every((cell, c) => cell === b[r][c]));
+}
@@ -0,0 +1,127 @@
+import { RandomStream } from '../random/random-stream';
+import { EventLog, HeldInput, tap } from '../games/engine-test-doubles';
+import { COLS, ROWS, SHAPES, ShapeDropEngine, ShapeDropSnapshot } from './shape-drop-engine';
+
+describe('ShapeDropEngine', () => {
+    const input = new HeldInput();
+    const I_PIECE = SHAPES[0];
+    let events: EventLog;
+    let engine: ShapeDropEngine;
+
+    function emptyBoard(): number[][] {
+        return Array.from({ length: ROWS }, () => Array(COLS).fill(0));
+    }
+
+    // The bottom rows full except for the first column
+    function boardWithWell(rows: number): number[][] {
+        const board = emptyBoard();
+        for (let row = ROWS - rows; row < ROWS; row++) {
+            board[row] = [0, ...Array(COLS - 1).fill(2)];
+        }
+        return board;
+    }
+
+    // A vertical I piece resting in the well, about to lock on the next drop
+    function dropIntoWell(rows: number, state: Partial<ShapeDropSnapshot>): void {
+        engine.restore({
+            ...engine.snapshot(),
+            board: boardWithWell(rows),
+            currentPiece: { pattern: [[1], [1], [1], [1]], color: I_PIECE.color },
+            currentPosition: { x: 0, y: ROWS - 4 },
+            nextPiece: structuredClone(SHAPES[1]),
+            dropCounter: 0,
+            dropInterval: 1000,
+            score: 0,
+            lines: 0,
+            ...state
+        });
+        engine.press(tap('pause'));
+        engine.step(input, 1001);
+    }
+
+    beforeEach(() => {
+        events = new EventLog();
+        engine = new ShapeDropEngine(1, new RandomStream(1), events.emit);
+    });
+
+    it('starts a run with a piece in play and one waiting', () => {
+        expect(events.of('run-start').length).toBe(1);
+        expect(engine.currentPiece).not.toBeNull();
+        expect(engine.nextPiece).not.toBeNull();
+    });
+
+    it.each([1, 3, 7])('scores 800 × level %i for four lines at once', level => {
+        dropIntoWell(4, { level });
+
+        expect(engine.lines).toBe(4);
+        expect(engine.score).toBe(800 * level);
+        expect(engine.board.flat().every(cell => cell === 0)).toBe(true);
+        expect(events.of('game').map(e => e.event)).toContainEqual({ type: 'lines-cleared', count: 4 });
+        expect(events.of('ghost-split')).toEqual([{ type: 'ghost-split', count: 4 }]);
+    });
+
+    it('scores 100 × level for a single line', () => {
+        dropIntoWell(1, { level: 2 });
+
+        expect(engine.lines).toBe(1);
+        expect(engine.score).toBe(200);
+    });
+
+    it('levels up every ten lines', () => {
+        dropIntoWell(4, { level: 1, lines: 8 });
+
+        expect(engine.lines).toBe(12);
+        expect(engine.level).toBe(2);
+        expect(engine.snapshot().dropInterval).toBeLessThan(1000);
+        expect(events.of('game').map(e => e.event)).toContainEqual({ type: 'level-up', level: 2 });
+    });
+
+    it('hard drops to the floor for two points a row', () => {
+        engine.restore({
+            ...engine.snapshot(),
+            board: emptyBoard(),
+            currentPiece: { pattern: [[1, 1], [1, 1]], color: SHAPES[1].color },
+            currentPosition: { x: 4, y: 0 },
+            score: 0
+        });
+        engine.press(tap('pause'));
+        engine.press(tap('hard-drop'));
+
+        expect(engine.score).toBe((ROWS - 2) * 2);
+        expect(engine.board[ROWS - 1][4]).toBe(2);
+        expect(engine.board[ROWS - 2][5]).toBe(2);
+    });
+
+    // Locking the piece leaves no room at the top for the next one
+    it('ends the run when a new piece has no room', () => {
+        const board = emptyBoard();
+        board[0] = Array(COLS).fill(1);
+        board[0][0] = 0;
+        board[1] = Array(COLS).fill(1);
+        board[1][0] = 0;
+        engine.restore({
+            ...engine.snapshot(),
+            board,
+            currentPiece: { pattern: [[1]], color: I_PIECE.color },
+            currentPosition: { x: 0, y: 0 }
+        });
+        engine.press(tap('pause'));
+        engine.press(tap('hard-drop'));
+
+        expect(engine.gameOver).toBe(true);
+        expect(events.of('run-end').length).toBe(1);
+    });
+
+    it('describes a restored run, waiting paused, with its falling piece, the next one and the stack', () => {
+        engine.restore({
+            ...engine.snapshot(),
+            board: boardWithWell(3),
+            currentPiece: SHAPES[2],
+            currentPosition: { x: 3, y: 0 },
+            nextPiece: I_PIECE,
+            score: 300,
+            lines: 2
+        });
+        expect(engine.describe()).toBe('Paused. Score 300, level 1, 2 lines. Falling: T piece over columns 4 to 6. Next: I piece. The stack is 3 rows high.');
+    });
+});
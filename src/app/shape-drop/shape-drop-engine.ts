@@ -0,0 +1,504 @@
+import { ActionPress } from '../input/input-actions';
+import { RandomStream } from '../random/random-stream';
+import { Describable, EngineEmitter, GameEngine, StepInput } from '../games/game-engine';
+import { plural } from '../games/game-description';
+import { Observation } from '../bots/bot';
+import { presetValues } from '../settings/game-settings';
+import { SHAPE_DROP_SETTINGS, ShapeDropSettings } from './shape-drop-settings';
+
+export interface Position {
+    x: number;
+    y: number;
+}
+
+export interface Shape {
+    pattern: number[][];
+    color: string;
+}
+
+// Everything a run in progress needs to carry on later
+export interface ShapeDropSnapshot {
+    board: number[][];
+    currentPiece: Shape | null;
+    currentPosition: Position;
+    nextPiece: Shape | null;
+    dropCounter: number;
+    dropInterval: number;
+    score: number;
+    lines: number;
+    level: number;
+}
+
+// Board dimensions
+export const COLS = 10;
+export const ROWS = 20;
+
+// Shapes (7 classic pieces)
+export const SHAPES: Shape[] = [
+    // I piece (cyan)
+    {
+        pattern: [
+            [0, 0, 0, 0],
+            [1, 1, 1, 1],
+            [0, 0, 0, 0],
+            [0, 0, 0, 0]
+        ],
+        color: '#00ffff'
+    },
+    // O piece (yellow)
+    {
+        pattern: [
+            [1, 1],
+            [1, 1]
+        ],
+        color: '#ffff00'
+    },
+    // T piece (purple)
+    {
+        pattern: [
+            [0, 1, 0],
+            [1, 1, 1],
+            [0, 0, 0]
+        ],
+        color: '#ff00ff'
+    },
+    // S piece (green)
+    {
+        pattern: [
+            [0, 1, 1],
+            [1, 1, 0],
+            [0, 0, 0]
+        ],
+        color: '#00ff00'
+    },
+    // Z piece (red)
+    {
+        pattern: [
+            [1, 1, 0],
+            [0, 1, 1],
+            [0, 0, 0]
+        ],
+        color: '#ff0000'
+    },
+    // J piece (blue)
+    {
+        pattern: [
+            [1, 0, 0],
+            [1, 1, 1],
+            [0, 0, 0]
+        ],
+        color: '#0000ff'
+    },
+    // L piece (orange)
+    {
+        pattern: [
+            [0, 0, 1],
+            [1, 1, 1],
+            [0, 0, 0]
+        ],
+        color: '#ff7700'
+    }
+];
+
+// The pieces' letters, in SHAPES order, for describing the board in words
+const SHAPE_NAMES = ['I', 'O', 'T', 'S', 'Z', 'J', 'L'];
+
+export const SHAPE_DROP_ACTIONS = ['move-left', 'move-right', 'rotate', 'soft-drop', 'hard-drop'] as const;
+export type ShapeDropAction = typeof SHAPE_DROP_ACTIONS[number];
+
+// A piece as a bot sees it: its index in SHAPES, and its pattern as currently rotated
+export interface PieceObservation {
+    shape: number;
+    pattern: number[][];
+}
+
+// The board as a bot sees it, cells numbered as on the board itself. The current piece isn't
+// on the board yet; position is where its pattern's top-left corner sits.
+export interface ShapeDropObservation extends Observation {
+    board: number[][];
+    current: PieceObservation | null;
+    position: Position;
+    next: PieceObservation | null;
+    lines: number;
+    level: number;
+}
+
+// Shape Drop on a 10 × 20 board. The board stores each block as its shape's index in SHAPES
+// plus one, so zero is an empty cell.
+export class ShapeDropEngine implements GameEngine<ShapeDropSnapshot>, Describable {
+    private rng: RandomStream;
+    private emit: EngineEmitter;
+    private startLevel: number;
+    private settings: ShapeDropSettings;
+
+    // Game state
+    score = 0;
+    lines = 0;
+    level = 1;
+    gameOver = false;
+    paused = false;
+
+    board: number[][] = [];
+
+    // Current piece
+    currentPiece: Shape | null = null;
+    currentPosition: Position = { x: 0, y: 0 };
+
+    // Next piece
+    nextPiece: Shape | null = null;
+
+    // Game timing
+    private dropCounter = 0;
+    private dropInterval = 0;
+
+    constructor(startLevel: number, rng: RandomStream, emit: EngineEmitter, settings: ShapeDropSettings = presetValues(SHAPE_DROP_SETTINGS, 'normal')) {
+        this.startLevel = startLevel;
+        this.rng = rng;
+        this.emit = emit;
+        this.settings = settings;
+        this.initGame();
+    }
+
+    // The music picks up the pace with every level
+    get tempo(): number {
+        return 1 + (this.level - 1) * 0.1;
+    }
+
+    press({ action, repeat }: ActionPress): void {
+        if (this.gameOver) return;
+
+        // Pause is checked first so the same key resumes the game
+        if (action === 'pause') {
+            if (!repeat) this.togglePause();
+            return;
+        }
+        if (this.paused) return;
+
+        switch (action) {
+            case 'move-left':
+                this.moveLeft();
+                break;
+            case 'move-right':
+                this.moveRight();
+                break;
+            case 'soft-drop':
+                this.moveDown();
+                break;
+            case 'rotate':
+                this.rotate();
+                break;
+            case 'hard-drop':
+                this.hardDrop();
+                break;
+        }
+    }
+
+    step(_input: StepInput, deltaTime: number): void {
+        if (this.gameOver || this.paused) return;
+        this.emit({ type: 'ghost-report', score: this.score });
+
+        this.dropCounter += deltaTime;
+        if (this.dropCounter > this.dropInterval) {
+            this.moveDown();
+            this.dropCounter = 0;
+        }
+    }
+
+    snapshot(): ShapeDropSnapshot {
+        return {
+            board: this.board,
+            currentPiece: this.currentPiece,
+            currentPosition: this.currentPosition,
+            nextPiece: this.nextPiece,
+            dropCounter: this.dropCounter,
+            dropInterval: this.dropInterval,
+            score: this.score,
+            lines: this.lines,
+            level: this.level
+        };
+    }
+
+    // A continued run starts paused, so the player can find their bearings
+    restore(state: ShapeDropSnapshot): void {
+        this.board = state.board;
+        this.currentPiece = state.currentPiece;
+        this.currentPosition = state.currentPosition;
+        this.nextPiece = state.nextPiece;
+        this.dropCounter = state.dropCounter;
+        this.dropInterval = state.dropInterval;
+        this.score = state.score;
+        this.lines = state.lines;
+        this.level = state.level;
+        this.paused = true;
+    }
+
+    observe(): ShapeDropObservation {
+        return {
+            score: this.score,
+            over: this.gameOver,
+            board: this.board.map(row => [...row]),
+            current: this.observePiece(this.currentPiece),
+            position: { ...this.currentPosition },
+            next: this.observePiece(this.nextPiece),
+            lines: this.lines,
+            level: this.level
+        };
+    }
+
+    describe(): string {
+        if (this.gameOver) return `Game over. Final score ${this.score}, level ${this.level}.`;
+        const parts = [this.paused ? 'Paused.' : '', `Score ${this.score}, level ${this.level}, ${plural(this.lines, 'line')}.`];
+        const current = this.observePiece(this.currentPiece);
+        if (current) {
+            const filled = current.pattern[0].map((_, col) => col).filter(col => current.pattern.some(row => row[col]));
+            const from = this.currentPosition.x + filled[0] + 1;
+            const to = this.currentPosition.x + filled[filled.length - 1] + 1;
+            parts.push(`Falling: ${SHAPE_NAMES[current.shape]} piece over columns ${from} to ${to}.`);
+        }
+        const next = this.observePiece(this.nextPiece);
+        if (next) parts.push(`Next: ${SHAPE_NAMES[next.shape]} piece.`);
+        const top = this.board.findIndex(row => row.some(cell => cell));
+        parts.push(top === -1 ? 'The board is empty.' : `The stack is ${plural(ROWS - top, 'row')} high.`);
+        return parts.filter(Boolean).join(' ');
+    }
+
+    togglePause(): void {
+        this.paused = !this.paused;
+        if (this.paused) this.emit({ type: 'game', event: { type: 'paused' } });
+    }
+
+    restart(): void {
+        this.initGame();
+    }
+
+    isValidMove(x: number, y: number, pattern: number[][]): boolean {
+        for (let row = 0; row < pattern.length; row++) {
+            for (let col = 0; col < pattern[row].length; col++) {
+                if (pattern[row][col]) {
+                    const newX = x + col;
+                    const newY = y + row;
+
+                    // Check boundaries
+                    if (newX < 0 || newX >= COLS || newY >= ROWS) {
+                        return false;
+                    }
+
+                    // Check collision with existing blocks (but not if above board)
+                    if (newY >= 0 && this.board[newY][newX]) {
+                        return false;
+                    }
+                }
+            }
+        }
+        return true;
+    }
+
+    private observePiece(piece: Shape | null): PieceObservation | null {
+        if (!piece) return null;
+        return {
+            shape: SHAPES.findIndex(s => s.color === piece.color),
+            pattern: piece.pattern.map(row => [...row])
+        };
+    }
+
+    private initGame(): void {
+        // Initialize empty board
+        this.board = Array(ROWS).fill(null).map(() => Array(COLS).fill(0));
+
+        this.score = 0;
+        this.lines = 0;
+        this.level = this.startLevel;
+        this.gameOver = false;
+        this.paused = false;
+
+        this.dropInterval = this.intervalFor(this.startLevel);
+        this.dropCounter = 0;
+
+        this.emit({ type: 'run-start' });
+
+        // Create first pieces
+        this.nextPiece = this.createRandomPiece();
+        this.spawnPiece();
+        this.emit({ type: 'music', track: 'shapes' });
+    }
+
+    private createRandomPiece(): Shape {
+        const index = this.rng.int(SHAPES.length);
+        return JSON.parse(JSON.stringify(SHAPES[index])); // Deep copy
+    }
+
+    private spawnPiece(): void {
+        this.currentPiece = this.nextPiece;
+        this.nextPiece = this.createRandomPiece();
+
+        if (this.currentPiece) {
+            this.currentPosition = {
+                x: Math.floor(COLS / 2) - Math.floor(this.currentPiece.pattern[0].length / 2),
+                y: 0
+            };
+
+            // Check if spawn position is valid
+            if (!this.isValidMove(this.currentPosition.x, this.currentPosition.y, this.currentPiece.pattern)) {
+                this.gameOver = true;
+                this.emit({ type: 'sound', sound: 'shapes.gameOver' });
+                this.emit({ type: 'run-end', score: this.score, level: this.level });
+            }
+        }
+    }
+
+    private moveLeft(): void {
+        if (!this.currentPiece) return;
+
+        if (this.isValidMove(this.currentPosition.x - 1, this.currentPosition.y, this.currentPiece.pattern)) {
+            this.currentPosition.x--;
+            this.emit({ type: 'sound', sound: 'shapes.move' });
+        }
+    }
+
+    private moveRight(): void {
+        if (!this.currentPiece) return;
+
+        if (this.isValidMove(this.currentPosition.x + 1, this.currentPosition.y, this.currentPiece.pattern)) {
+            this.currentPosition.x++;
+            this.emit({ type: 'sound', sound: 'shapes.move' });
+        }
+    }
+
+    private moveDown(): boolean {
+        if (!this.currentPiece) return false;
+
+        if (this.isValidMove(this.currentPosition.x, this.currentPosition.y + 1, this.currentPiece.pattern)) {
+            this.currentPosition.y++;
+            return true;
+        } else {
+            this.lockPiece();
+            return false;
+        }
+    }
+
+    private hardDrop(): void {
+        if (!this.currentPiece) return;
+
+        let dropDistance = 0;
+        while (this.isValidMove(this.currentPosition.x, this.currentPosition.y + 1, this.currentPiece.pattern)) {
+            this.currentPosition.y++;
+            dropDistance++;
+        }
+
+        if (dropDistance > 0) {
+            this.score += dropDistance * 2;
+            this.emit({ type: 'sound', sound: 'shapes.drop' });
+        }
+
+        this.lockPiece();
+    }
+
+    private rotate(): void {
+        if (!this.currentPiece) return;
+
+        const rotated = this.rotatePattern(this.currentPiece.pattern);
+
+        // Try basic rotation
+        if (this.isValidMove(this.currentPosition.x, this.currentPosition.y, rotated)) {
+            this.currentPiece.pattern = rotated;
+            this.emit({ type: 'sound', sound: 'shapes.rotate' });
+            return;
+        }
+
+        // Wall kick attempts
+        const kicks = [
+            { x: -1, y: 0 },  // Left
+            { x: 1, y: 0 },   // Right
+            { x: -2, y: 0 },  // Left 2
+            { x: 2, y: 0 },   // Right 2
+            { x: 0, y: -1 }   // Up
+        ];
+
+        for (const kick of kicks) {
+            if (this.isValidMove(this.currentPosition.x + kick.x, this.currentPosition.y + kick.y, rotated)) {
+                this.currentPiece.pattern = rotated;
+                this.currentPosition.x += kick.x;
+                this.currentPosition.y += kick.y;
+                this.emit({ type: 'sound', sound: 'shapes.rotate' });
+                return;
+            }
+        }
+    }
+
+    private rotatePattern(pattern: number[][]): number[][] {
+        const size = pattern.length;
+        const rotated: number[][] = Array(size).fill(null).map(() => Array(size).fill(0));
+
+        for (let row = 0; row < size; row++) {
+            for (let col = 0; col < size; col++) {
+                rotated[col][size - 1 - row] = pattern[row][col];
+            }
+        }
+
+        return rotated;
+    }
+
+    private lockPiece(): void {
+        if (!this.currentPiece) return;
+
+        // Add piece to board
+        for (let row = 0; row < this.currentPiece.pattern.length; row++) {
+            for (let col = 0; col < this.currentPiece.pattern[row].length; col++) {
+                if (this.currentPiece.pattern[row][col]) {
+                    const x = this.currentPosition.x + col;
+                    const y = this.currentPosition.y + row;
+                    if (y >= 0 && y < ROWS && x >= 0 && x < COLS) {
+                        // Store color as a number (use color index + 1)
+                        this.board[y][x] = SHAPES.findIndex(s => s.color === this.currentPiece!.color) + 1;
+                    }
+                }
+            }
+        }
+
+        // Check for completed lines
+        const linesCleared = this.clearLines();
+        if (linesCleared > 0) {
+            this.emit({ type: 'sound', sound: 'shapes.clear' });
+            this.lines += linesCleared;
+            this.emit({ type: 'game', event: { type: 'lines-cleared', count: linesCleared } });
+            this.emit({ type: 'ghost-split', count: linesCleared });
+
+            // Scoring system
+            const points = [0, 100, 300, 500, 800];
+            this.score += points[linesCleared] * this.level;
+
+            // Level up every 10 lines
+            const newLevel = Math.floor(this.lines / 10) + 1;
+            if (newLevel > this.level) {
+                this.level = newLevel;
+                this.emit({ type: 'game', event: { type: 'level-up', level: newLevel } });
+                this.dropInterval = this.intervalFor(newLevel);
+            }
+        }
+
+        // Spawn next piece
+        this.spawnPiece();
+    }
+
+    private clearLines(): number {
+        let linesCleared = 0;
+
+        for (let row = ROWS - 1; row >= 0; row--) {
+            if (this.board[row].every(cell => cell !== 0)) {
+                // Remove the line
+                this.board.splice(row, 1);
+                // Add new empty line at top
+                this.board.unshift(Array(COLS).fill(0));
+                linesCleared++;
+                row++; // Check same row again
+            }
+        }
+
+        return linesCleared;
+    }
+
+    // Each level takes 100 ms off the time a piece takes to fall a row, down to 100 ms
+    private intervalFor(level: number): number {
+        return Math.max(100, this.settings.dropInterval - (level - 1) * 100);
+    }
+}
@@ -0,0 +1,14 @@
+import { Palettes } from '../display/display-style';
+import { SHAPES } from './shape-drop-engine';
+
+// Piece colors in SHAPES order: I, O, T, S, Z, J, L
+export const SHAPE_DROP_PALETTES: Palettes<string[]> = {
+    standard: SHAPES.map(shape => shape.color),
+    // Okabe & Ito's palette, told apart by blue-yellow and by lightness
+    deuteranopia: ['#56B4E9', '#F0E442', '#CC79A7', '#009E73', '#D55E00', '#0072B2', '#E69F00'],
+    // As above, with white for the vermilion that reads as dark brown without red cones
+    protanopia: ['#56B4E9', '#F0E442', '#CC79A7', '#009E73', '#FFFFFF', '#0072B2', '#E69F00'],
+    // Reds, pinks and teals, which stay apart without blue cones
+    tritanopia: ['#00B3B3', '#FFFFFF', '#FF99CC', '#7F7F7F', '#FF4D4D', '#990000', '#FFB380'],
+    highContrast: ['#00FFFF', '#FFFF00', '#FF66FF', '#66FF66', '#FF3333', '#6699FF', '#FFFFFF']
+};
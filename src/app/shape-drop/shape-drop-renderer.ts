@@ -0,0 +1,183 @@
+import { COLS, Position, ROWS, SHAPES, Shape, ShapeDropEngine } from './shape-drop-engine';
+import { DisplayStyle, STANDARD_STYLE, paletteFor } from '../display/display-style';
+import { drawPattern } from '../display/patterns';
+import { SHAPE_DROP_PALETTES } from './shape-drop-palettes';
+
+export const BLOCK_SIZE = 30;
+
+// Draws a ShapeDropEngine's board onto a canvas of COLS × ROWS blocks
+export class ShapeDropRenderer {
+    private display = STANDARD_STYLE;
+
+    constructor(private ctx: CanvasRenderingContext2D, private style: () => DisplayStyle = () => STANDARD_STYLE) {}
+
+    render(engine: ShapeDropEngine): void {
+        this.display = this.style();
+
+        // Clear canvas
+        this.ctx.fillStyle = '#000000';
+        this.ctx.fillRect(0, 0, this.ctx.canvas.width, this.ctx.canvas.height);
+
+        // Draw grid
+        this.drawGrid();
+
+        // Draw locked pieces
+        this.drawBoard(engine);
+
+        // Draw current piece
+        if (engine.currentPiece) {
+            this.drawPiece(engine.currentPiece, engine.currentPosition);
+        }
+
+        // Draw ghost piece (preview where piece will land)
+        if (engine.currentPiece && !engine.gameOver) {
+            this.drawGhostPiece(engine);
+        }
+
+        // Draw game over overlay
+        if (engine.gameOver) {
+            this.drawGameOver();
+        }
+
+        // Draw pause overlay
+        if (engine.paused) {
+            this.drawPause();
+        }
+    }
+
+    private drawGrid(): void {
+        this.ctx.strokeStyle = '#111111';
+        this.ctx.lineWidth = 1;
+
+        // Vertical lines
+        for (let col = 0; col <= COLS; col++) {
+            this.ctx.beginPath();
+            this.ctx.moveTo(col * BLOCK_SIZE, 0);
+            this.ctx.lineTo(col * BLOCK_SIZE, this.ctx.canvas.height);
+            this.ctx.stroke();
+        }
+
+        // Horizontal lines
+        for (let row = 0; row <= ROWS; row++) {
+            this.ctx.beginPath();
+            this.ctx.moveTo(0, row * BLOCK_SIZE);
+            this.ctx.lineTo(this.ctx.canvas.width, row * BLOCK_SIZE);
+            this.ctx.stroke();
+        }
+    }
+
+    private drawBoard(engine: ShapeDropEngine): void {
+        for (let row = 0; row < ROWS; row++) {
+            for (let col = 0; col < COLS; col++) {
+                if (engine.board[row][col]) {
+                    this.drawBlock(col, row, engine.board[row][col] - 1);
+                }
+            }
+        }
+    }
+
+    private drawPiece(piece: Shape, position: Position): void {
+        const shape = shapeIndex(piece);
+        for (let row = 0; row < piece.pattern.length; row++) {
+            for (let col = 0; col < piece.pattern[row].length; col++) {
+                if (piece.pattern[row][col]) {
+                    this.drawBlock(
+                        position.x + col,
+                        position.y + row,
+                        shape
+                    );
+                }
+            }
+        }
+    }
+
+    private drawGhostPiece(engine: ShapeDropEngine): void {
+        if (!engine.currentPiece) return;
+
+        let ghostY = engine.currentPosition.y;
+        while (engine.isValidMove(engine.currentPosition.x, ghostY + 1, engine.currentPiece.pattern)) {
+            ghostY++;
+        }
+
+        if (ghostY !== engine.currentPosition.y) {
+            const shape = shapeIndex(engine.currentPiece);
+            for (let row = 0; row < engine.currentPiece.pattern.length; row++) {
+                for (let col = 0; col < engine.currentPiece.pattern[row].length; col++) {
+                    if (engine.currentPiece.pattern[row][col]) {
+                        this.drawBlock(
+                            engine.currentPosition.x + col,
+                            ghostY + row,
+                            shape,
+                            0.2
+                        );
+                    }
+                }
+            }
+        }
+    }
+
+    // Blocks take their color, and their glyph, from the shape they belong to
+    private drawBlock(x: number, y: number, shape: number, alpha: number = 1): void {
+        const px = x * BLOCK_SIZE;
+        const py = y * BLOCK_SIZE;
+
+        this.ctx.globalAlpha = alpha;
+
+        // Main block
+        this.ctx.fillStyle = paletteFor(SHAPE_DROP_PALETTES, this.display)[shape];
+        this.ctx.fillRect(px + 1, py + 1, BLOCK_SIZE - 2, BLOCK_SIZE - 2);
+
+        if (this.display.patterns) drawPattern(this.ctx, shape, px, py, BLOCK_SIZE, BLOCK_SIZE);
+
+        // A hard edge in place of the bevel
+        if (this.display.highContrast) {
+            this.ctx.strokeStyle = '#000000';
+            this.ctx.lineWidth = 2;
+            this.ctx.strokeRect(px + 2, py + 2, BLOCK_SIZE - 4, BLOCK_SIZE - 4);
+            this.ctx.globalAlpha = 1;
+            return;
+        }
+
+        // Highlight
+        this.ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
+        this.ctx.fillRect(px + 2, py + 2, BLOCK_SIZE - 4, 4);
+        this.ctx.fillRect(px + 2, py + 2, 4, BLOCK_SIZE - 4);
+
+        // Shadow
+        this.ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
+        this.ctx.fillRect(px + BLOCK_SIZE - 6, py + 6, 4, BLOCK_SIZE - 8);
+        this.ctx.fillRect(px + 6, py + BLOCK_SIZE - 6, BLOCK_SIZE - 8, 4);
+
+        this.ctx.globalAlpha = 1;
+    }
+
+    private drawGameOver(): void {
+        this.ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+        this.ctx.fillRect(0, 0, this.ctx.canvas.width, this.ctx.canvas.height);
+
+        this.ctx.fillStyle = '#ff0000';
+        this.ctx.font = 'bold 36px "Courier New"';
+        this.ctx.textAlign = 'center';
+        this.ctx.textBaseline = 'middle';
+        this.ctx.fillText('GAME OVER', this.ctx.canvas.width / 2, this.ctx.canvas.height / 2 - 20);
+
+        this.ctx.fillStyle = '#ffffff';
+        this.ctx.font = '20px "Courier New"';
+        this.ctx.fillText('Press RESTART', this.ctx.canvas.width / 2, this.ctx.canvas.height / 2 + 30);
+    }
+
+    private drawPause(): void {
+        this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+        this.ctx.fillRect(0, 0, this.ctx.canvas.width, this.ctx.canvas.height);
+
+        this.ctx.fillStyle = '#ffff00';
+        this.ctx.font = 'bold 36px "Courier New"';
+        this.ctx.textAlign = 'center';
+        this.ctx.textBaseline = 'middle';
+        this.ctx.fillText('PAUSED', this.ctx.canvas.width / 2, this.ctx.canvas.height / 2);
+    }
+}
+
+function shapeIndex(piece: Shape): number {
+    return SHAPES.findIndex(shape => shape.color === piece.color);
+}
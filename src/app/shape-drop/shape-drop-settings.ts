@@ -0,0 +1,10 @@
+import { SettingField } from '../settings/game-settings';
+
+export interface ShapeDropSettings {
+    // Time a piece takes to fall a row at level 1, in ms; each level takes 100 ms off
+    dropInterval: number;
+}
+
+export const SHAPE_DROP_SETTINGS: SettingField<keyof ShapeDropSettings>[] = [
+    { id: 'dropInterval', label: 'Starting drop time (ms)', min: 200, max: 2000, step: 50, presets: { easy: 1300, normal: 1000, hard: 700 } }
+];
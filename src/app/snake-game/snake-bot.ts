@@ -0,0 +1,84 @@
+import { Bot, BotMove } from '../bots/bot';
+import { Direction, GameState, Point, SnakeAction, SnakeObservation } from './snake-engine';
+
+const STEPS: { direction: Direction; action: SnakeAction; dx: number; dy: number }[] = [
+    { direction: Direction.UP, action: 'move-up', dx: 0, dy: -1 },
+    { direction: Direction.RIGHT, action: 'move-right', dx: 1, dy: 0 },
+    { direction: Direction.DOWN, action: 'move-down', dx: 0, dy: 1 },
+    { direction: Direction.LEFT, action: 'move-left', dx: -1, dy: 0 }
+];
+
+// Takes the shortest path to the apple, found by breadth-first search around its own body.
+// With no path, it heads for the neighbouring cell with the most room, to wait for its tail
+// to clear one.
+export class SnakePathfinder implements Bot<SnakeObservation, SnakeAction> {
+    readonly name = 'pathfinder';
+
+    // The snake only moves every few steps, so the turn is worked out, and pressed, once per cell
+    private plannedFor: Point | null = null;
+
+    reset(): void {
+        this.plannedFor = null;
+    }
+
+    move(observation: SnakeObservation): BotMove<SnakeAction> {
+        if (observation.state === GameState.READY) return { press: ['start'] };
+        if (observation.state !== GameState.PLAYING) return {};
+
+        const head = observation.body[0];
+        if (this.plannedFor?.x === head.x && this.plannedFor?.y === head.y) return {};
+        this.plannedFor = { ...head };
+        const turn = this.plan(observation);
+        const step = STEPS.find(({ direction }) => direction === turn);
+        return step && step.direction !== observation.direction ? { press: [step.action] } : {};
+    }
+
+    private plan({ cols, rows, body, apple }: SnakeObservation): Direction | null {
+        // The tail moves out of the way as the head moves in
+        const blocked = new Set(body.slice(0, -1).map(({ x, y }) => y * cols + x));
+        const open = (x: number, y: number) => x >= 0 && x < cols && y >= 0 && y < rows && !blocked.has(y * cols + x);
+        const [head] = body;
+        const exits = STEPS.filter(({ dx, dy }) => open(head.x + dx, head.y + dy));
+
+        // Search outwards from the apple, so each cell knows its distance to it
+        const distance = new Map<number, number>([[apple.y * cols + apple.x, 0]]);
+        const queue: Point[] = [apple];
+        for (let i = 0; i < queue.length; i++) {
+            const cell = queue[i];
+            const next = distance.get(cell.y * cols + cell.x)! + 1;
+            for (const { dx, dy } of STEPS) {
+                const x = cell.x + dx;
+                const y = cell.y + dy;
+                if (!open(x, y) || distance.has(y * cols + x)) continue;
+                distance.set(y * cols + x, next);
+                queue.push({ x, y });
+            }
+        }
+
+        const toApple = exits
+            .filter(({ dx, dy }) => distance.has((head.y + dy) * cols + head.x + dx))
+            .sort((a, b) => distance.get((head.y + a.dy) * cols + head.x + a.dx)! - distance.get((head.y + b.dy) * cols + head.x + b.dx)!);
+        if (toApple.length > 0) return toApple[0].direction;
+
+        const roomiest = exits
+            .map(step => ({ step, room: this.room({ x: head.x + step.dx, y: head.y + step.dy }, cols, open) }))
+            .sort((a, b) => b.room - a.room);
+        return roomiest[0]?.step.direction ?? null;
+    }
+
+    // Cells reachable from a cell
+    private room(start: Point, cols: number, open: (x: number, y: number) => boolean): number {
+        const seen = new Set<number>([start.y * cols + start.x]);
+        const queue: Point[] = [start];
+        for (let i = 0; i < queue.length; i++) {
+            for (const { dx, dy } of STEPS) {
+                const next = { x: queue[i].x + dx, y: queue[i].y + dy };
+                const key = next.y * cols + next.x;
+                if (!open(next.x, next.y) || seen.has(key)) continue;
+                seen.add(key);
+                queue.push(next);
+            }
+        }
+        return seen.size;
+    }
+}
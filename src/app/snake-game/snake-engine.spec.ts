@@ -0,0 +1,103 @@
+import { RandomStream } from '../random/random-stream';
+import { EventLog, HeldInput, tap } from '../games/engine-test-doubles';
+import { GameState, SnakeEngine, SnakeSnapshot } from './snake-engine';
+
+describe('SnakeEngine', () => {
+    const STEP_MS = 150;
+    let events: EventLog;
+    let engine: SnakeEngine;
+    const input = new HeldInput();
+
+    // Puts the snake somewhere specific and plays on from there
+    function playFrom(state: Partial<SnakeSnapshot>): void {
+        engine.restore({ ...engine.snapshot(), moveTimer: 0, currentSpeed: STEP_MS, ...state });
+        engine.press(tap('pause'));
+    }
+
+    beforeEach(() => {
+        events = new EventLog();
+        engine = new SnakeEngine(10, 10, new RandomStream(1), events.emit);
+        engine.press(tap('start'));
+    });
+
+    it('starts a run when start is pressed', () => {
+        expect(engine.state).toBe(GameState.PLAYING);
+        expect(events.of('run-start').length).toBe(1);
+    });
+
+    it('moves one cell per step interval', () => {
+        playFrom({ snake: [{ x: 5, y: 5 }, { x: 4, y: 5 }, { x: 3, y: 5 }], apple: { x: 0, y: 0 } });
+        engine.step(input, STEP_MS - 1);
+        expect(engine.snake[0]).toEqual({ x: 5, y: 5 });
+        engine.step(input, 1);
+        expect(engine.snake[0]).toEqual({ x: 6, y: 5 });
+        expect(engine.snake.length).toBe(3);
+    });
+
+    it('moves at the speed it is set up with', () => {
+        engine = new SnakeEngine(10, 10, new RandomStream(1), events.emit, { initialSpeed: 100, speedIncrement: 5 });
+        engine.press(tap('start'));
+        const head = { ...engine.snake[0] };
+        engine.step(input, 99);
+        expect(engine.snake[0]).toEqual(head);
+        engine.step(input, 1);
+        expect(engine.snake[0]).toEqual({ x: head.x + 1, y: head.y });
+    });
+
+    it('dies on hitting a wall', () => {
+        playFrom({ snake: [{ x: 9, y: 5 }, { x: 8, y: 5 }, { x: 7, y: 5 }], apple: { x: 0, y: 0 } });
+        engine.step(input, STEP_MS);
+
+        expect(engine.state).toBe(GameState.GAME_OVER);
+        expect(events.of('run-end')).toEqual([{ type: 'run-end', score: 0 }]);
+        expect(events.sounds()).toContain('snake.gameOver');
+    });
+
+    it('dies on running into itself', () => {
+        // Heading left along the top of a loop, then turning down into its own body
+        playFrom({
+            snake: [{ x: 5, y: 5 }, { x: 6, y: 5 }, { x: 6, y: 6 }, { x: 5, y: 6 }, { x: 4, y: 6 }],
+            apple: { x: 0, y: 0 }
+        });
+        engine.press(tap('move-down'));
+        engine.step(input, STEP_MS);
+
+        expect(engine.state).toBe(GameState.GAME_OVER);
+        expect(events.of('run-end').length).toBe(1);
+    });
+
+    it('ignores a turn straight back on itself', () => {
+        playFrom({ snake: [{ x: 5, y: 5 }, { x: 4, y: 5 }, { x: 3, y: 5 }], apple: { x: 0, y: 0 } });
+        engine.press(tap('move-left'));
+        engine.step(input, STEP_MS);
+
+        expect(engine.state).toBe(GameState.PLAYING);
+        expect(engine.snake[0]).toEqual({ x: 6, y: 5 });
+    });
+
+    it('grows, scores and speeds up on eating an apple', () => {
+        playFrom({ snake: [{ x: 5, y: 5 }, { x: 4, y: 5 }, { x: 3, y: 5 }], apple: { x: 6, y: 5 } });
+        engine.step(input, STEP_MS);
+
+        expect(engine.score).toBe(10);
+        expect(engine.snake.length).toBe(4);
+        expect(engine.snapshot().currentSpeed).toBeLessThan(STEP_MS);
+        expect(engine.snake).not.toContainEqual(engine.apple);
+        expect(events.of('game').map(e => e.event)).toContainEqual({ type: 'apple-eaten', length: 4 });
+    });
+
+    it('stands still while paused', () => {
+        engine.press(tap('pause'));
+        const head = { ...engine.snake[0] };
+        engine.step(input, STEP_MS * 3);
+
+        expect(engine.state).toBe(GameState.PAUSED);
+        expect(engine.snake[0]).toEqual(head);
+    });
+
+    it('describes the snake and where the apple is from its head', () => {
+        playFrom({ snake: [{ x: 5, y: 5 }, { x: 4, y: 5 }, { x: 3, y: 5 }], apple: { x: 8, y: 3 }, score: 20 });
+        engine.press(tap('pause'));
+        expect(engine.describe()).toBe('Paused. Score 20, length 3, heading right. The apple is 3 cells right and 2 cells up.');
+    });
+});
@@ -0,0 +1,307 @@
+import { ActionPress } from '../input/input-actions';
+import { RandomStream } from '../random/random-stream';
+import { Describable, EngineEmitter, GameEngine, StepInput } from '../games/game-engine';
+import { cells } from '../games/game-description';
+import { Observation } from '../bots/bot';
+import { presetValues } from '../settings/game-settings';
+import { SNAKE_SETTINGS, SnakeSettings } from './snake-settings';
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export enum Direction {
+    UP = 'UP',
+    DOWN = 'DOWN',
+    LEFT = 'LEFT',
+    RIGHT = 'RIGHT'
+}
+
+export enum GameState {
+    READY = 'READY',
+    PLAYING = 'PLAYING',
+    PAUSED = 'PAUSED',
+    GAME_OVER = 'GAME_OVER'
+}
+
+export interface SnakeSnapshot {
+    snake: Point[];
+    direction: Direction;
+    nextDirection: Direction;
+    apple: Point;
+    moveTimer: number;
+    currentSpeed: number;
+    score: number;
+}
+
+export const INITIAL_LENGTH = 3;
+
+// A bot starts the run itself; start pauses it once it's under way
+export const SNAKE_ACTIONS = ['start', 'move-up', 'move-down', 'move-left', 'move-right'] as const;
+export type SnakeAction = typeof SNAKE_ACTIONS[number];
+
+// The grid as a bot sees it. The body runs from the head to the tail.
+export interface SnakeObservation extends Observation {
+    cols: number;
+    rows: number;
+    body: Point[];
+    apple: Point;
+    direction: Direction;
+    state: GameState;
+}
+
+// Snake on a grid of cells, which follows the size of the window
+export class SnakeEngine implements GameEngine<SnakeSnapshot>, Describable {
+    private readonly MIN_SPEED = 50; // Minimum speed (maximum difficulty)
+
+    private rng: RandomStream;
+    private emit: EngineEmitter;
+    private settings: SnakeSettings;
+    private cols: number;
+    private rows: number;
+
+    state = GameState.READY;
+    score = 0;
+    snake: Point[] = [];
+    apple: Point = { x: 0, y: 0 };
+
+    private direction: Direction = Direction.RIGHT;
+    private nextDirection: Direction = Direction.RIGHT;
+
+    // Movement timing: the snake advances one cell every currentSpeed ms of play
+    private moveTimer = 0;
+    private currentSpeed = 0;
+
+    constructor(cols: number, rows: number, rng: RandomStream, emit: EngineEmitter, settings: SnakeSettings = presetValues(SNAKE_SETTINGS, 'normal')) {
+        this.cols = cols;
+        this.rows = rows;
+        this.rng = rng;
+        this.emit = emit;
+        this.settings = settings;
+        this.initGame();
+    }
+
+    resize(cols: number, rows: number): void {
+        this.cols = cols;
+        this.rows = rows;
+    }
+
+    press({ action, repeat }: ActionPress): void {
+        const state = this.state;
+
+        if (action === 'start' || action === 'pause') {
+            if (repeat) return;
+            if (state === GameState.PLAYING) {
+                this.pauseGame();
+            } else if (state === GameState.PAUSED) {
+                this.resumeGame();
+            } else if (action === 'start') {
+                if (state === GameState.READY) this.startGame();
+                else this.restartGame();
+            }
+            return;
+        }
+
+        if (state !== GameState.PLAYING) return;
+
+        switch (action) {
+            case 'move-up':
+                if (this.direction !== Direction.DOWN) {
+                    this.nextDirection = Direction.UP;
+                }
+                break;
+            case 'move-down':
+                if (this.direction !== Direction.UP) {
+                    this.nextDirection = Direction.DOWN;
+                }
+                break;
+            case 'move-left':
+                if (this.direction !== Direction.RIGHT) {
+                    this.nextDirection = Direction.LEFT;
+                }
+                break;
+            case 'move-right':
+                if (this.direction !== Direction.LEFT) {
+                    this.nextDirection = Direction.RIGHT;
+                }
+                break;
+        }
+    }
+
+    step(_input: StepInput, dt: number): void {
+        if (this.state !== GameState.PLAYING) return;
+
+        this.moveTimer += dt;
+        while (this.moveTimer >= this.currentSpeed && this.state === GameState.PLAYING) {
+            this.moveTimer -= this.currentSpeed;
+            this.moveSnake();
+        }
+        this.emit({ type: 'ghost-report', score: this.score, x: this.snake[0].x, y: this.snake[0].y });
+    }
+
+    snapshot(): SnakeSnapshot {
+        return {
+            snake: this.snake,
+            direction: this.direction,
+            nextDirection: this.nextDirection,
+            apple: this.apple,
+            moveTimer: this.moveTimer,
+            currentSpeed: this.currentSpeed,
+            score: this.score
+        };
+    }
+
+    // A continued run starts paused, so the player can find their bearings
+    restore(state: SnakeSnapshot): void {
+        this.snake = state.snake;
+        this.direction = state.direction;
+        this.nextDirection = state.nextDirection;
+        this.apple = state.apple;
+        this.moveTimer = state.moveTimer;
+        this.currentSpeed = state.currentSpeed;
+        this.score = state.score;
+        this.state = GameState.PAUSED;
+    }
+
+    observe(): SnakeObservation {
+        return {
+            score: this.score,
+            over: this.state === GameState.GAME_OVER,
+            cols: this.cols,
+            rows: this.rows,
+            body: this.snake.map(({ x, y }) => ({ x, y })),
+            apple: { ...this.apple },
+            direction: this.direction,
+            state: this.state
+        };
+    }
+
+    describe(): string {
+        if (this.state === GameState.GAME_OVER) return `Game over. Final score ${this.score}.`;
+        const [head] = this.snake;
+        // The apple is only placed once the run starts
+        const apple = this.state === GameState.READY ? [] : [cells(this.apple.x - head.x, 'right', 'left'), cells(this.apple.y - head.y, 'down', 'up')].filter(Boolean);
+        return [
+            this.state === GameState.READY ? 'Ready to start.' : this.state === GameState.PAUSED ? 'Paused.' : '',
+            `Score ${this.score}, length ${this.snake.length}, heading ${this.direction.toLowerCase()}.`,
+            apple.length > 0 ? `The apple is ${apple.join(' and ')}.` : ''
+        ].filter(Boolean).join(' ');
+    }
+
+    private initGame(): void {
+        const centerX = Math.floor(this.cols / 2);
+        const centerY = Math.floor(this.rows / 2);
+
+        this.snake = [
+            { x: centerX, y: centerY },
+            { x: centerX - 1, y: centerY },
+            { x: centerX - 2, y: centerY }
+        ];
+
+        this.direction = Direction.RIGHT;
+        this.nextDirection = Direction.RIGHT;
+        this.currentSpeed = this.settings.initialSpeed;
+        this.score = 0;
+
+        this.state = GameState.READY;
+        this.emit({ type: 'music', track: 'snake' });
+    }
+
+    private startGame(): void {
+        this.moveTimer = 0;
+        this.emit({ type: 'run-start' });
+        // The first apple is drawn from the run's seed
+        this.spawnApple();
+        this.state = GameState.PLAYING;
+    }
+
+    private pauseGame(): void {
+        if (this.state === GameState.PLAYING) {
+            this.state = GameState.PAUSED;
+            this.emit({ type: 'game', event: { type: 'paused' } });
+        }
+    }
+
+    private resumeGame(): void {
+        if (this.state === GameState.PAUSED) {
+            this.state = GameState.PLAYING;
+        }
+    }
+
+    private restartGame(): void {
+        this.initGame();
+        this.startGame();
+    }
+
+    private moveSnake(): void {
+        this.direction = this.nextDirection;
+
+        const head = this.snake[0];
+        let newHead: Point;
+
+        switch (this.direction) {
+            case Direction.UP:
+                newHead = { x: head.x, y: head.y - 1 };
+                break;
+            case Direction.DOWN:
+                newHead = { x: head.x, y: head.y + 1 };
+                break;
+            case Direction.LEFT:
+                newHead = { x: head.x - 1, y: head.y };
+                break;
+            case Direction.RIGHT:
+                newHead = { x: head.x + 1, y: head.y };
+                break;
+        }
+
+        // Check wall collision
+        if (newHead.x < 0 || newHead.x >= this.cols ||
+            newHead.y < 0 || newHead.y >= this.rows) {
+            this.endGame();
+            return;
+        }
+
+        // Check self collision
+        if (this.snake.some(segment => segment.x === newHead.x && segment.y === newHead.y)) {
+            this.endGame();
+            return;
+        }
+
+        this.snake.unshift(newHead);
+
+        // Check apple collision
+        if (newHead.x === this.apple.x && newHead.y === this.apple.y) {
+            this.score += 10;
+            this.emit({ type: 'sound', sound: 'snake.eat' });
+            this.emit({ type: 'game', event: { type: 'apple-eaten', length: this.snake.length } });
+            this.emit({ type: 'ghost-split', count: 1 });
+            this.spawnApple();
+
+            // Increase speed
+            this.currentSpeed = Math.max(this.MIN_SPEED, this.currentSpeed - this.settings.speedIncrement);
+        } else {
+            this.snake.pop();
+        }
+    }
+
+    private spawnApple(): void {
+        let newApple: Point;
+
+        do {
+            newApple = {
+                x: this.rng.int(this.cols),
+                y: this.rng.int(this.rows)
+            };
+        } while (this.snake.some(segment => segment.x === newApple.x && segment.y === newApple.y));
+
+        this.apple = newApple;
+    }
+
+    private endGame(): void {
+        this.state = GameState.GAME_OVER;
+        this.emit({ type: 'music', track: null });
+        this.emit({ type: 'sound', sound: 'snake.gameOver' });
+        this.emit({ type: 'run-end', score: this.score });
+    }
+}
@@ -0,0 +1,13 @@
+import { SettingField } from '../settings/game-settings';
+
+export interface SnakeSettings {
+    // Time between moves at the start, in ms
+    initialSpeed: number;
+    // Taken off the time between moves for every apple
+    speedIncrement: number;
+}
+
+export const SNAKE_SETTINGS: SettingField<keyof SnakeSettings>[] = [
+    { id: 'initialSpeed', label: 'Starting move time (ms)', min: 60, max: 300, step: 10, presets: { easy: 200, normal: 150, hard: 110 } },
+    { id: 'speedIncrement', label: 'Speed-up per apple (ms)', min: 0, max: 20, step: 1, presets: { easy: 3, normal: 5, hard: 7 } }
+];
@@ -0,0 +1,39 @@
+import { Bot, BotMove } from '../bots/bot';
+import { RocksAction, RocksObservation, Vector } from './rocks-engine';
+
+// Shots leave at this many pixels a frame, the speed the engine fires them at
+const BULLET_SPEED = 7;
+// Near enough on target to fire, in radians
+const AIM = 0.12;
+
+// Stays in the middle and turns to meet the nearest rock, leading it by the time a shot takes
+// to get there, and fires whenever it's lined up
+export class RocksGunner implements Bot<RocksObservation, RocksAction> {
+    readonly name = 'gunner';
+
+    move({ width, height, ship, asteroids }: RocksObservation): BotMove<RocksAction> {
+        const offset = (from: Vector, to: Vector): Vector => ({
+            x: wrapDelta(to.x - from.x, width),
+            y: wrapDelta(to.y - from.y, height)
+        });
+        const target = asteroids
+            .map(asteroid => ({ asteroid, delta: offset(ship.pos, asteroid.pos) }))
+            .reduce<{ delta: Vector; asteroid: RocksObservation['asteroids'][number] } | null>((nearest, next) =>
+                !nearest || Math.hypot(next.delta.x, next.delta.y) < Math.hypot(nearest.delta.x, nearest.delta.y) ? next : nearest, null);
+        if (!target) return {};
+
+        const time = Math.hypot(target.delta.x, target.delta.y) / BULLET_SPEED;
+        const aimX = target.delta.x + target.asteroid.vel.x * time;
+        const aimY = target.delta.y + target.asteroid.vel.y * time;
+        const turn = wrapDelta(Math.atan2(aimY, aimX) - ship.angle, Math.PI * 2);
+
+        // The engine ignores shots fired too soon after the last one
+        if (Math.abs(turn) < AIM) return { press: ['fire'] };
+        return { hold: [turn > 0 ? 'rotate-right' : 'rotate-left'] };
+    }
+}
+
+// The shorter way round a field, or a circle, that wraps every `size`
+function wrapDelta(delta: number, size: number): number {
+    return delta - size * Math.round(delta / size);
+}
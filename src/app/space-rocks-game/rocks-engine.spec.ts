@@ -0,0 +1,98 @@
+import { RandomStream } from '../random/random-stream';
+import { FRAME_MS } from '../game-loop/frame-time';
+import { EventLog, HeldInput, tap } from '../games/engine-test-doubles';
+import { Asteroid, Bullet, RocksEngine, RocksSnapshot } from './rocks-engine';
+
+describe('RocksEngine', () => {
+    const WIDTH = 800;
+    const HEIGHT = 600;
+    let input: HeldInput;
+    let events: EventLog;
+    let engine: RocksEngine;
+
+    function asteroid(size: Asteroid['size'], x: number, y: number): Asteroid {
+        const radius = { large: 40, medium: 25, small: 15 }[size];
+        return { pos: { x, y }, prev: { x, y }, vel: { x: 0, y: 0 }, angle: 0, rotationSpeed: 0, radius, size, points: [] };
+    }
+
+    function bullet(x: number, y: number): Bullet {
+        return { pos: { x, y }, prev: { x, y }, vel: { x: 0, y: 0 }, life: 60 };
+    }
+
+    // Continued runs come back paused, so unpause and take a step
+    function playFrom(state: Partial<RocksSnapshot>): void {
+        engine.restore({ ...engine.snapshot(), bullets: [], ...state });
+        engine.press(tap('pause'));
+        engine.step(input, FRAME_MS);
+    }
+
+    beforeEach(() => {
+        input = new HeldInput();
+        events = new EventLog();
+        engine = new RocksEngine(WIDTH, HEIGHT, 1, new RandomStream(1), new RandomStream(2), events.emit);
+    });
+
+    it('starts a run with four large asteroids clear of the ship', () => {
+        expect(events.of('run-start').length).toBe(1);
+        expect(engine.asteroids.length).toBe(4);
+        for (const rock of engine.asteroids) {
+            expect(rock.size).toBe('large');
+            expect(Math.hypot(rock.pos.x - engine.ship.pos.x, rock.pos.y - engine.ship.pos.y)).toBeGreaterThanOrEqual(150);
+        }
+    });
+
+    it('splits a large asteroid into two mediums', () => {
+        playFrom({ asteroids: [asteroid('large', 100, 100)], bullets: [bullet(100, 100)] });
+
+        expect(engine.asteroids.map(rock => rock.size)).toEqual(['medium', 'medium']);
+        expect(engine.asteroids.map(rock => rock.pos)).toEqual([{ x: 100, y: 100 }, { x: 100, y: 100 }]);
+        expect(engine.bullets.length).toBe(0);
+        expect(engine.score).toBe(20);
+    });
+
+    it('splits a medium asteroid into two smalls', () => {
+        playFrom({ asteroids: [asteroid('medium', 100, 100)], bullets: [bullet(100, 100)], score: 0 });
+
+        expect(engine.asteroids.map(rock => rock.size)).toEqual(['small', 'small']);
+        expect(engine.score).toBe(50);
+    });
+
+    it('moves up a level once the last small asteroid is gone', () => {
+        playFrom({ asteroids: [asteroid('small', 100, 100)], bullets: [bullet(100, 100)], score: 0 });
+
+        expect(engine.score).toBe(100);
+        expect(engine.level).toBe(2);
+        expect(engine.asteroids.length).toBe(6);
+        expect(events.of('game').map(e => e.event)).toContainEqual({ type: 'level-up', level: 2 });
+    });
+
+    it('loses a life when an asteroid hits the ship', () => {
+        const { x, y } = engine.ship.pos;
+        playFrom({ asteroids: [asteroid('large', x, y), asteroid('large', 100, 100)] });
+
+        expect(engine.lives).toBe(2);
+        expect(engine.ship.pos).toEqual({ x: WIDTH / 2, y: HEIGHT / 2 });
+        expect(events.of('game').map(e => e.event)).toContainEqual({ type: 'life-lost', livesLeft: 2 });
+    });
+
+    it('fires no faster than the shot delay', () => {
+        playFrom({ asteroids: [asteroid('large', 100, 100)] });
+        engine.press(tap('fire'));
+        engine.press(tap('fire'));
+        expect(engine.bullets.length).toBe(1);
+
+        for (let i = 0; i < 16; i++) engine.step(input, FRAME_MS);
+        engine.press(tap('fire'));
+        expect(engine.bullets.length).toBe(2);
+    });
+
+    it('thrusts the ship the way it faces', () => {
+        playFrom({ asteroids: [asteroid('large', 100, 100)] });
+        input.held.add('thrust');
+        engine.step(input, FRAME_MS);
+
+        // Facing straight up
+        expect(engine.ship.vel.y).toBeLessThan(0);
+        expect(engine.ship.thrust).toBe(true);
+    });
+});
@@ -0,0 +1,526 @@
+import { ActionPress } from '../input/input-actions';
+import { RandomStream } from '../random/random-stream';
+import { FRAME_MS } from '../game-loop/frame-time';
+import { Describable, EngineEmitter, GameEngine, StepInput } from '../games/game-engine';
+import { plural } from '../games/game-description';
+import { Observation } from '../bots/bot';
+import { presetValues } from '../settings/game-settings';
+import { ROCKS_SETTINGS, RocksSettings } from './rocks-settings';
+
+export interface Vector {
+    x: number;
+    y: number;
+}
+
+// Anything that moves and wraps around the screen. prev is the position at the
+// previous simulation step, used for interpolated rendering.
+export interface Body {
+    pos: Vector;
+    prev: Vector;
+    vel: Vector;
+}
+
+export interface Ship extends Body {
+    angle: number;
+    thrust: boolean;
+    radius: number;
+}
+
+export interface Asteroid extends Body {
+    angle: number;
+    rotationSpeed: number;
+    radius: number;
+    size: 'large' | 'medium' | 'small';
+    points: Vector[];
+}
+
+export interface Bullet extends Body {
+    life: number;
+}
+
+export interface Particle {
+    pos: Vector;
+    vel: Vector;
+    life: number;
+    maxLife: number;
+}
+
+// Everything a run in progress needs to carry on later; particles are only for show
+export interface RocksSnapshot {
+    ship: Ship;
+    asteroids: Asteroid[];
+    bullets: Bullet[];
+    elapsed: number;
+    // Null before the first shot
+    lastShot: number | null;
+    score: number;
+    lives: number;
+    level: number;
+}
+
+export const SHIP_SIZE = 15;
+
+// Steering and thrust are held, fire is pressed
+export const ROCKS_ACTIONS = ['rotate-left', 'rotate-right', 'thrust', 'fire'] as const;
+export type RocksAction = typeof ROCKS_ACTIONS[number];
+
+// The field as a bot sees it. Positions are in pixels and wrap at the edges; velocities are
+// per 60 Hz frame, and the ship's angle is in radians clockwise from the right.
+export interface RocksObservation extends Observation {
+    width: number;
+    height: number;
+    ship: { pos: Vector; vel: Vector; angle: number; radius: number };
+    asteroids: { pos: Vector; vel: Vector; radius: number; size: Asteroid['size'] }[];
+    bullets: { pos: Vector; vel: Vector; life: number }[];
+    lives: number;
+    level: number;
+}
+
+// Space Rocks on a field the size of the window, wrapping at the edges. Asteroid shapes and
+// explosions draw on the cosmetic stream, so they don't change how a run plays out.
+export class RocksEngine implements GameEngine<RocksSnapshot>, Describable {
+    private rng: RandomStream;
+    private cosmeticRng: RandomStream;
+    private emit: EngineEmitter;
+    private startLevel: number;
+    private settings: RocksSettings;
+
+    // Field size
+    private width: number;
+    private height: number;
+
+    // Game state
+    ship!: Ship;
+    asteroids: Asteroid[] = [];
+    bullets: Bullet[] = [];
+    particles: Particle[] = [];
+    gameOver = false;
+    paused = false;
+    // Simulated play time in ms, so the fire rate doesn't depend on the wall clock
+    private elapsed = 0;
+    private lastShot = -Infinity;
+    private lastThrustSound = -Infinity;
+
+    // Game metrics
+    score = 0;
+    lives = 3;
+    level = 1;
+
+    // Constants
+    private readonly SHIP_TURN_SPEED = 0.08;
+    private readonly BULLET_SPEED = 7;
+    private readonly BULLET_LIFE = 60;
+    private readonly SHOT_DELAY = 250; // ms
+    private readonly THRUST_SOUND_DELAY = 100; // ms
+
+    constructor(
+        width: number,
+        height: number,
+        startLevel: number,
+        rng: RandomStream,
+        cosmeticRng: RandomStream,
+        emit: EngineEmitter,
+        settings: RocksSettings = presetValues(ROCKS_SETTINGS, 'normal')
+    ) {
+        this.width = width;
+        this.height = height;
+        this.startLevel = startLevel;
+        this.rng = rng;
+        this.cosmeticRng = cosmeticRng;
+        this.emit = emit;
+        this.settings = settings;
+        this.initGame();
+    }
+
+    resize(width: number, height: number): void {
+        this.width = width;
+        this.height = height;
+    }
+
+    press({ action, repeat }: ActionPress): void {
+        if (action === 'fire') {
+            this.shoot();
+        }
+
+        if (action === 'restart' && this.gameOver) {
+            this.initGame();
+        }
+
+        if (action === 'pause' && !repeat) {
+            this.paused = !this.paused;
+            if (this.paused) this.emit({ type: 'game', event: { type: 'paused' } });
+        }
+    }
+
+    step(input: StepInput, dt: number): void {
+        if (this.paused || this.gameOver) return;
+
+        // Speeds, lifetimes and friction are tuned per 60 Hz frame
+        const frames = dt / FRAME_MS;
+        this.elapsed += dt;
+
+        this.updateShip(input, frames);
+        this.updateBullets(frames);
+        this.updateAsteroids(frames);
+        this.updateParticles(frames);
+        this.checkCollisions();
+
+        // Check level completion
+        if (this.asteroids.length === 0 && !this.gameOver) {
+            this.level++;
+            this.emit({ type: 'game', event: { type: 'level-up', level: this.level } });
+            this.createAsteroids(this.settings.asteroids + this.level);
+        }
+    }
+
+    snapshot(): RocksSnapshot {
+        return {
+            ship: this.ship,
+            asteroids: this.asteroids,
+            bullets: this.bullets,
+            elapsed: this.elapsed,
+            lastShot: Number.isFinite(this.lastShot) ? this.lastShot : null,
+            score: this.score,
+            lives: this.lives,
+            level: this.level
+        };
+    }
+
+    // A continued run starts paused, so the player can find their bearings
+    restore(state: RocksSnapshot): void {
+        this.ship = state.ship;
+        this.asteroids = state.asteroids;
+        this.bullets = state.bullets;
+        this.elapsed = state.elapsed;
+        this.lastShot = state.lastShot ?? -Infinity;
+        this.score = state.score;
+        this.lives = state.lives;
+        this.level = state.level;
+        this.paused = true;
+    }
+
+    observe(): RocksObservation {
+        const { pos, vel, angle, radius } = this.ship;
+        return {
+            score: this.score,
+            over: this.gameOver,
+            width: this.width,
+            height: this.height,
+            ship: { pos: { ...pos }, vel: { ...vel }, angle, radius },
+            asteroids: this.asteroids.map(({ pos, vel, radius, size }) => ({ pos: { ...pos }, vel: { ...vel }, radius, size })),
+            bullets: this.bullets.map(({ pos, vel, life }) => ({ pos: { ...pos }, vel: { ...vel }, life })),
+            lives: this.lives,
+            level: this.level
+        };
+    }
+
+    describe(): string {
+        if (this.gameOver) return `Game over. Final score ${this.score}, level ${this.level}.`;
+        const { pos, angle } = this.ship;
+        const parts = [
+            this.paused ? 'Paused.' : '',
+            `Score ${this.score}, ${plural(this.lives, 'life', 'lives')}, level ${this.level}. ${plural(this.asteroids.length, 'rock')} left.`,
+            `Your ship points ${compass(Math.cos(angle), Math.sin(angle))}.`
+        ];
+        const nearest = this.asteroids.reduce<Asteroid | null>((best, rock) =>
+            !best || Math.hypot(rock.pos.x - pos.x, rock.pos.y - pos.y) < Math.hypot(best.pos.x - pos.x, best.pos.y - pos.y) ? rock : best, null);
+        if (nearest) {
+            const distance = Math.hypot(nearest.pos.x - pos.x, nearest.pos.y - pos.y) - nearest.radius;
+            const range = distance < 120 ? 'close' : distance < 300 ? 'some way off' : 'far off';
+            parts.push(`The nearest rock, ${nearest.size} and ${range}, lies ${compass(nearest.pos.x - pos.x, nearest.pos.y - pos.y)}.`);
+        }
+        return parts.filter(Boolean).join(' ');
+    }
+
+    private initGame(): void {
+        // Initialize ship
+        this.ship = {
+            pos: { x: this.width / 2, y: this.height / 2 },
+            prev: { x: this.width / 2, y: this.height / 2 },
+            vel: { x: 0, y: 0 },
+            angle: -Math.PI / 2,
+            thrust: false,
+            radius: SHIP_SIZE
+        };
+
+        // Reset game state
+        this.asteroids = [];
+        this.bullets = [];
+        this.particles = [];
+        this.lastShot = -Infinity;
+        this.gameOver = false;
+        this.score = 0;
+        this.lives = this.settings.lives;
+        this.level = this.startLevel;
+
+        // Create initial asteroids (later levels start with as many as a level-up would spawn)
+        this.emit({ type: 'run-start' });
+        this.createAsteroids(this.level > 1 ? this.settings.asteroids + this.level : this.settings.asteroids);
+        this.emit({ type: 'music', track: 'rocks' });
+    }
+
+    private createAsteroids(count: number): void {
+        const minDistance = 150; // Minimum distance from ship
+
+        for (let i = 0; i < count; i++) {
+            let pos: Vector;
+            let distance: number;
+
+            // Ensure asteroid spawns away from ship
+            do {
+                pos = {
+                    x: this.rng.next() * this.width,
+                    y: this.rng.next() * this.height
+                };
+                distance = Math.hypot(pos.x - this.ship.pos.x, pos.y - this.ship.pos.y);
+            } while (distance < minDistance);
+
+            this.asteroids.push(this.createAsteroid(pos, 'large'));
+        }
+    }
+
+    private createAsteroid(pos: Vector, size: 'large' | 'medium' | 'small'): Asteroid {
+        const radiusMap = { large: 40, medium: 25, small: 15 };
+        const speedMap = { large: 1, medium: 1.5, small: 2 };
+
+        const angle = this.rng.next() * Math.PI * 2;
+        const speed = speedMap[size] * (0.5 + this.rng.next() * 0.5);
+
+        // Generate fixed asteroid shape points
+        const numPoints = 8;
+        const points: Vector[] = [];
+        for (let i = 0; i < numPoints; i++) {
+            const angle = (Math.PI * 2 * i) / numPoints;
+            const variation = 0.7 + this.cosmeticRng.next() * 0.3;
+            const radius = radiusMap[size] * variation;
+            points.push({
+                x: Math.cos(angle) * radius,
+                y: Math.sin(angle) * radius
+            });
+        }
+
+        return {
+            pos: { ...pos },
+            prev: { ...pos },
+            vel: {
+                x: Math.cos(angle) * speed,
+                y: Math.sin(angle) * speed
+            },
+            angle: 0,
+            rotationSpeed: (this.cosmeticRng.next() - 0.5) * 0.05,
+            radius: radiusMap[size],
+            size,
+            points
+        };
+    }
+
+    private shoot(): void {
+        if (this.gameOver || this.paused) return;
+
+        if (this.elapsed - this.lastShot < this.SHOT_DELAY) return;
+
+        this.lastShot = this.elapsed;
+
+        const pos = {
+            x: this.ship.pos.x + Math.cos(this.ship.angle) * this.ship.radius,
+            y: this.ship.pos.y + Math.sin(this.ship.angle) * this.ship.radius
+        };
+        const bullet: Bullet = {
+            pos,
+            prev: { ...pos },
+            vel: {
+                x: Math.cos(this.ship.angle) * this.BULLET_SPEED + this.ship.vel.x,
+                y: Math.sin(this.ship.angle) * this.BULLET_SPEED + this.ship.vel.y
+            },
+            life: this.BULLET_LIFE
+        };
+
+        this.bullets.push(bullet);
+        this.emit({ type: 'sound', sound: 'rocks.shoot' });
+    }
+
+    private updateShip(input: StepInput, frames: number): void {
+        // Rotation, proportional on an analog stick
+        this.ship.angle += input.axis('rotate-left', 'rotate-right') * this.SHIP_TURN_SPEED * frames;
+
+        // Thrust, proportional on an analog trigger
+        const thrust = input.value('thrust');
+        this.ship.thrust = thrust > 0.1;
+        if (this.ship.thrust) {
+            this.ship.vel.x += Math.cos(this.ship.angle) * this.settings.shipThrust * thrust * frames;
+            this.ship.vel.y += Math.sin(this.ship.angle) * this.settings.shipThrust * thrust * frames;
+            this.playThrustSound();
+        }
+
+        // Apply friction
+        const friction = Math.pow(this.settings.friction, frames);
+        this.ship.vel.x *= friction;
+        this.ship.vel.y *= friction;
+
+        // Update position, wrapping around the screen
+        this.moveBody(this.ship, frames);
+    }
+
+    private updateBullets(frames: number): void {
+        this.bullets = this.bullets.filter(bullet => {
+            this.moveBody(bullet, frames);
+            bullet.life -= frames;
+
+            return bullet.life > 0;
+        });
+    }
+
+    private updateAsteroids(frames: number): void {
+        this.asteroids.forEach(asteroid => {
+            this.moveBody(asteroid, frames);
+            asteroid.angle += asteroid.rotationSpeed * frames;
+        });
+    }
+
+    private updateParticles(frames: number): void {
+        const drag = Math.pow(0.98, frames);
+
+        this.particles = this.particles.filter(particle => {
+            particle.pos.x += particle.vel.x * frames;
+            particle.pos.y += particle.vel.y * frames;
+            particle.vel.x *= drag;
+            particle.vel.y *= drag;
+            particle.life -= frames;
+
+            return particle.life > 0;
+        });
+    }
+
+    private moveBody(body: Body, frames: number): void {
+        body.prev.x = body.pos.x;
+        body.prev.y = body.pos.y;
+        body.pos.x += body.vel.x * frames;
+        body.pos.y += body.vel.y * frames;
+
+        // Don't interpolate across the screen when wrapping around
+        if (this.wrapPosition(body.pos, this.width, this.height)) {
+            body.prev.x = body.pos.x;
+            body.prev.y = body.pos.y;
+        }
+    }
+
+    private wrapPosition(pos: Vector, width: number, height: number): boolean {
+        const { x, y } = pos;
+        if (pos.x < 0) pos.x = width;
+        if (pos.x > width) pos.x = 0;
+        if (pos.y < 0) pos.y = height;
+        if (pos.y > height) pos.y = 0;
+        return pos.x !== x || pos.y !== y;
+    }
+
+    private checkCollisions(): void {
+        // Check bullet-asteroid collisions
+        for (let i = this.bullets.length - 1; i >= 0; i--) {
+            for (let j = this.asteroids.length - 1; j >= 0; j--) {
+                const bullet = this.bullets[i];
+                const asteroid = this.asteroids[j];
+
+                if (this.checkCircleCollision(bullet.pos, 2, asteroid.pos, asteroid.radius)) {
+                    this.destroyAsteroid(j);
+                    this.bullets.splice(i, 1);
+                    break;
+                }
+            }
+        }
+
+        // Check ship-asteroid collisions
+        for (let i = this.asteroids.length - 1; i >= 0; i--) {
+            const asteroid = this.asteroids[i];
+
+            if (this.checkCircleCollision(this.ship.pos, this.ship.radius, asteroid.pos, asteroid.radius)) {
+                this.destroyShip();
+                this.destroyAsteroid(i);
+                break;
+            }
+        }
+    }
+
+    private checkCircleCollision(pos1: Vector, r1: number, pos2: Vector, r2: number): boolean {
+        const dx = pos1.x - pos2.x;
+        const dy = pos1.y - pos2.y;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        return distance < r1 + r2;
+    }
+
+    private destroyAsteroid(index: number): void {
+        const asteroid = this.asteroids[index];
+
+        // Update score
+        const scoreMap = { large: 20, medium: 50, small: 100 };
+        this.score += scoreMap[asteroid.size];
+        this.emit({ type: 'game', event: { type: 'enemy-destroyed', kind: 'rock', points: scoreMap[asteroid.size], size: asteroid.size } });
+
+        // Create particles
+        this.createExplosion(asteroid.pos, 8);
+
+        // Split asteroid if not small
+        if (asteroid.size === 'large') {
+            for (let i = 0; i < 2; i++) {
+                this.asteroids.push(this.createAsteroid(asteroid.pos, 'medium'));
+            }
+        } else if (asteroid.size === 'medium') {
+            for (let i = 0; i < 2; i++) {
+                this.asteroids.push(this.createAsteroid(asteroid.pos, 'small'));
+            }
+        }
+
+        this.asteroids.splice(index, 1);
+        this.emit({ type: 'sound', sound: 'rocks.explosion' });
+    }
+
+    private destroyShip(): void {
+        this.createExplosion(this.ship.pos, 20);
+        this.emit({ type: 'sound', sound: 'rocks.explosion' });
+
+        this.lives--;
+        this.emit({ type: 'game', event: { type: 'life-lost', livesLeft: this.lives } });
+
+        if (this.lives <= 0) {
+            this.gameOver = true;
+            this.emit({ type: 'music', track: null });
+            this.emit({ type: 'run-end', score: this.score, level: this.level });
+        } else {
+            // Reset ship position
+            this.ship.pos.x = this.ship.prev.x = this.width / 2;
+            this.ship.pos.y = this.ship.prev.y = this.height / 2;
+            this.ship.vel.x = 0;
+            this.ship.vel.y = 0;
+            this.ship.angle = -Math.PI / 2;
+        }
+    }
+
+    private createExplosion(pos: Vector, count: number): void {
+        for (let i = 0; i < count; i++) {
+            const angle = (Math.PI * 2 * i) / count;
+            const speed = 2 + this.cosmeticRng.next() * 2;
+
+            this.particles.push({
+                pos: { ...pos },
+                vel: {
+                    x: Math.cos(angle) * speed,
+                    y: Math.sin(angle) * speed
+                },
+                life: 30,
+                maxLife: 30
+            });
+        }
+    }
+
+    // Restart the engine rumble while thrusting, at most every THRUST_SOUND_DELAY ms
+    private playThrustSound(): void {
+        if (this.elapsed - this.lastThrustSound < this.THRUST_SOUND_DELAY) return;
+        this.lastThrustSound = this.elapsed;
+        this.emit({ type: 'sound', sound: 'rocks.thrust' });
+    }
+}
+
+// The nearest of eight directions on screen, y pointing down
+function compass(dx: number, dy: number): string {
+    const directions = ['right', 'down and right', 'down', 'down and left', 'left', 'up and left', 'up', 'up and right'];
+    return directions[(Math.round(Math.atan2(dy, dx) / (Math.PI / 4)) + 8) % 8];
+}
@@ -0,0 +1,165 @@
+import { lerp } from '../game-loop/frame-time';
+import { KeyNames } from '../input/input-actions';
+import { Asteroid, Body, RocksEngine, SHIP_SIZE, Vector } from './rocks-engine';
+
+// Draws a RocksEngine filling its canvas
+export class RocksRenderer {
+    constructor(private ctx: CanvasRenderingContext2D, private keys: KeyNames) {}
+
+    private renderPos(body: Body, alpha: number): Vector {
+        return {
+            x: lerp(body.prev.x, body.pos.x, alpha),
+            y: lerp(body.prev.y, body.pos.y, alpha)
+        };
+    }
+
+    render(engine: RocksEngine, alpha: number): void {
+        const canvas = this.ctx.canvas;
+        const ctx = this.ctx;
+
+        // Clear canvas with black background
+        ctx.fillStyle = '#000000';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+        // Draw particles
+        engine.particles.forEach(particle => {
+            const alpha = particle.life / particle.maxLife;
+            ctx.fillStyle = `rgba(255, 255, 255, ${alpha})`;
+            ctx.fillRect(particle.pos.x - 1, particle.pos.y - 1, 2, 2);
+        });
+
+        // Draw asteroids
+        ctx.strokeStyle = '#FFFFFF';
+        ctx.lineWidth = 2;
+        engine.asteroids.forEach(asteroid => this.drawAsteroid(asteroid, alpha));
+
+        // Draw bullets
+        ctx.fillStyle = '#FFFFFF';
+        engine.bullets.forEach(bullet => {
+            const pos = this.renderPos(bullet, alpha);
+            ctx.fillRect(pos.x - 1, pos.y - 1, 2, 2);
+        });
+
+        // Draw ship
+        if (!engine.gameOver) {
+            this.drawShip(engine, alpha);
+        }
+
+        // Draw UI
+        this.drawUI(engine);
+    }
+
+    private drawShip(engine: RocksEngine, alpha: number): void {
+        const ctx = this.ctx;
+        const ship = engine.ship;
+        const pos = this.renderPos(ship, alpha);
+
+        ctx.save();
+        ctx.translate(pos.x, pos.y);
+        ctx.rotate(ship.angle);
+
+        // Draw thrust flame first (so it appears behind the ship)
+        if (ship.thrust) {
+            ctx.beginPath();
+            ctx.moveTo(-SHIP_SIZE / 2, 0);
+            ctx.lineTo(-SHIP_SIZE * 1.5, -SHIP_SIZE / 3);
+            ctx.lineTo(-SHIP_SIZE * 1.8, 0);
+            ctx.lineTo(-SHIP_SIZE * 1.5, SHIP_SIZE / 3);
+            ctx.closePath();
+
+            // Yellow flame with gradient effect
+            const gradient = ctx.createLinearGradient(-SHIP_SIZE / 2, 0, -SHIP_SIZE * 1.8, 0);
+            gradient.addColorStop(0, '#FFA500'); // Orange at base
+            gradient.addColorStop(1, '#FFFF00'); // Yellow at tip
+            ctx.fillStyle = gradient;
+            ctx.fill();
+        }
+
+        // Draw solid green ship body
+        ctx.beginPath();
+        ctx.moveTo(SHIP_SIZE, 0);
+        ctx.lineTo(-SHIP_SIZE, -SHIP_SIZE / 2);
+        ctx.lineTo(-SHIP_SIZE, SHIP_SIZE / 2);
+        ctx.closePath();
+
+        // Fill with green
+        ctx.fillStyle = '#00FF00';
+        ctx.fill();
+
+        // Optional: Add darker green outline
+        ctx.strokeStyle = '#00AA00';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+
+        ctx.restore();
+    }
+
+    private drawAsteroid(asteroid: Asteroid, alpha: number): void {
+        const ctx = this.ctx;
+        const pos = this.renderPos(asteroid, alpha);
+
+        ctx.save();
+        ctx.translate(pos.x, pos.y);
+        ctx.rotate(asteroid.angle);
+
+        // Draw solid brown asteroid
+        ctx.beginPath();
+        for (let i = 0; i < asteroid.points.length; i++) {
+            const point = asteroid.points[i];
+            if (i === 0) {
+                ctx.moveTo(point.x, point.y);
+            } else {
+                ctx.lineTo(point.x, point.y);
+            }
+        }
+        ctx.closePath();
+
+        // Fill with brown color
+        ctx.fillStyle = '#8B4513';
+        ctx.fill();
+
+        // Optional: Add a darker brown outline
+        ctx.strokeStyle = '#654321';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+
+        ctx.restore();
+    }
+
+    private drawUI(engine: RocksEngine): void {
+        const ctx = this.ctx;
+        const canvas = this.ctx.canvas;
+
+        ctx.fillStyle = '#FFFFFF';
+        ctx.font = '20px "Courier New", monospace';
+
+        // Score
+        ctx.fillText(`SCORE: ${engine.score}`, 20, 30);
+
+        // Lives
+        ctx.fillText(`LIVES: ${engine.lives}`, 20, 60);
+
+        // Level
+        ctx.fillText(`LEVEL: ${engine.level}`, 20, 90);
+
+        // Game Over
+        if (engine.gameOver) {
+            ctx.font = '48px "Courier New", monospace';
+            ctx.textAlign = 'center';
+            ctx.fillText('GAME OVER', canvas.width / 2, canvas.height / 2);
+            ctx.font = '24px "Courier New", monospace';
+            ctx.fillText(`Press ${this.keys('restart')} to Restart`, canvas.width / 2, canvas.height / 2 + 50);
+            ctx.textAlign = 'left';
+        }
+
+        // Paused
+        if (engine.paused) {
+            ctx.font = '48px "Courier New", monospace';
+            ctx.textAlign = 'center';
+            ctx.fillText('PAUSED', canvas.width / 2, canvas.height / 2);
+            ctx.font = '24px "Courier New", monospace';
+            ctx.fillText(`Press ${this.keys('pause')} to Resume`, canvas.width / 2, canvas.height / 2 + 50);
+            ctx.textAlign = 'left';
+        }
+    }
+}
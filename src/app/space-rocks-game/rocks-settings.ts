@@ -0,0 +1,17 @@
+import { SettingField } from '../settings/game-settings';
+
+export interface RocksSettings {
+    lives: number;
+    shipThrust: number;
+    // Share of its speed the ship keeps each frame
+    friction: number;
+    // Large asteroids in the first wave; each later wave brings one more per level
+    asteroids: number;
+}
+
+export const ROCKS_SETTINGS: SettingField<keyof RocksSettings>[] = [
+    { id: 'lives', label: 'Lives', min: 1, max: 9, step: 1, presets: { easy: 5, normal: 3, hard: 2 } },
+    { id: 'shipThrust', label: 'Ship thrust', min: 0.05, max: 0.4, step: 0.01, presets: { easy: 0.12, normal: 0.15, hard: 0.18 } },
+    { id: 'friction', label: 'Ship drift', min: 0.9, max: 1, step: 0.005, presets: { easy: 0.96, normal: 0.98, hard: 0.99 } },
+    { id: 'asteroids', label: 'Asteroids in the first wave', min: 1, max: 12, step: 1, presets: { easy: 3, normal: 4, hard: 6 } }
+];
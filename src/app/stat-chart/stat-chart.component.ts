@@ -0,0 +1,95 @@
+import { Component, ElementRef, afterRenderEffect, input, viewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 20, right: 16, bottom: 24, left: 48 };
+
+// A small line or bar chart drawn on a canvas
+@Component({
+    selector: 'app-stat-chart',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './stat-chart.component.html',
+    styleUrls: ['./stat-chart.component.css']
+})
+export class StatChartComponent {
+    values = input.required<number[]>();
+    // Labels under the first and last values
+    labels = input<[string, string] | null>(null);
+    kind = input<'line' | 'bar'>('line');
+    color = input('#00ffff');
+    formatValue = input<(value: number) => string>(value => `${Math.round(value)}`);
+
+    protected readonly WIDTH = WIDTH;
+    protected readonly HEIGHT = HEIGHT;
+    private canvas = viewChild.required<ElementRef<HTMLCanvasElement>>('chart');
+
+    constructor() {
+        afterRenderEffect(() => this.draw());
+    }
+
+    private draw(): void {
+        const ctx = this.canvas().nativeElement.getContext('2d');
+        if (!ctx) return;
+
+        const values = this.values();
+        ctx.clearRect(0, 0, WIDTH, HEIGHT);
+        ctx.font = '12px "Courier New", monospace';
+
+        if (values.length === 0) {
+            ctx.fillStyle = '#888888';
+            ctx.textAlign = 'center';
+            ctx.fillText('NO DATA YET', WIDTH / 2, HEIGHT / 2);
+            return;
+        }
+
+        const plotWidth = WIDTH - PADDING.left - PADDING.right;
+        const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+        const max = Math.max(...values) || 1;
+        const y = (value: number) => PADDING.top + plotHeight * (1 - value / max);
+
+        // Axes with the top value marked
+        ctx.strokeStyle = '#444444';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(PADDING.left, PADDING.top);
+        ctx.lineTo(PADDING.left, PADDING.top + plotHeight);
+        ctx.lineTo(PADDING.left + plotWidth, PADDING.top + plotHeight);
+        ctx.stroke();
+
+        ctx.fillStyle = '#aaaaaa';
+        ctx.textAlign = 'right';
+        ctx.fillText(this.formatValue()(max), PADDING.left - 6, PADDING.top + 4);
+        ctx.fillText('0', PADDING.left - 6, PADDING.top + plotHeight);
+
+        const labels = this.labels();
+        if (labels) {
+            ctx.textAlign = 'left';
+            ctx.fillText(labels[0], PADDING.left, HEIGHT - 6);
+            ctx.textAlign = 'right';
+            ctx.fillText(labels[1], PADDING.left + plotWidth, HEIGHT - 6);
+        }
+
+        ctx.fillStyle = this.color();
+        ctx.strokeStyle = this.color();
+        if (this.kind() === 'bar') {
+            const slot = plotWidth / values.length;
+            values.forEach((value, i) => {
+                const top = y(value);
+                ctx.fillRect(PADDING.left + i * slot + slot * 0.15, top, slot * 0.7, PADDING.top + plotHeight - top);
+            });
+        } else {
+            const step = values.length > 1 ? plotWidth / (values.length - 1) : 0;
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            values.forEach((value, i) => {
+                const x = PADDING.left + i * step;
+                if (i === 0) ctx.moveTo(x, y(value));
+                else ctx.lineTo(x, y(value));
+            });
+            ctx.stroke();
+            values.forEach((value, i) => ctx.fillRect(PADDING.left + i * step - 2, y(value) - 2, 4, 4));
+        }
+    }
+}
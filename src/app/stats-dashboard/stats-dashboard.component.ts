@@ -0,0 +1,82 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { CommonModule, formatDate } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { GAMES } from '../games/game-registry';
+import { StatsService } from '../stats/stats.service';
+import { STAT_COUNTERS } from '../stats/stat-counters';
+import { StatChartComponent } from '../stat-chart/stat-chart.component';
+import { arrowFocus } from '../focus/arrow-focus';
+
+const CHART_RUNS = 50;
+const CHART_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Component({
+    selector: 'app-stats-dashboard',
+    standalone: true,
+    imports: [CommonModule, RouterLink, StatChartComponent],
+    templateUrl: './stats-dashboard.component.html',
+    styleUrls: ['./stats-dashboard.component.css']
+})
+export class StatsDashboardComponent {
+    private statsService = inject(StatsService);
+
+    protected readonly games = GAMES;
+    protected selected = signal(GAMES[0]);
+
+    protected stats = computed(() => this.statsService.forGame(this.selected().id));
+    protected averageScore = computed(() => {
+        const { sessions, totalScore } = this.stats();
+        return sessions > 0 ? Math.round(totalScore / sessions) : 0;
+    });
+    protected counters = computed(() =>
+        (STAT_COUNTERS[this.selected().id] ?? []).map(counter => ({
+            label: counter.label,
+            value: this.stats().counters[counter.id] ?? 0
+        }))
+    );
+
+    // Score of each recent run
+    protected recentRuns = computed(() => this.stats().runs.slice(-CHART_RUNS));
+    protected scoreValues = computed(() => this.recentRuns().map(run => run.score));
+    protected scoreLabels = computed<[string, string] | null>(() => {
+        const runs = this.recentRuns();
+        if (runs.length === 0) return null;
+        return [this.shortDate(runs[0].date), this.shortDate(runs[runs.length - 1].date)];
+    });
+
+    // Minutes played on each of the last days, today last
+    protected dailyMinutes = computed(() => {
+        const today = new Date().setHours(0, 0, 0, 0);
+        const minutes = Array<number>(CHART_DAYS).fill(0);
+        for (const run of this.stats().runs) {
+            const day = new Date(run.date).setHours(0, 0, 0, 0);
+            const index = CHART_DAYS - 1 - Math.round((today - day) / DAY_MS);
+            if (index >= 0) minutes[index] += run.durationMs / 60000;
+        }
+        return minutes;
+    });
+    protected dayLabels: [string, string] = [
+        this.shortDate(new Date(Date.now() - (CHART_DAYS - 1) * DAY_MS).toISOString()),
+        'TODAY'
+    ];
+
+    protected formatMinutes = (value: number): string => `${value.toFixed(value < 10 ? 1 : 0)}m`;
+
+    protected formatPlayTime(ms: number): string {
+        const seconds = Math.floor(ms / 1000);
+        const hours = Math.floor(seconds / 3600);
+        const minutes = Math.floor((seconds % 3600) / 60);
+        return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m ${seconds % 60}s`;
+    }
+
+    // The arrow keys move between the game tabs, selecting each as it gets focus
+    protected moveTab(event: KeyboardEvent): void {
+        const index = arrowFocus(event, [...(event.currentTarget as HTMLElement).querySelectorAll<HTMLElement>('[role="tab"]')], 'horizontal');
+        if (index !== -1) this.selected.set(this.games[index]);
+    }
+
+    private shortDate(iso: string): string {
+        return formatDate(iso, 'MMM d', 'en-US').toUpperCase();
+    }
+}
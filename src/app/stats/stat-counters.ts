@@ -0,0 +1,53 @@
+import { GameEvent } from '../events/game-events';
+
+// A game-specific tally shown on the stats screen
+export interface StatCounter {
+    id: string;
+    label: string;
+    // How much an event adds, 0 if it doesn't count
+    count: (event: GameEvent) => number;
+}
+
+function linesOf(size: number) {
+    return (event: GameEvent) => (event.type === 'lines-cleared' && event.count === size ? 1 : 0);
+}
+
+function rocksOf(size: 'large' | 'medium' | 'small') {
+    return (event: GameEvent) => (event.type === 'enemy-destroyed' && event.kind === 'rock' && event.size === size ? 1 : 0);
+}
+
+function deathsBy(cause: string) {
+    return (event: GameEvent) => (event.type === 'life-lost' && event.cause === cause ? 1 : 0);
+}
+
+export const STAT_COUNTERS: Record<string, StatCounter[]> = {
+    'alien-invaders': [
+        { id: 'invaders', label: 'Invaders destroyed', count: e => (e.type === 'enemy-destroyed' && e.kind === 'invader' ? 1 : 0) },
+        { id: 'mother-ships', label: 'Mother ships hit', count: e => (e.type === 'enemy-destroyed' && e.kind === 'mother-ship' ? 1 : 0) }
+    ],
+    'bustout': [
+        { id: 'bricks', label: 'Bricks broken', count: e => (e.type === 'brick-broken' ? 1 : 0) }
+    ],
+    'hopper': [
+        { id: 'rescues', label: 'Lady frogs rescued', count: e => (e.type === 'goal-reached' && e.rescued ? 1 : 0) },
+        { id: 'death-car', label: 'Hit by a car', count: deathsBy('car') },
+        { id: 'death-water', label: 'Fell in the water', count: deathsBy('water') },
+        { id: 'death-snake', label: 'Bitten by a snake', count: deathsBy('snake') },
+        { id: 'death-alligator', label: 'Eaten by an alligator', count: deathsBy('alligator') },
+        { id: 'death-bank', label: 'Missed a home', count: deathsBy('bank') }
+    ],
+    'snake': [
+        { id: 'apples', label: 'Apples eaten', count: e => (e.type === 'apple-eaten' ? 1 : 0) }
+    ],
+    'space-rocks': [
+        { id: 'rocks-large', label: 'Large rocks destroyed', count: rocksOf('large') },
+        { id: 'rocks-medium', label: 'Medium rocks destroyed', count: rocksOf('medium') },
+        { id: 'rocks-small', label: 'Small rocks destroyed', count: rocksOf('small') }
+    ],
+    'shape-drop': [
+        { id: 'lines-1', label: 'Single line clears', count: linesOf(1) },
+        { id: 'lines-2', label: 'Double line clears', count: linesOf(2) },
+        { id: 'lines-3', label: 'Triple line clears', count: linesOf(3) },
+        { id: 'lines-4', label: 'Four line clears', count: linesOf(4) }
+    ]
+};
@@ -0,0 +1,61 @@
+import { TestBed } from '@angular/core/testing';
+import { StatsService } from './stats.service';
+import { GameSessionService } from '../scores/game-session.service';
+import { GhostService } from '../ghosts/ghost.service';
+import { ReplayService } from '../replays/replay.service';
+import { GameInputService } from '../input/game-input.service';
+import { RandomService } from '../random/random.service';
+
+describe('StatsService', () => {
+    let now: number;
+    let stats: StatsService;
+    let session: GameSessionService;
+
+    beforeEach(() => {
+        localStorage.clear();
+        now = 0;
+        vi.spyOn(performance, 'now').mockImplementation(() => now);
+        TestBed.configureTestingModule({
+            providers: [GameSessionService, GhostService, ReplayService, GameInputService, RandomService]
+        });
+        stats = TestBed.inject(StatsService);
+        session = TestBed.inject(GameSessionService);
+        session.use('snake');
+    });
+
+    afterEach(() => vi.restoreAllMocks());
+
+    it('records finished runs', () => {
+        session.begin();
+        now = 30000;
+        session.end({ score: 120 });
+
+        const { sessions, playTimeMs, bestScore, runs } = stats.forGame('snake');
+        expect({ sessions, playTimeMs, bestScore }).toEqual({ sessions: 1, playTimeMs: 30000, bestScore: 120 });
+        expect(runs.length).toBe(1);
+    });
+
+    it('counts the time of runs that are restarted or left', () => {
+        session.begin();
+        now = 10000;
+        session.begin();
+        now = 25000;
+        TestBed.resetTestingModule();
+
+        const { sessions, playTimeMs, runs } = stats.forGame('snake');
+        expect({ sessions, playTimeMs }).toEqual({ sessions: 2, playTimeMs: 25000 });
+        expect(runs).toEqual([]);
+    });
+
+    it('counts play time once when the page is hidden along the way', () => {
+        session.begin();
+        now = 10000;
+        Object.defineProperty(document, 'visibilityState', { value: 'hidden', configurable: true });
+        document.dispatchEvent(new Event('visibilitychange'));
+        Object.defineProperty(document, 'visibilityState', { value: 'visible', configurable: true });
+        now = 40000;
+        session.end({ score: 0 });
+
+        expect(stats.forGame('snake').playTimeMs).toBe(40000);
+    });
+});
@@ -0,0 +1,84 @@
+import { Injectable, effect, inject, linkedSignal } from '@angular/core';
+import { GameEvent, GameEventType } from '../events/game-events';
+import { GameEventsService } from '../events/game-events.service';
+import { ProfileService } from '../profiles/profile.service';
+import { STAT_COUNTERS } from './stat-counters';
+
+export interface RunRecord {
+    // ISO timestamp of the end of the run
+    date: string;
+    score: number;
+    level?: number;
+    durationMs: number;
+}
+
+export interface GameStats {
+    // Runs started, including those left unfinished
+    sessions: number;
+    playTimeMs: number;
+    totalScore: number;
+    bestScore: number;
+    highestLevel: number;
+    counters: Record<string, number>;
+    // Most recent runs, oldest first, for the charts
+    runs: RunRecord[];
+}
+
+const MAX_RUNS = 200;
+
+// Events that feed the figures common to all games
+const RECORDED = new Set<GameEventType>(['run-start', 'play-time', 'run-end']);
+
+export const EMPTY_STATS: GameStats = {
+    sessions: 0, playTimeMs: 0, totalScore: 0, bestScore: 0, highestLevel: 0, counters: {}, runs: []
+};
+
+// Lifetime statistics per game, kept per profile and fed by the game event stream
+@Injectable({ providedIn: 'root' })
+export class StatsService {
+    private profiles = inject(ProfileService);
+
+    private stats = linkedSignal(() => this.profiles.read<Record<string, GameStats>>('stats') ?? {});
+
+    constructor() {
+        effect(() => this.profiles.write('stats', this.stats()));
+        inject(GameEventsService).subscribe((game, event) => this.record(game, event));
+    }
+
+    forGame(game: string): GameStats {
+        return this.stats()[game] ?? EMPTY_STATS;
+    }
+
+    private record(game: string, event: GameEvent): void {
+        const increments = (STAT_COUNTERS[game] ?? [])
+            .map(counter => [counter.id, counter.count(event)] as const)
+            .filter(([, amount]) => amount > 0);
+        if (!RECORDED.has(event.type) && increments.length === 0) return;
+
+        this.stats.update(all => {
+            const stats: GameStats = { ...EMPTY_STATS, ...all[game] };
+            stats.counters = { ...stats.counters };
+            for (const [id, amount] of increments) {
+                stats.counters[id] = (stats.counters[id] ?? 0) + amount;
+            }
+
+            if (event.type === 'run-start') {
+                stats.sessions++;
+            } else if (event.type === 'play-time') {
+                stats.playTimeMs += event.durationMs;
+            } else if (event.type === 'run-end') {
+                stats.totalScore += event.score;
+                stats.bestScore = Math.max(stats.bestScore, event.score);
+                stats.highestLevel = Math.max(stats.highestLevel, event.level ?? 0);
+                const run: RunRecord = {
+                    date: new Date().toISOString(),
+                    score: event.score,
+                    level: event.level,
+                    durationMs: event.durationMs
+                };
+                stats.runs = [...stats.runs, run].slice(-MAX_RUNS);
+            }
+            return { ...all, [game]: stats };
+        });
+    }
+}
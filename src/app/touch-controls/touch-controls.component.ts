@@ -0,0 +1,168 @@
+import { Component, HostListener, OnDestroy, inject, input, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SwipeDirection, TouchLayout } from '../games/game-descriptor';
+import { GameInputService } from '../input/game-input.service';
+import { InputAction } from '../input/input-actions';
+
+// Fingers that move less than this are taps
+const TAP_DISTANCE = 20;
+const STICK_DEADZONE = 0.15;
+
+interface Gesture {
+    pointerId: number;
+    startX: number;
+    startY: number;
+    // Where the last drag step was taken from
+    stepX: number;
+    stepped: boolean;
+}
+
+// On-screen controls for touchscreens, feeding the game's actions like keys do
+@Component({
+    selector: 'app-touch-controls',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './touch-controls.component.html',
+    styleUrls: ['./touch-controls.component.css']
+})
+export class TouchControlsComponent implements OnDestroy {
+    private gameInput = inject(GameInputService);
+
+    layout = input.required<TouchLayout>();
+
+    // Shown when the primary pointer is a finger; follows tablets docking to a keyboard and back
+    private coarsePointer = window.matchMedia('(pointer: coarse)');
+    protected visible = signal(this.coarsePointer.matches);
+
+    // Stick knob offset from the centre, in px
+    protected knob = signal({ x: 0, y: 0 });
+    private stickPointer: number | null = null;
+    private gesture: Gesture | null = null;
+
+    constructor() {
+        this.coarsePointer.addEventListener('change', this.updateVisible);
+    }
+
+    ngOnDestroy(): void {
+        this.coarsePointer.removeEventListener('change', this.updateVisible);
+    }
+
+    // Swipes and taps anywhere except on a control
+    @HostListener('window:pointerdown', ['$event'])
+    handlePointerDown(event: PointerEvent): void {
+        const { swipe, tap } = this.layout();
+        if (!this.visible() || event.pointerType === 'mouse' || (!swipe && !tap)) return;
+        if ((event.target as Element).closest('button, select, input, a, .stick')) return;
+
+        this.gesture = {
+            pointerId: event.pointerId,
+            startX: event.clientX,
+            startY: event.clientY,
+            stepX: event.clientX,
+            stepped: false
+        };
+    }
+
+    @HostListener('window:pointermove', ['$event'])
+    handlePointerMove(event: PointerEvent): void {
+        const step = this.layout().dragStep;
+        const gesture = this.gesture;
+        if (!step || gesture?.pointerId !== event.pointerId) return;
+
+        // Horizontal drags step the piece once per step travelled
+        while (Math.abs(event.clientX - gesture.stepX) >= step) {
+            const direction = event.clientX > gesture.stepX ? 1 : -1;
+            this.fire(this.layout().swipe?.[direction > 0 ? 'right' : 'left']);
+            gesture.stepX += direction * step;
+            gesture.stepped = true;
+        }
+    }
+
+    @HostListener('window:pointerup', ['$event'])
+    handlePointerUp(event: PointerEvent): void {
+        const gesture = this.gesture;
+        if (gesture?.pointerId !== event.pointerId) return;
+        this.gesture = null;
+
+        const dx = event.clientX - gesture.startX;
+        const dy = event.clientY - gesture.startY;
+        if (Math.hypot(dx, dy) < TAP_DISTANCE) {
+            if (!gesture.stepped) this.fire(this.layout().tap);
+            return;
+        }
+
+        const horizontal = Math.abs(dx) > Math.abs(dy);
+        // A drag already stepped sideways; don't add a swipe on release
+        if (horizontal && gesture.stepped) return;
+        const direction: SwipeDirection = horizontal ? (dx > 0 ? 'right' : 'left') : (dy > 0 ? 'down' : 'up');
+        this.fire(this.layout().swipe?.[direction]);
+    }
+
+    @HostListener('window:pointercancel')
+    handlePointerCancel(): void {
+        this.gesture = null;
+    }
+
+    protected grabStick(event: PointerEvent): void {
+        this.stickPointer = event.pointerId;
+        (event.currentTarget as Element).setPointerCapture(event.pointerId);
+        this.moveStick(event);
+    }
+
+    protected moveStick(event: PointerEvent): void {
+        if (event.pointerId !== this.stickPointer) return;
+
+        const rect = (event.currentTarget as Element).getBoundingClientRect();
+        const radius = rect.width / 2;
+        let dx = event.clientX - rect.left - radius;
+        let dy = event.clientY - rect.top - radius;
+        const distance = Math.hypot(dx, dy);
+        if (distance > radius) {
+            dx *= radius / distance;
+            dy *= radius / distance;
+        }
+        this.knob.set({ x: dx, y: dy });
+        this.setStick(dx / radius, dy / radius);
+    }
+
+    protected releaseStick(): void {
+        this.stickPointer = null;
+        this.knob.set({ x: 0, y: 0 });
+        this.setStick(0, 0);
+    }
+
+    protected pressButton(action: InputAction, event: PointerEvent): void {
+        event.preventDefault();
+        this.gameInput.setVirtual(action, 1);
+    }
+
+    protected releaseButton(action: InputAction): void {
+        this.gameInput.setVirtual(action, 0);
+    }
+
+    // Splits the stick position into the four directions' actions, 0..1 each
+    private setStick(x: number, y: number): void {
+        const stick = this.layout().stick;
+        if (!stick) return;
+
+        const scaled = (value: number) => Math.max(0, (value - STICK_DEADZONE) / (1 - STICK_DEADZONE));
+        const values: Record<SwipeDirection, number> = {
+            left: scaled(-x),
+            right: scaled(x),
+            up: scaled(-y),
+            down: scaled(y)
+        };
+        for (const direction of Object.keys(values) as SwipeDirection[]) {
+            const action = stick[direction];
+            if (action) this.gameInput.setVirtual(action, values[direction]);
+        }
+    }
+
+    private fire(action: InputAction | undefined): void {
+        if (action) this.gameInput.tap(action);
+    }
+
+    private updateVisible = (event: MediaQueryListEvent): void => {
+        this.visible.set(event.matches);
+    };
+}